@@ -1,8 +1,8 @@
 #!/usr/bin/env node
 
-import { run } from "./main.js";
+import { main } from "./cli.js";
 
-run()
+main(process.argv.slice(2))
   .then((code) => process.exit(code))
   .catch((e) => {
     console.error("decern-gate: unexpected error");
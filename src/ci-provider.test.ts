@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { detectCi } from "./ci-provider";
+import { loadConfig } from "./config";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const BASE = "a".repeat(40);
+const HEAD = "b".repeat(40);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "decern-gate-ci-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeEvent(event: unknown): string {
+  const path = join(dir, "event.json");
+  writeFileSync(path, JSON.stringify(event));
+  return path;
+}
+
+describe("detectCi — GitHub Actions", () => {
+  it("reads SHAs and PR text from the pull_request payload", () => {
+    const path = writeEvent({
+      pull_request: { title: "Add index", body: "Implements ADR-012", base: { sha: BASE }, head: { sha: HEAD } },
+    });
+    expect(detectCi({ GITHUB_ACTIONS: "true", GITHUB_EVENT_PATH: path, GITHUB_SHA: "c".repeat(40) })).toEqual({
+      provider: "github",
+      values: { baseSha: BASE, headSha: HEAD, prTitle: "Add index", prBody: "Implements ADR-012" },
+      sources: {
+        baseSha: "GITHUB_EVENT_PATH (pull_request.base.sha)",
+        headSha: "GITHUB_EVENT_PATH (pull_request.head.sha)",
+        prTitle: "GITHUB_EVENT_PATH (pull_request.title)",
+        prBody: "GITHUB_EVENT_PATH (pull_request.body)",
+      },
+    });
+  });
+
+  it("reads the source branch, label names and PR author from the pull_request payload", () => {
+    const path = writeEvent({
+      pull_request: {
+        head: { ref: "feature/ADR-042-queue" },
+        labels: [{ name: "decern:ADR-042" }, { name: "infra" }],
+        user: { login: "alice" },
+      },
+    });
+    const detection = detectCi({ GITHUB_ACTIONS: "true", GITHUB_EVENT_PATH: path, GITHUB_HEAD_REF: "other", GITHUB_ACTOR: "bot" });
+    expect(detection?.values).toMatchObject({ branch: "feature/ADR-042-queue", labels: "decern:ADR-042\ninfra", author: "alice" });
+    expect(detection?.sources.labels).toBe("GITHUB_EVENT_PATH (pull_request.labels)");
+  });
+
+  it("uses before/after and the head commit message on push", () => {
+    const path = writeEvent({ before: BASE, after: HEAD, head_commit: { message: "fix: ADR-3" } });
+    expect(detectCi({ GITHUB_ACTIONS: "true", GITHUB_EVENT_PATH: path })?.values).toEqual({
+      baseSha: BASE,
+      headSha: HEAD,
+      commitMessage: "fix: ADR-3",
+    });
+  });
+
+  it("skips the all-zero before SHA of a new branch", () => {
+    const path = writeEvent({ before: "0".repeat(40), after: HEAD });
+    expect(detectCi({ GITHUB_ACTIONS: "true", GITHUB_EVENT_PATH: path })?.values).toEqual({ headSha: HEAD });
+  });
+
+  it("falls back to GITHUB_SHA and GITHUB_BASE_REF without a readable payload", () => {
+    const detection = detectCi({
+      GITHUB_ACTIONS: "true",
+      GITHUB_EVENT_PATH: join(dir, "missing.json"),
+      GITHUB_SHA: HEAD,
+      GITHUB_BASE_REF: "main",
+    });
+    expect(detection?.values).toEqual({ baseSha: "origin/main", headSha: HEAD });
+    expect(detection?.sources).toEqual({ baseSha: "GITHUB_BASE_REF", headSha: "GITHUB_SHA" });
+  });
+});
+
+describe("detectCi — other providers", () => {
+  it.each([
+    [
+      "gitlab",
+      {
+        GITLAB_CI: "true",
+        CI_MERGE_REQUEST_DIFF_BASE_SHA: BASE,
+        CI_COMMIT_SHA: HEAD,
+        CI_MERGE_REQUEST_TITLE: "t",
+        CI_MERGE_REQUEST_DESCRIPTION: "b",
+      },
+      { baseSha: BASE, headSha: HEAD, prTitle: "t", prBody: "b" },
+    ],
+    [
+      "bitbucket",
+      { BITBUCKET_BUILD_NUMBER: "7", BITBUCKET_PR_DESTINATION_BRANCH: "main", BITBUCKET_COMMIT: HEAD },
+      { baseSha: "origin/main", headSha: HEAD },
+    ],
+    [
+      "azure",
+      {
+        TF_BUILD: "True",
+        SYSTEM_PULLREQUEST_TARGETBRANCH: "refs/heads/develop",
+        BUILD_SOURCEVERSION: HEAD,
+        BUILD_SOURCEVERSIONMESSAGE: "msg",
+      },
+      { baseSha: "origin/develop", headSha: HEAD, commitMessage: "msg" },
+    ],
+    ["circleci", { CIRCLECI: "true", CIRCLE_SHA1: HEAD }, { headSha: HEAD }],
+    [
+      "buildkite",
+      {
+        BUILDKITE: "true",
+        BUILDKITE_PULL_REQUEST: "12",
+        BUILDKITE_PULL_REQUEST_BASE_BRANCH: "main",
+        BUILDKITE_COMMIT: HEAD,
+        BUILDKITE_MESSAGE: "msg",
+      },
+      { baseSha: "origin/main", headSha: HEAD, commitMessage: "msg" },
+    ],
+    [
+      "jenkins",
+      { JENKINS_URL: "https://ci", CHANGE_TARGET: "main", GIT_COMMIT: HEAD, CHANGE_TITLE: "t" },
+      { baseSha: "origin/main", headSha: HEAD, prTitle: "t" },
+    ],
+  ])("%s", (provider, env, values) => {
+    const detection = detectCi(env);
+    expect(detection?.provider).toBe(provider);
+    expect(detection?.values).toEqual(values);
+  });
+
+  it("reads the branch and labels of a GitLab merge request", () => {
+    const detection = detectCi({
+      GITLAB_CI: "true",
+      CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: "feature/ADR-9-cache",
+      CI_COMMIT_BRANCH: "ignored",
+      CI_MERGE_REQUEST_LABELS: "decern:ADR-9,backend",
+    });
+    expect(detection?.values).toEqual({ branch: "feature/ADR-9-cache", labels: "decern:ADR-9,backend" });
+    expect(detectCi({ TF_BUILD: "True", BUILD_SOURCEBRANCH: "refs/heads/feature/x" })?.values.branch).toBe("feature/x");
+  });
+
+  it("returns undefined outside CI or when disabled", () => {
+    expect(detectCi({})).toBeUndefined();
+    expect(detectCi({ GITLAB_CI: "true", CI_COMMIT_SHA: HEAD }, "none")).toBeUndefined();
+  });
+
+  it("can force a provider", () => {
+    expect(detectCi({ CI_COMMIT_SHA: HEAD }, "gitlab")?.values).toEqual({ headSha: HEAD });
+  });
+});
+
+describe("loadConfig — CI detection", () => {
+  it("explicit CI_* vars and flags win over detected values, with sources recorded", () => {
+    const c = loadConfig({
+      env: { GITLAB_CI: "true", CI_MERGE_REQUEST_DIFF_BASE_SHA: BASE, CI_COMMIT_SHA: HEAD, CI_PR_TITLE: "explicit" },
+      cwd: dir,
+      overrides: { headSha: "HEAD" },
+    });
+    expect(c.ci).toEqual({
+      provider: "gitlab",
+      baseSha: BASE,
+      headSha: "HEAD",
+      prTitle: "explicit",
+      sources: { baseSha: "CI_MERGE_REQUEST_DIFF_BASE_SHA", headSha: "--head", prTitle: "CI_PR_TITLE" },
+    });
+  });
+
+  it("rejects an unknown DECERN_GATE_CI_PROVIDER", () => {
+    expect(() => loadConfig({ env: { DECERN_GATE_CI_PROVIDER: "travis" }, cwd: dir })).toThrow(/DECERN_GATE_CI_PROVIDER/);
+  });
+});
+
+describe("run — CI provider env", () => {
+  const g = useGateRepo();
+
+  it("never runs a target branch name from CI env through a shell", async () => {
+    const head = g.commit({ "db/migrations/001.sql": "create table t();\n" }, "add migration");
+    vi.stubEnv("DECERN_GATE_CI_PROVIDER", "jenkins");
+    vi.stubEnv("CHANGE_TARGET", "main$(touch pwned_branch)`touch pwned_tick`");
+    vi.stubEnv("GIT_COMMIT", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.summary).toBe("blocked — fix git refs or set CI_BASE_SHA / CI_HEAD_SHA.");
+    expect(existsSync(join(g.dir, "pwned_branch"))).toBe(false);
+    expect(existsSync(join(g.dir, "pwned_tick"))).toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * CI provider detection: derives base/head SHAs, PR/commit text, the branch name and PR labels from the
+ * provider's own variables, so pipelines do not have to map them into CI_BASE_SHA / CI_HEAD_SHA /
+ * CI_PR_TITLE / CI_PR_BODY / CI_BRANCH / CI_PR_LABELS / CI_AUTHOR by hand.
+ * Explicit CI_* env vars (and CLI flags) always win over detected values.
+ */
+
+import { readFileSync } from "fs";
+
+type Env = Record<string, string | undefined>;
+
+export const CI_PROVIDERS = ["github", "gitlab", "bitbucket", "azure", "circleci", "buildkite", "jenkins"] as const;
+
+export type CiProvider = (typeof CI_PROVIDERS)[number];
+
+const PROVIDER_NAMES: Record<CiProvider, string> = {
+  github: "GitHub Actions",
+  gitlab: "GitLab CI",
+  bitbucket: "Bitbucket Pipelines",
+  azure: "Azure DevOps",
+  circleci: "CircleCI",
+  buildkite: "Buildkite",
+  jenkins: "Jenkins",
+};
+
+/** Values the gate reads from CI. */
+export type CiField = "baseSha" | "headSha" | "prTitle" | "prBody" | "commitMessage" | "branch" | "labels" | "issues" | "author";
+
+export type CiDetection = {
+  provider: CiProvider;
+  values: Partial<Record<CiField, string>>;
+  /** Where each value came from, e.g. "GITHUB_EVENT_PATH (pull_request.base.sha)" or "CI_MERGE_REQUEST_TITLE". */
+  sources: Partial<Record<CiField, string>>;
+};
+
+/** Git's all-zero SHA, used by providers for "no previous commit" (new branch, first push). */
+const NULL_SHA = /^0+$/;
+
+/** Collects values with their sources; empty values and null SHAs are skipped. */
+class Collector {
+  readonly values: Partial<Record<CiField, string>> = {};
+  readonly sources: Partial<Record<CiField, string>> = {};
+
+  set(field: CiField, value: unknown, source: string): void {
+    if (typeof value !== "string" || !value.trim() || this.values[field] !== undefined) return;
+    if ((field === "baseSha" || field === "headSha") && NULL_SHA.test(value.trim())) return;
+    this.values[field] = field === "baseSha" || field === "headSha" ? value.trim() : value;
+    this.sources[field] = source;
+  }
+
+  /** Sets a value from an env var; the source is the var name. */
+  env(field: CiField, env: Env, name: string): void {
+    this.set(field, env[name], name);
+  }
+
+  /** Sets the source branch name (refs/heads/ prefix dropped). */
+  branch(env: Env, name: string): void {
+    this.set("branch", env[name]?.trim().replace(/^refs\/heads\//, ""), name);
+  }
+
+  /** Sets the base from a target branch name (diffed as origin/<branch>). */
+  targetBranch(env: Env, name: string): void {
+    const branch = env[name]?.trim().replace(/^refs\/heads\//, "");
+    if (branch) this.set("baseSha", `origin/${branch}`, name);
+  }
+}
+
+function readEvent(path: string | undefined): Record<string, unknown> | undefined {
+  if (!path) return undefined;
+  try {
+    const event = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+    return event && typeof event === "object" ? (event as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Reads a dotted path from the event payload. */
+function pick(event: Record<string, unknown>, path: string): unknown {
+  let v: unknown = event;
+  for (const key of path.split(".")) {
+    if (!v || typeof v !== "object") return undefined;
+    v = (v as Record<string, unknown>)[key];
+  }
+  return v;
+}
+
+function detectGithub(env: Env, c: Collector): void {
+  const event = readEvent(env.GITHUB_EVENT_PATH);
+  if (event) {
+    const fromEvent = (field: CiField, path: string) => c.set(field, pick(event, path), `GITHUB_EVENT_PATH (${path})`);
+    if (event.pull_request) {
+      fromEvent("baseSha", "pull_request.base.sha");
+      fromEvent("headSha", "pull_request.head.sha");
+      fromEvent("prTitle", "pull_request.title");
+      fromEvent("prBody", "pull_request.body");
+      fromEvent("branch", "pull_request.head.ref");
+      fromEvent("author", "pull_request.user.login");
+      const labels = pick(event, "pull_request.labels");
+      if (Array.isArray(labels)) {
+        const names = labels.map((l) => (l as { name?: unknown } | null)?.name).filter((n): n is string => typeof n === "string");
+        c.set("labels", names.join("\n"), "GITHUB_EVENT_PATH (pull_request.labels)");
+      }
+    } else if (event.merge_group) {
+      fromEvent("baseSha", "merge_group.base_sha");
+      fromEvent("headSha", "merge_group.head_sha");
+      fromEvent("commitMessage", "merge_group.head_commit.message");
+    } else {
+      fromEvent("baseSha", "before");
+      fromEvent("headSha", "after");
+      fromEvent("commitMessage", "head_commit.message");
+    }
+  }
+  c.env("headSha", env, "GITHUB_SHA");
+  c.targetBranch(env, "GITHUB_BASE_REF");
+  c.branch(env, "GITHUB_HEAD_REF");
+  c.branch(env, "GITHUB_REF_NAME");
+  c.env("author", env, "GITHUB_ACTOR");
+}
+
+function detectGitlab(env: Env, c: Collector): void {
+  c.env("baseSha", env, "CI_MERGE_REQUEST_DIFF_BASE_SHA");
+  c.env("baseSha", env, "CI_COMMIT_BEFORE_SHA");
+  c.env("headSha", env, "CI_COMMIT_SHA");
+  c.env("prTitle", env, "CI_MERGE_REQUEST_TITLE");
+  c.env("prBody", env, "CI_MERGE_REQUEST_DESCRIPTION");
+  c.branch(env, "CI_MERGE_REQUEST_SOURCE_BRANCH_NAME");
+  c.branch(env, "CI_COMMIT_BRANCH");
+  c.env("labels", env, "CI_MERGE_REQUEST_LABELS");
+  c.env("author", env, "GITLAB_USER_LOGIN");
+}
+
+function detectBitbucket(env: Env, c: Collector): void {
+  c.env("baseSha", env, "BITBUCKET_PR_DESTINATION_COMMIT");
+  c.targetBranch(env, "BITBUCKET_PR_DESTINATION_BRANCH");
+  c.env("headSha", env, "BITBUCKET_COMMIT");
+  c.branch(env, "BITBUCKET_BRANCH");
+}
+
+function detectAzure(env: Env, c: Collector): void {
+  c.targetBranch(env, "SYSTEM_PULLREQUEST_TARGETBRANCH");
+  c.env("headSha", env, "SYSTEM_PULLREQUEST_SOURCECOMMITID");
+  c.env("headSha", env, "BUILD_SOURCEVERSION");
+  c.env("commitMessage", env, "BUILD_SOURCEVERSIONMESSAGE");
+  c.branch(env, "SYSTEM_PULLREQUEST_SOURCEBRANCH");
+  c.branch(env, "BUILD_SOURCEBRANCH");
+  c.env("author", env, "BUILD_REQUESTEDFOREMAIL");
+}
+
+function detectCircleci(env: Env, c: Collector): void {
+  c.env("headSha", env, "CIRCLE_SHA1");
+  c.branch(env, "CIRCLE_BRANCH");
+  c.env("author", env, "CIRCLE_USERNAME");
+}
+
+function detectBuildkite(env: Env, c: Collector): void {
+  if (env.BUILDKITE_PULL_REQUEST && env.BUILDKITE_PULL_REQUEST !== "false") {
+    c.targetBranch(env, "BUILDKITE_PULL_REQUEST_BASE_BRANCH");
+  }
+  c.env("headSha", env, "BUILDKITE_COMMIT");
+  c.env("commitMessage", env, "BUILDKITE_MESSAGE");
+  c.branch(env, "BUILDKITE_BRANCH");
+  c.env("author", env, "BUILDKITE_BUILD_AUTHOR_EMAIL");
+}
+
+function detectJenkins(env: Env, c: Collector): void {
+  c.targetBranch(env, "CHANGE_TARGET");
+  c.env("baseSha", env, "GIT_PREVIOUS_SUCCESSFUL_COMMIT");
+  c.env("headSha", env, "GIT_COMMIT");
+  c.env("prTitle", env, "CHANGE_TITLE");
+  c.branch(env, "CHANGE_BRANCH");
+  c.branch(env, "BRANCH_NAME");
+  c.env("author", env, "CHANGE_AUTHOR");
+}
+
+const DETECTORS: { provider: CiProvider; present: (env: Env) => boolean; detect: (env: Env, c: Collector) => void }[] = [
+  { provider: "github", present: (env) => env.GITHUB_ACTIONS === "true", detect: detectGithub },
+  { provider: "gitlab", present: (env) => env.GITLAB_CI === "true", detect: detectGitlab },
+  { provider: "bitbucket", present: (env) => !!env.BITBUCKET_BUILD_NUMBER, detect: detectBitbucket },
+  { provider: "azure", present: (env) => env.TF_BUILD?.toLowerCase() === "true", detect: detectAzure },
+  { provider: "circleci", present: (env) => env.CIRCLECI === "true", detect: detectCircleci },
+  { provider: "buildkite", present: (env) => env.BUILDKITE === "true", detect: detectBuildkite },
+  { provider: "jenkins", present: (env) => !!env.JENKINS_URL, detect: detectJenkins },
+];
+
+/**
+ * Detects the CI provider from env and derives CI values. `provider` forces a provider (skipping presence
+ * checks); "none" disables detection. Returns undefined when no provider is detected.
+ */
+export function detectCi(env: Env, provider?: CiProvider | "none"): CiDetection | undefined {
+  if (provider === "none") return undefined;
+  const detector = provider ? DETECTORS.find((d) => d.provider === provider) : DETECTORS.find((d) => d.present(env));
+  if (!detector) return undefined;
+  const c = new Collector();
+  detector.detect(env, c);
+  return { provider: detector.provider, values: c.values, sources: c.sources };
+}
+
+export function ciProviderName(provider: CiProvider): string {
+  return PROVIDER_NAMES[provider];
+}
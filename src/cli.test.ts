@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { HELP, parseCli, UsageError } from "./cli";
+
+describe("parseCli — commands", () => {
+  it("defaults to check", () => {
+    expect(parseCli([]).command).toEqual({ name: "check" });
+    expect(parseCli(["check"]).command).toEqual({ name: "check" });
+  });
+
+  it("validate and judge take one ref", () => {
+    expect(parseCli(["validate", "ADR-001"]).command).toEqual({ name: "validate", ref: "ADR-001" });
+    expect(parseCli(["judge", "abc-123"]).command).toEqual({ name: "judge", ref: "abc-123" });
+    expect(() => parseCli(["validate"])).toThrow(UsageError);
+    expect(() => parseCli(["judge", "a", "b"])).toThrow(UsageError);
+  });
+
+  it("explain takes paths or --from-diff", () => {
+    expect(parseCli(["explain", "a.tf", "b.ts"]).command).toEqual({
+      name: "explain",
+      paths: ["a.tf", "b.ts"],
+      fromDiff: false,
+    });
+    expect(parseCli(["explain", "--from-diff"]).command).toEqual({ name: "explain", paths: [], fromDiff: true });
+    expect(() => parseCli(["explain"])).toThrow(UsageError);
+    expect(() => parseCli(["check", "--from-diff"])).toThrow(/only valid with explain/);
+  });
+
+  it("patterns list", () => {
+    expect(parseCli(["patterns", "list"]).command).toEqual({ name: "patterns-list" });
+    expect(() => parseCli(["patterns"])).toThrow(UsageError);
+  });
+
+  it("judge-ignore list", () => {
+    expect(parseCli(["judge-ignore", "list"]).command).toEqual({ name: "judge-ignore-list" });
+    expect(() => parseCli(["judge-ignore", "add"])).toThrow(/Usage: decern-gate judge-ignore list/);
+  });
+
+  it("hook and install-hooks", () => {
+    expect(parseCli(["hook", "commit-msg", ".git/COMMIT_EDITMSG"]).command).toEqual({
+      name: "hook",
+      hook: "commit-msg",
+      args: [".git/COMMIT_EDITMSG"],
+    });
+    expect(parseCli(["hook", "pre-push", "origin", "git@example.com:repo.git"]).command).toMatchObject({ hook: "pre-push" });
+    expect(() => parseCli(["hook", "post-merge"])).toThrow(/hook requires a hook type/);
+    expect(parseCli(["install-hooks"]).command).toEqual({ name: "install-hooks" });
+  });
+
+  it("help and version", () => {
+    expect(parseCli(["--help"]).command).toEqual({ name: "help" });
+    expect(parseCli(["validate", "-h"]).command).toEqual({ name: "help" });
+    expect(parseCli(["--version"]).command).toEqual({ name: "version" });
+  });
+
+  it("rejects unknown commands and flags", () => {
+    expect(() => parseCli(["deploy"])).toThrow(/Unknown command: deploy/);
+    expect(() => parseCli(["--nope"])).toThrow(UsageError);
+  });
+});
+
+describe("parseCli — flags", () => {
+  it("maps flags to config overrides", () => {
+    const { overrides } = parseCli([
+      "--base",
+      "abc",
+      "--head",
+      "def",
+      "--extra-pattern",
+      "infra/",
+      "--extra-pattern",
+      "!docs/**,deploy.sh",
+      "--judge",
+      "--min-confidence",
+      "0.75",
+      "--timeout",
+      "3000",
+      "--config",
+      "gate.yml",
+      "--format",
+      "json",
+      "--no-cache",
+      "--per-commit",
+    ]);
+    expect(overrides).toEqual({
+      configFile: "gate.yml",
+      baseSha: "abc",
+      headSha: "def",
+      extraPatterns: ["infra/", "!docs/**", "deploy.sh"],
+      judgeEnabled: true,
+      minConfidence: 0.75,
+      timeoutMs: 3000,
+      format: "json",
+      noCache: true,
+      perCommit: true,
+    });
+  });
+
+  it("--no-judge disables the judge; both together is an error", () => {
+    expect(parseCli(["--no-judge"]).overrides.judgeEnabled).toBe(false);
+    expect(parseCli([]).overrides.judgeEnabled).toBeUndefined();
+    expect(() => parseCli(["--judge", "--no-judge"])).toThrow(UsageError);
+  });
+
+  it("validates numeric flags", () => {
+    expect(() => parseCli(["--min-confidence", "1.5"])).toThrow(/between 0 and 1/);
+    expect(() => parseCli(["--timeout", "10"])).toThrow(/>= 1000/);
+    expect(() => parseCli(["--timeout", "abc"])).toThrow(UsageError);
+    expect(() => parseCli(["--format", "xml"])).toThrow(/--format must be one of: text, json/);
+  });
+});
+
+describe("HELP", () => {
+  it("documents every command and flag", () => {
+    for (const s of ["check", "validate <ref>", "judge <ref>", "explain", "patterns list", "judge-ignore list", "hook <type>", "install-hooks", "--base", "--head",
+      "--extra-pattern", "--judge", "--no-judge", "--min-confidence", "--timeout", "--no-cache", "--per-commit", "--format", "--config", "--help", "--version"]) {
+      expect(HELP).toContain(s);
+    }
+  });
+});
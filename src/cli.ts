@@ -0,0 +1,252 @@
+/**
+ * Command-line interface: subcommands and flags. Flags mirror env vars and take precedence over them
+ * (and over the config file). Running with no command is the same as `check`.
+ */
+
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+import { ConfigError, formatConfigError, loadConfig, type ConfigOverrides, type GateConfig } from "./config.js";
+import { runExplain } from "./explain.js";
+import { HOOK_TYPES, runHook, runInstallHooks, type HookType } from "./hooks.js";
+import { judgeIgnoreRuleFor, JUDGE_IGNORE_FILE } from "./judge-ignore.js";
+import { getChangedFiles, run, runJudge, runValidate } from "./main.js";
+import { OUTPUT_FORMATS, type OutputFormat } from "./report.js";
+import { listBuiltinPatterns } from "./required-patterns.js";
+
+export const HELP = `Usage: decern-gate [command] [options]
+
+Commands:
+  check                     Run the gate on the current diff (default)
+  validate <ref>            Validate one decision ref (decision ID or ADR-XXX) against Decern
+  judge <ref>               Run the judge on the current diff against one decision ref
+  explain <path...>         Show which rule makes each path high-impact (--from-diff: all changed files)
+  patterns list             List built-in patterns by category, plus configured extra patterns
+  judge-ignore list         List judge ignore rules (.decernjudgeignore, judge.ignore) and the changed files they leave out
+  hook <type> [args...]     Git hook mode: pre-commit, commit-msg <msg-file>, pre-push (reads git's stdin)
+  install-hooks             Install the pre-commit, commit-msg and pre-push hooks (existing hooks are kept)
+
+Options (take precedence over env vars and the config file):
+  --config <path>           Config file (env: DECERN_GATE_CONFIG)
+  --base <ref>              Base commit for the diff (env: CI_BASE_SHA)
+  --head <ref>              Head commit for the diff (env: CI_HEAD_SHA)
+  --extra-pattern <pattern> Extra high-impact pattern; repeatable, replaces the configured list
+                            (env: DECERN_GATE_EXTRA_PATTERNS)
+  --judge, --no-judge       Enable or disable the judge step (env: DECERN_GATE_JUDGE_ENABLED)
+  --min-confidence <0-1>    Min judge confidence (env: DECERN_JUDGE_MIN_CONFIDENCE)
+  --timeout <ms>            Validate API timeout, >= 1000 (env: DECERN_GATE_TIMEOUT_MS)
+  --no-cache                Ignore cached judge results and re-judge (results are still written to the cache)
+  --per-commit              check: every high-impact commit in base..head needs its own valid ref
+                            (env: DECERN_GATE_PER_COMMIT)
+  --format <text|json>      check: output format; json prints one versioned report (env: DECERN_GATE_FORMAT)
+  --from-diff               explain: use the changed files of the current diff
+  -h, --help                Show this help
+  -v, --version             Show the version
+`;
+
+/** Thrown for invalid command-line usage (unknown command/flag, bad flag value, missing argument). */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export type CliCommand =
+  | { name: "check" }
+  | { name: "validate"; ref: string }
+  | { name: "judge"; ref: string }
+  | { name: "explain"; paths: string[]; fromDiff: boolean }
+  | { name: "patterns-list" }
+  | { name: "judge-ignore-list" }
+  | { name: "hook"; hook: HookType; args: string[] }
+  | { name: "install-hooks" }
+  | { name: "help" }
+  | { name: "version" };
+
+function parseNumberFlag(name: string, value: string | undefined, min: number, max?: number): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!value.trim() || !Number.isFinite(n) || n < min || (max != null && n > max)) {
+    throw new UsageError(`--${name} must be a number ${max != null ? `between ${min} and ${max}` : `>= ${min}`}.`);
+  }
+  return n;
+}
+
+/** Parses argv (without node and script) into a command and config overrides. Throws UsageError. */
+export function parseCli(argv: string[]): { command: CliCommand; overrides: ConfigOverrides } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "v" },
+        config: { type: "string" },
+        base: { type: "string" },
+        head: { type: "string" },
+        "extra-pattern": { type: "string", multiple: true },
+        judge: { type: "boolean" },
+        "no-judge": { type: "boolean" },
+        "min-confidence": { type: "string" },
+        timeout: { type: "string" },
+        "no-cache": { type: "boolean" },
+        "per-commit": { type: "boolean" },
+        format: { type: "string" },
+        "from-diff": { type: "boolean" },
+      },
+    });
+  } catch (e) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.judge && values["no-judge"]) throw new UsageError("--judge and --no-judge cannot be used together.");
+  const timeout = parseNumberFlag("timeout", values.timeout, 1000);
+  if (values.format !== undefined && !OUTPUT_FORMATS.includes(values.format as OutputFormat)) {
+    throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+  const overrides: ConfigOverrides = {
+    configFile: values.config,
+    baseSha: values.base,
+    headSha: values.head,
+    extraPatterns: values["extra-pattern"]?.flatMap((p) => p.split(",")).map((p) => p.trim()).filter(Boolean),
+    judgeEnabled: values.judge ? true : values["no-judge"] ? false : undefined,
+    minConfidence: parseNumberFlag("min-confidence", values["min-confidence"], 0, 1),
+    timeoutMs: timeout != null ? Math.round(timeout) : undefined,
+    format: values.format as OutputFormat | undefined,
+    noCache: values["no-cache"] || undefined,
+    perCommit: values["per-commit"] || undefined,
+  };
+
+  if (values.help) return { command: { name: "help" }, overrides };
+  if (values.version) return { command: { name: "version" }, overrides };
+
+  const [name = "check", ...rest] = positionals;
+  const command = ((): CliCommand => {
+    switch (name) {
+      case "check":
+        if (rest.length > 0) throw new UsageError(`check takes no arguments (got: ${rest.join(" ")}).`);
+        return { name: "check" };
+      case "validate":
+      case "judge":
+        if (rest.length !== 1) throw new UsageError(`${name} requires exactly one decision ref (e.g. ADR-001).`);
+        return { name, ref: rest[0]! };
+      case "explain":
+        if (rest.length === 0 && !values["from-diff"]) throw new UsageError("explain requires <path...> or --from-diff.");
+        return { name: "explain", paths: rest, fromDiff: !!values["from-diff"] };
+      case "patterns":
+        if (rest.length !== 1 || rest[0] !== "list") throw new UsageError("Usage: decern-gate patterns list");
+        return { name: "patterns-list" };
+      case "judge-ignore":
+        if (rest.length !== 1 || rest[0] !== "list") throw new UsageError("Usage: decern-gate judge-ignore list");
+        return { name: "judge-ignore-list" };
+      case "hook": {
+        const [hook, ...args] = rest;
+        if (!HOOK_TYPES.includes(hook as HookType)) {
+          throw new UsageError(`hook requires a hook type: ${HOOK_TYPES.join(", ")}.`);
+        }
+        return { name: "hook", hook: hook as HookType, args };
+      }
+      case "install-hooks":
+        if (rest.length > 0) throw new UsageError(`install-hooks takes no arguments (got: ${rest.join(" ")}).`);
+        return { name: "install-hooks" };
+      default:
+        throw new UsageError(`Unknown command: ${name}`);
+    }
+  })();
+  if (values["from-diff"] && command.name !== "explain") throw new UsageError("--from-diff is only valid with explain.");
+  return { command, overrides };
+}
+
+function readVersion(): string {
+  const pkg = JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf-8")) as { version?: string };
+  return pkg.version ?? "unknown";
+}
+
+function printPatterns(config: GateConfig): void {
+  for (const { category, pathPatterns, basenames, specialCases } of listBuiltinPatterns()) {
+    console.log(`${category} (${config.categories[category]})`);
+    if (pathPatterns.length > 0) console.log(`  Paths: ${pathPatterns.join(", ")}`);
+    if (basenames.length > 0) console.log(`  Basenames: ${basenames.join(", ")}`);
+    for (const label of specialCases) console.log(`  Special: ${label}`);
+  }
+  const includes = config.extraPatterns.filter((p) => !p.startsWith("!"));
+  const ignores = config.extraPatterns.filter((p) => p.startsWith("!"));
+  console.log(`CUSTOM (${config.categories.CUSTOM})`);
+  console.log(`  Extra patterns: ${includes.length > 0 ? includes.join(", ") : "(none)"}`);
+  console.log(`Ignore rules: ${ignores.length > 0 ? ignores.join(", ") : "(none)"}`);
+}
+
+/** Prints the judge ignore rules and which changed files of the current diff they leave out; 1 on git error. */
+function printJudgeIgnore(config: GateConfig): number {
+  const { ignore } = config.judge;
+  console.log(`Ignore rules (${JUDGE_IGNORE_FILE}, then judge.ignore; last match wins):`);
+  if (ignore.length === 0) console.log("  (none)");
+  for (const rule of ignore) console.log(`  ${rule.pattern}  (${rule.source})`);
+  console.log("Always left out: images, binaries and file diffs over 1MB.");
+  let changed: string[];
+  try {
+    changed = getChangedFiles(config);
+  } catch {
+    console.log("Diff: could not compute (git error). Set --base / --head (or CI_BASE_SHA / CI_HEAD_SHA).");
+    return 1;
+  }
+  const ignored = changed
+    .map((path) => ({ path, rule: judgeIgnoreRuleFor(path, ignore) }))
+    .filter((e) => e.rule !== undefined);
+  console.log(`Ignored changed files: ${ignored.length > 0 ? "" : "(none)"}`);
+  for (const { path, rule } of ignored) console.log(`  ${path}  (${rule!.pattern}, ${rule!.source})`);
+  return 0;
+}
+
+/** CLI entry point; returns exit code (0 = success/pass, 1 = failure/blocked, 2 = usage error). */
+export async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCli>;
+  try {
+    parsed = parseCli(argv);
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e;
+    console.error(`decern-gate: ${e.message}`);
+    console.error("Run decern-gate --help for usage.");
+    return 2;
+  }
+  const { command, overrides } = parsed;
+
+  if (command.name === "help") {
+    console.log(HELP);
+    return 0;
+  }
+  if (command.name === "version") {
+    console.log(readVersion());
+    return 0;
+  }
+
+  if (command.name === "check") return run({ overrides });
+  if (command.name === "install-hooks") return runInstallHooks();
+
+  let config: GateConfig;
+  try {
+    config = loadConfig({ overrides });
+  } catch (e) {
+    if (!(e instanceof ConfigError)) throw e;
+    for (const line of formatConfigError(e)) console.log(line);
+    return 1;
+  }
+
+  switch (command.name) {
+    case "validate":
+      return runValidate(config, command.ref);
+    case "judge":
+      return runJudge(config, command.ref);
+    case "explain":
+      return runExplain(config, command.paths, command.fromDiff);
+    case "patterns-list":
+      printPatterns(config);
+      return 0;
+    case "judge-ignore-list":
+      return printJudgeIgnore(config);
+    case "hook":
+      return runHook(config, command.hook, command.args, command.hook === "pre-push" ? readFileSync(0, "utf-8") : "");
+  }
+}
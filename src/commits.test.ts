@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+describe("run — per-commit mode", () => {
+  const g = useGateRepo();
+
+  beforeEach(() => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\nvalidate:\n  perCommit: true\n",
+        "docs/adr/0012-sessions.md": "---\nstatus: accepted\n---\n# Sessions in Redis\n",
+        "docs/adr/0013-proposal.md": "---\nstatus: proposed\n---\n",
+      },
+      "add ADRs"
+    );
+  });
+
+  it("requires each high-impact commit to carry its own valid ref", async () => {
+    g.commit({ "k8s/sessions.yaml": "kind: Deployment\n" }, "Move sessions to Redis\n\nDecern-Decision: ADR-012");
+    g.commit({ "src/app.ts": "export {};\n" }, "Refactor app");
+    const tip = g.commit({ "terraform/main.tf": "resource {}\n" }, "Add bucket (see ADR-012 in the PR)");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", tip);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.commits!.map((c) => [c.subject, c.passed])).toEqual([
+      ["Move sessions to Redis", true],
+      ["Add bucket (see ADR-012 in the PR)", true],
+    ]);
+  });
+
+  it("blocks when a high-impact commit has no ref of its own, even if another commit has one", async () => {
+    g.commit({ "k8s/sessions.yaml": "kind: Deployment\n" }, "Move sessions to Redis\n\nRefs: decern:ADR-012");
+    const second = g.commit({ "terraform/main.tf": "resource {}\n" }, "Add bucket");
+    const tip = g.commit({ "Dockerfile": "FROM node:20\n" }, "Base image\n\nDecern-Decision: ADR-013");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", tip);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.refs).toEqual(["ADR-012", "ADR-013"]);
+    expect(report.commits!.map((c) => c.reason)).toEqual([undefined, "no decision ref", "no valid decision (ADR-013)"]);
+    expect(report.summary).toContain(`${second.slice(0, 7)} (no decision ref)`);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Per-commit mode (validate.perCommit): the commits of base..head with their message and changed files,
+ * so each commit that touches high-impact files can be checked for its own decision ref instead of
+ * searching only the PR text or the tip commit message.
+ */
+
+import { execFileSync } from "child_process";
+
+export type RangeCommit = { sha: string; subject: string; message: string; files: string[] };
+
+/** Runs git without a shell: refs come from CI env and may hold shell syntax. */
+function git(args: string[]): string {
+  return execFileSync("git", args, { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], maxBuffer: 16 * 1024 * 1024 });
+}
+
+function lines(out: string): string[] {
+  return out
+    .split("\n")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Commits reachable from head but not from base, oldest first. Merge commits are skipped: their changes
+ * come from the merged commits, which are listed themselves. Throws on git errors (bad refs).
+ */
+export function getRangeCommits(base: string, head: string): RangeCommit[] {
+  return lines(git(["rev-list", "--reverse", "--no-merges", `${base}..${head}`])).map((sha) => {
+    const message = git(["log", "-1", "--format=%B", sha]);
+    return {
+      sha,
+      subject: message.split("\n")[0]!.trim(),
+      message,
+      files: lines(git(["diff-tree", "--no-commit-id", "--name-only", "-r", "--root", sha])),
+    };
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order and never exceeds the limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const delays = [30, 5, 20, 1, 10, 15];
+    const results = await mapWithConcurrency(delays, 2, async (ms, i) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return `${i}:${ms}`;
+    });
+    expect(results).toEqual(["0:30", "1:5", "2:20", "3:1", "4:10", "5:15"]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("handles empty input and limits below 1", async () => {
+    expect(await mapWithConcurrency([], 4, async (x) => x)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async (x) => x * 2)).toEqual([2, 4]);
+  });
+});
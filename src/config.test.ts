@@ -0,0 +1,490 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigError, formatEffectiveConfig, loadConfig, validateConfigFile, validatePackageConfigFile } from "./config";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "decern-gate-config-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadConfig", () => {
+  it("uses defaults when there is no config file and no env", () => {
+    const c = loadConfig({ env: {}, cwd: dir });
+    expect(c.configFile).toBeUndefined();
+    expect(c.validatePath).toBe("/api/decision-gate/validate");
+    expect(c.timeoutMs).toBe(5000);
+    expect(c.extraPatterns).toEqual([]);
+    expect(c.judge.enabled).toBe(false);
+    expect(c.judge.timeoutMs).toBe(60000);
+    expect(c.judge.minConfidence).toBeUndefined();
+  });
+
+  it("discovers .decern-gate.yml and reads values", () => {
+    writeFileSync(
+      join(dir, ".decern-gate.yml"),
+      [
+        "baseUrl: https://app.example.com",
+        "extraPatterns:",
+        "  - internal/",
+        "  - deploy.sh",
+        "judge:",
+        "  enabled: true",
+        "  minConfidence: 0.8",
+      ].join("\n")
+    );
+    const c = loadConfig({ env: {}, cwd: dir });
+    expect(c.configFile).toBe(".decern-gate.yml");
+    expect(c.baseUrl).toBe("https://app.example.com");
+    expect(c.extraPatterns).toEqual(["internal/", "deploy.sh"]);
+    expect(c.judge.enabled).toBe(true);
+    expect(c.judge.minConfidence).toBe(0.8);
+  });
+
+  it("discovers .decern-gate.json", () => {
+    writeFileSync(join(dir, ".decern-gate.json"), JSON.stringify({ timeoutMs: 8000 }));
+    expect(loadConfig({ env: {}, cwd: dir }).timeoutMs).toBe(8000);
+  });
+
+  it("env vars override the config file", () => {
+    writeFileSync(
+      join(dir, ".decern-gate.yml"),
+      "extraPatterns: [from-file/]\ntimeoutMs: 8000\njudge:\n  enabled: true\n"
+    );
+    const c = loadConfig({
+      env: {
+        DECERN_GATE_EXTRA_PATTERNS: "from-env/",
+        DECERN_GATE_TIMEOUT_MS: "3000",
+        DECERN_GATE_JUDGE_ENABLED: "false",
+      },
+      cwd: dir,
+    });
+    expect(c.extraPatterns).toEqual(["from-env/"]);
+    expect(c.timeoutMs).toBe(3000);
+    expect(c.judge.enabled).toBe(false);
+  });
+
+  it("loads the file named by DECERN_GATE_CONFIG", () => {
+    writeFileSync(join(dir, "gate.yaml"), "validatePath: /api/v1/validate\n");
+    const c = loadConfig({ env: { DECERN_GATE_CONFIG: "gate.yaml" }, cwd: dir });
+    expect(c.configFile).toBe("gate.yaml");
+    expect(c.validatePath).toBe("/api/v1/validate");
+  });
+
+  it("lists a config file loaded from another path inside the repo as a policy path", () => {
+    writeFileSync(join(dir, "gate.yaml"), "timeoutMs: 3000\n");
+    expect(loadConfig({ env: { DECERN_GATE_CONFIG: "gate.yaml" }, cwd: dir }).policyPaths).toEqual(["gate.yaml"]);
+    expect(loadConfig({ env: {}, cwd: dir }).policyPaths).toEqual([]);
+  });
+
+  it("throws ConfigError when DECERN_GATE_CONFIG points to a missing file", () => {
+    expect(() => loadConfig({ env: { DECERN_GATE_CONFIG: "nope.yml" }, cwd: dir })).toThrow(ConfigError);
+  });
+
+  it("throws ConfigError with issues for unknown keys and bad values", () => {
+    writeFileSync(join(dir, ".decern-gate.yml"), "timeout: 10\njudge:\n  minConfidence: 2\n");
+    try {
+      loadConfig({ env: {}, cwd: dir });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ConfigError);
+      const issues = (e as ConfigError).issues;
+      expect(issues).toContain('Unknown key "timeout".');
+      expect(issues).toContain('"judge.minConfidence" must be a number between 0 and 1.');
+    }
+  });
+
+  it("throws ConfigError on unparsable files", () => {
+    writeFileSync(join(dir, ".decern-gate.json"), "{ not json");
+    expect(() => loadConfig({ env: {}, cwd: dir })).toThrow(/Cannot parse/);
+  });
+});
+
+describe("loadConfig — CLI overrides", () => {
+  it("overrides take precedence over env and the config file", () => {
+    writeFileSync(join(dir, ".decern-gate.yml"), "timeoutMs: 8000\njudge:\n  minConfidence: 0.5\n");
+    const c = loadConfig({
+      env: { DECERN_GATE_TIMEOUT_MS: "3000", DECERN_GATE_JUDGE_ENABLED: "true", CI_BASE_SHA: "env-base" },
+      cwd: dir,
+      overrides: { timeoutMs: 2000, judgeEnabled: false, minConfidence: 0.9, baseSha: "flag-base", extraPatterns: ["x/"] },
+    });
+    expect(c.timeoutMs).toBe(2000);
+    expect(c.judge.enabled).toBe(false);
+    expect(c.judge.minConfidence).toBe(0.9);
+    expect(c.ci.baseSha).toBe("flag-base");
+    expect(c.extraPatterns).toEqual(["x/"]);
+  });
+
+  it("--config wins over DECERN_GATE_CONFIG", () => {
+    writeFileSync(join(dir, "a.yml"), "timeoutMs: 7000\n");
+    writeFileSync(join(dir, "b.yml"), "timeoutMs: 9000\n");
+    const c = loadConfig({ env: { DECERN_GATE_CONFIG: "a.yml" }, cwd: dir, overrides: { configFile: "b.yml" } });
+    expect(c.timeoutMs).toBe(9000);
+  });
+});
+
+describe("loadConfig — PR base", () => {
+  function commitAll(message: string): string {
+    execSync(`git add -A && git commit -q -m "${message}"`, { cwd: dir });
+    return execSync("git rev-parse HEAD", { cwd: dir, encoding: "utf-8" }).trim();
+  }
+
+  beforeEach(() => {
+    execSync("git init -q && git config user.email t@example.com && git config user.name t", { cwd: dir });
+  });
+
+  it("reads the config file at the PR base, not the version the PR changes", () => {
+    writeFileSync(join(dir, ".decern-gate.yml"), "timeoutMs: 8000\n");
+    const base = commitAll("config");
+    writeFileSync(join(dir, ".decern-gate.yml"), "provider: local\ntimeoutMs: 2000\n");
+    const head = commitAll("loosen config");
+    const config = loadConfig({ env: { CI_BASE_SHA: base, CI_HEAD_SHA: head, DECERN_GATE_CI_PROVIDER: "none" }, cwd: dir });
+    expect(config.provider).toBe("decern");
+    expect(config.timeoutMs).toBe(8000);
+    expect(config.configRev).toBe(base);
+    expect(formatEffectiveConfig(config)).toContain(`Config: .decern-gate.yml at ${base.slice(0, 7)}`);
+  });
+
+  it("ignores a config file the PR adds and requires an explicit one to exist at the base", () => {
+    writeFileSync(join(dir, "README.md"), "hello\n");
+    const base = commitAll("init");
+    writeFileSync(join(dir, ".decern-gate.yml"), "provider: local\n");
+    writeFileSync(join(dir, "gate.yml"), "provider: local\n");
+    const head = commitAll("add config");
+    const env = { CI_BASE_SHA: base, CI_HEAD_SHA: head, DECERN_GATE_CI_PROVIDER: "none" };
+    expect(loadConfig({ env, cwd: dir })).toMatchObject({ provider: "decern", configFile: undefined });
+    expect(() => loadConfig({ env, cwd: dir, overrides: { configFile: "gate.yml" } })).toThrow(
+      `Config file not found: gate.yml at ${base.slice(0, 7)} (--config).`
+    );
+  });
+
+  it("reads the working tree when there is no base revision", () => {
+    writeFileSync(join(dir, "README.md"), "hello\n");
+    commitAll("init");
+    writeFileSync(join(dir, ".decern-gate.yml"), "timeoutMs: 8000\n");
+    const config = loadConfig({ env: { DECERN_GATE_CI_PROVIDER: "none" }, cwd: dir });
+    expect(config.timeoutMs).toBe(8000);
+    expect(config.configRev).toBeUndefined();
+  });
+});
+
+describe("loadConfig — categories", () => {
+  it("defaults every category to block", () => {
+    const c = loadConfig({ env: {}, cwd: dir });
+    expect(Object.values(c.categories).every((l) => l === "block")).toBe(true);
+  });
+
+  it("reads levels from the file and lets env override per category", () => {
+    writeFileSync(join(dir, ".decern-gate.yml"), "categories:\n  DEPS: warn\n  OBSERVABILITY: off\n");
+    const c = loadConfig({ env: { DECERN_GATE_CATEGORY_LEVELS: "deps=block, CONFIG=warn" }, cwd: dir });
+    expect(c.categories.DEPS).toBe("block");
+    expect(c.categories.OBSERVABILITY).toBe("off");
+    expect(c.categories.CONFIG).toBe("warn");
+    expect(c.categories.DB).toBe("block");
+  });
+
+  it("rejects unknown categories and levels", () => {
+    expect(validateConfigFile({ categories: { LOGS: "warn", DEPS: "maybe" } })).toEqual([
+      'Unknown key "categories.LOGS".',
+      '"categories.DEPS" must be one of: block, warn, off.',
+    ]);
+    expect(() => loadConfig({ env: { DECERN_GATE_CATEGORY_LEVELS: "DEPS" }, cwd: dir })).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig — format", () => {
+  it("defaults to text, reads the file and lets env override", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).format).toBe("text");
+    writeFileSync(join(dir, ".decern-gate.yml"), "format: json\n");
+    expect(loadConfig({ env: {}, cwd: dir }).format).toBe("json");
+    expect(loadConfig({ env: { DECERN_GATE_FORMAT: "text" }, cwd: dir }).format).toBe("text");
+  });
+
+  it("rejects unknown formats", () => {
+    expect(validateConfigFile({ format: "xml" })).toEqual(['"format" must be one of: text, json.']);
+    expect(() => loadConfig({ env: { DECERN_GATE_FORMAT: "xml" }, cwd: dir })).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig — hooks", () => {
+  it("defaults to warn; file and env can set block", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).hooks.mode).toBe("warn");
+    writeFileSync(join(dir, ".decern-gate.yml"), "hooks:\n  mode: block\n");
+    expect(loadConfig({ env: {}, cwd: dir }).hooks.mode).toBe("block");
+    expect(loadConfig({ env: { DECERN_GATE_HOOK_MODE: "warn" }, cwd: dir }).hooks.mode).toBe("warn");
+    expect(() => loadConfig({ env: { DECERN_GATE_HOOK_MODE: "strict" }, cwd: dir })).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig — retry", () => {
+  it("has defaults, reads the file and lets env override attempts and budget", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).retry).toEqual({ attempts: 3, baseDelayMs: 500, maxDelayMs: 8000, budgetMs: 120000 });
+    writeFileSync(join(dir, ".decern-gate.yml"), "retry:\n  attempts: 5\n  baseDelayMs: 100\n");
+    expect(loadConfig({ env: {}, cwd: dir }).retry).toMatchObject({ attempts: 5, baseDelayMs: 100 });
+    const c = loadConfig({ env: { DECERN_GATE_RETRY_ATTEMPTS: "1", DECERN_GATE_RETRY_BUDGET_MS: "30000" }, cwd: dir });
+    expect(c.retry).toMatchObject({ attempts: 1, budgetMs: 30000 });
+  });
+
+  it("rejects out-of-range values in the file", () => {
+    expect(validateConfigFile({ retry: { attempts: 0 } })).toEqual(['"retry.attempts" must be an integer between 1 and 10.']);
+  });
+});
+
+describe("loadConfig — standalone judge", () => {
+  it("defaults to the Decern judge; file and env select standalone and the LLM provider", () => {
+    const c = loadConfig({ env: {}, cwd: dir });
+    expect(c.judge.mode).toBe("decern");
+    expect(c.judge.llm.provider).toBeUndefined();
+    expect(c.decisionPath).toBe("/api/decision-gate/decision");
+    writeFileSync(join(dir, ".decern-gate.yml"), "judge:\n  mode: standalone\n  llm:\n    provider: anthropic\n");
+    expect(loadConfig({ env: {}, cwd: dir }).judge).toMatchObject({ mode: "standalone", llm: { provider: "anthropic" } });
+    const e = loadConfig({ env: { DECERN_GATE_JUDGE_MODE: "decern", DECERN_JUDGE_LLM_PROVIDER: "openai" }, cwd: dir });
+    expect(e.judge).toMatchObject({ mode: "decern", llm: { provider: "openai" } });
+  });
+
+  it("rejects unknown modes and providers", () => {
+    expect(validateConfigFile({ judge: { mode: "local" } })).toEqual(['"judge.mode" must be one of: decern, standalone.']);
+    expect(() => loadConfig({ env: { DECERN_JUDGE_LLM_PROVIDER: "gemini" }, cwd: dir })).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig — judge chunking", () => {
+  it("is off by default; file and env configure it", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).judge.chunking).toEqual({ enabled: false, maxBytes: 2 * 1024 * 1024, maxChunks: 10 });
+    writeFileSync(join(dir, ".decern-gate.yml"), "judge:\n  chunking:\n    enabled: true\n    maxBytes: 500000\n");
+    expect(loadConfig({ env: {}, cwd: dir }).judge.chunking).toEqual({ enabled: true, maxBytes: 500000, maxChunks: 10 });
+    const c = loadConfig({ env: { DECERN_GATE_JUDGE_CHUNKING: "false", DECERN_GATE_JUDGE_MAX_CHUNKS: "99" }, cwd: dir });
+    expect(c.judge.chunking).toMatchObject({ enabled: false, maxChunks: 50 });
+    expect(validateConfigFile({ judge: { chunking: { maxBytes: 100 } } })).toEqual(['"judge.chunking.maxBytes" must be an integer >= 4096.']);
+  });
+});
+
+describe("loadConfig — judge.ignore", () => {
+  it("loads .decernjudgeignore rules before the configured patterns", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).judge.ignore).toEqual([]);
+    writeFileSync(join(dir, ".decernjudgeignore"), "# generated\ndist/\n");
+    writeFileSync(join(dir, ".decern-gate.yml"), 'judge:\n  ignore:\n    - "**/*.snap"\n');
+    expect(loadConfig({ env: {}, cwd: dir }).judge.ignore).toEqual([
+      { pattern: "dist/", source: ".decernjudgeignore:2" },
+      { pattern: "**/*.snap", source: "judge.ignore" },
+    ]);
+    expect(validateConfigFile({ judge: { ignore: "dist/" } })).toEqual(['"judge.ignore" must be a list of non-empty strings.']);
+  });
+});
+
+describe("validatePackageConfigFile", () => {
+  it("accepts extraPatterns and categories only", () => {
+    expect(validatePackageConfigFile({ extraPatterns: ["!package.json"], categories: { DEPS: "off" } })).toEqual([]);
+    expect(validatePackageConfigFile({ categories: { DEPS: "nope" }, judge: { enabled: true }, foo: 1 })).toEqual([
+      '"categories.DEPS" must be one of: block, warn, off.',
+      '"judge" can only be set in the root config file; package config files set extraPatterns and categories.',
+      'Unknown key "foo".',
+    ]);
+  });
+});
+
+describe("loadConfig — packages", () => {
+  it("lets packages loosen root block levels only when the root config allows it", () => {
+    execSync("git init -q", { cwd: dir });
+    mkdirSync(join(dir, "tools"));
+    writeFileSync(join(dir, "tools/.decern-gate.yml"), "categories:\n  DEPS: off\n");
+    execSync("git add -A", { cwd: dir });
+    expect(loadConfig({ env: {}, cwd: dir }).packages.map((p) => [p.configFile, p.mayLoosen])).toEqual([["tools/.decern-gate.yml", false]]);
+    writeFileSync(join(dir, ".decern-gate.yml"), "packages:\n  allowLoosening: true\n");
+    const config = loadConfig({ env: {}, cwd: dir });
+    expect(config.packages[0]!.mayLoosen).toBe(true);
+    expect(formatEffectiveConfig(config)).toContain("  packages: tools/.decern-gate.yml (may loosen root block levels)");
+    expect(validatePackageConfigFile({ packages: { allowLoosening: true } })).toEqual([
+      '"packages" can only be set in the root config file; package config files set extraPatterns and categories.',
+    ]);
+  });
+});
+
+describe("loadConfig — waivers", () => {
+  it("loads .decern-waivers.yml from the repo root and rejects invalid entries", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).waivers).toEqual([]);
+    writeFileSync(
+      join(dir, ".decern-waivers.yml"),
+      "waivers:\n  - paths: [openapi.json]\n    owner: api\n    reason: Generated\n    expires: 2000-01-01\n"
+    );
+    const config = loadConfig({ env: {}, cwd: dir });
+    expect(config.waivers.map((w) => [w.id, w.expires])).toEqual([[".decern-waivers.yml#1", "2000-01-01"]]);
+    expect(formatEffectiveConfig(config)).toContain("  waivers: 1 from .decern-waivers.yml (1 expired)");
+    writeFileSync(join(dir, ".decern-waivers.yml"), "waivers:\n  - paths: [openapi.json]\n    owner: api\n");
+    expect(() => loadConfig({ env: {}, cwd: dir })).toThrow(ConfigError);
+  });
+
+  it("rejects waivers that expire beyond waivers.maxDays (default 90, env overrides the file)", () => {
+    const inDays = (n: number) => new Date(Date.now() + n * 86_400_000).toISOString().slice(0, 10);
+    const write = (expires: string) =>
+      writeFileSync(join(dir, ".decern-waivers.yml"), `waivers:\n  - paths: ["**"]\n    owner: x\n    reason: y\n    expires: ${expires}\n`);
+    write(inDays(60));
+    expect(loadConfig({ env: {}, cwd: dir }).waiverMaxDays).toBe(90);
+    write(inDays(200));
+    expect(() => loadConfig({ env: {}, cwd: dir })).toThrow(/Invalid \.decern-waivers\.yml/);
+    writeFileSync(join(dir, ".decern-gate.yml"), "waivers:\n  maxDays: 365\n");
+    expect(loadConfig({ env: {}, cwd: dir }).waivers).toHaveLength(1);
+    expect(() => loadConfig({ env: { DECERN_GATE_WAIVERS_MAX_DAYS: "30" }, cwd: dir })).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig — override", () => {
+  it("is off by default; the token and allowed authors are env-only", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).override).toEqual({ allowedAuthors: [], auditPath: "/api/decision-gate/override", requireAudit: true });
+    writeFileSync(join(dir, ".decern-gate.yml"), "override:\n  auditPath: /audit\n");
+    expect(loadConfig({ env: {}, cwd: dir }).override).toEqual({ allowedAuthors: [], auditPath: "/audit", requireAudit: true });
+    const config = loadConfig({
+      env: { DECERN_GATE_OVERRIDE_TOKEN: "s3cret", DECERN_GATE_OVERRIDE_AUTHORS: "bob, carol", DECERN_GATE_OVERRIDE_REQUIRE_AUDIT: "false" },
+      cwd: dir,
+    });
+    expect(config.override).toEqual({ token: "s3cret", allowedAuthors: ["bob", "carol"], auditPath: "/audit", requireAudit: false });
+    expect(formatEffectiveConfig(config)).toContain("  override: token ***, allowed authors bob, carol; audit /audit");
+    expect(formatEffectiveConfig(config).join("\n")).not.toContain("s3cret");
+    expect(validateConfigFile({ override: { token: "x" } })).toEqual([
+      '"override.token" is a secret and cannot be set in the config file; use DECERN_GATE_OVERRIDE_TOKEN instead.',
+    ]);
+  });
+
+  it("rejects allowed authors from the config file, which the PR under check could edit", () => {
+    writeFileSync(join(dir, ".decern-gate.yml"), "override:\n  allowedAuthors: [mallory]\n");
+    expect(() => loadConfig({ env: {}, cwd: dir })).toThrow(ConfigError);
+    expect(validateConfigFile({ override: { allowedAuthors: ["mallory"] } })).toEqual([
+      '"override.allowedAuthors" cannot be set in the config file (the PR under check can edit it); use DECERN_GATE_OVERRIDE_AUTHORS instead.',
+    ]);
+    expect(validateConfigFile({ override: { requireAudit: false } })).toEqual([
+      '"override.requireAudit" cannot be set in the config file (the PR under check can edit it); use DECERN_GATE_OVERRIDE_REQUIRE_AUDIT instead.',
+    ]);
+  });
+});
+
+describe("loadConfig — refs.sources", () => {
+  it("defaults to the PR/commit text; file and env set the sources in priority order", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).refs.sources).toEqual(["text"]);
+    writeFileSync(join(dir, ".decern-gate.yml"), "refs:\n  sources: [branch, text]\n");
+    expect(loadConfig({ env: {}, cwd: dir }).refs.sources).toEqual(["branch", "text"]);
+    expect(loadConfig({ env: { DECERN_GATE_REF_SOURCES: "labels, Text" }, cwd: dir }).refs.sources).toEqual(["labels", "text"]);
+    expect(() => loadConfig({ env: { DECERN_GATE_REF_SOURCES: "text,jira" }, cwd: dir })).toThrow(/DECERN_GATE_REF_SOURCES/);
+    expect(validateConfigFile({ refs: { sources: ["text", "slack"] } })).toEqual([
+      '"refs.sources" must be a non-empty list of: text, branch, labels, issues.',
+    ]);
+  });
+});
+
+describe("loadConfig — validate.perCommit", () => {
+  it("is off by default; file, env and --per-commit turn it on", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).validate.perCommit).toBe(false);
+    writeFileSync(join(dir, ".decern-gate.yml"), "validate:\n  perCommit: true\n");
+    expect(loadConfig({ env: {}, cwd: dir }).validate.perCommit).toBe(true);
+    expect(loadConfig({ env: { DECERN_GATE_PER_COMMIT: "false" }, cwd: dir }).validate.perCommit).toBe(false);
+    expect(loadConfig({ env: { DECERN_GATE_PER_COMMIT: "false" }, cwd: dir, overrides: { perCommit: true } }).validate.perCommit).toBe(true);
+  });
+});
+
+describe("loadConfig — judge.lockfileSummary", () => {
+  it("is on by default; file and env can turn it off", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).judge.lockfileSummary).toBe(true);
+    writeFileSync(join(dir, ".decern-gate.yml"), "judge:\n  lockfileSummary: false\n");
+    expect(loadConfig({ env: {}, cwd: dir }).judge.lockfileSummary).toBe(false);
+    expect(loadConfig({ env: { DECERN_GATE_JUDGE_LOCKFILE_SUMMARY: "true" }, cwd: dir }).judge.lockfileSummary).toBe(true);
+  });
+});
+
+describe("loadConfig — redaction", () => {
+  it("is on by default; the file adds patterns and env can turn it off", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).redaction).toEqual({ enabled: true, patterns: [] });
+    writeFileSync(join(dir, ".decern-gate.yml"), 'redaction:\n  patterns:\n    - "INTERNAL-[0-9]{6}"\n');
+    expect(loadConfig({ env: {}, cwd: dir }).redaction).toEqual({ enabled: true, patterns: ["INTERNAL-[0-9]{6}"] });
+    expect(loadConfig({ env: { DECERN_GATE_REDACTION: "false" }, cwd: dir }).redaction.enabled).toBe(false);
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(validateConfigFile({ redaction: { patterns: ["ok", "(unclosed"] } })).toEqual([
+      '"redaction.patterns": "(unclosed" is not a valid regular expression.',
+    ]);
+  });
+});
+
+describe("loadConfig — cache", () => {
+  it("is disabled by default; the dir resolves against the repo root and env overrides the file", () => {
+    expect(loadConfig({ env: {}, cwd: dir }).cache).toEqual({ dir: undefined, bypass: false });
+    writeFileSync(join(dir, ".decern-gate.yml"), "cache:\n  dir: ../judge-cache\n");
+    expect(loadConfig({ env: {}, cwd: dir }).cache.dir).toBe(join(dir, "../judge-cache"));
+    expect(loadConfig({ env: { DECERN_GATE_CACHE_DIR: "/tmp/judge" }, cwd: dir }).cache.dir).toBe("/tmp/judge");
+  });
+
+  it("rejects a dir inside the repository, where a PR could commit forged verdicts", () => {
+    writeFileSync(join(dir, ".decern-gate.yml"), "cache:\n  dir: .cache/decern\n");
+    expect(() => loadConfig({ env: {}, cwd: dir })).toThrow("Invalid cache.dir");
+    expect(() => loadConfig({ env: { DECERN_GATE_CACHE_DIR: join(dir, "cache") }, cwd: dir })).toThrow("Invalid DECERN_GATE_CACHE_DIR");
+    expect(() => loadConfig({ env: { DECERN_GATE_CACHE_DIR: "." }, cwd: dir })).toThrow(ConfigError);
+  });
+
+  it("--no-cache bypasses reads", () => {
+    const c = loadConfig({ env: { DECERN_GATE_CACHE_DIR: "/tmp/judge" }, cwd: dir, overrides: { noCache: true } });
+    expect(c.cache).toEqual({ dir: "/tmp/judge", bypass: true });
+    expect(formatEffectiveConfig(c).join("\n")).toContain("(bypassed: --no-cache)");
+  });
+});
+
+describe("validateConfigFile", () => {
+  it("accepts an empty file", () => {
+    expect(validateConfigFile(null)).toEqual([]);
+  });
+
+  it("rejects a non-object top level", () => {
+    expect(validateConfigFile(["a"])).toHaveLength(1);
+  });
+
+  it("rejects secrets with a hint to use env", () => {
+    expect(validateConfigFile({ judge: { llm: { apiKey: "sk-1" } } })).toEqual([
+      '"judge.llm.apiKey" is a secret and cannot be set in the config file; use DECERN_JUDGE_LLM_API_KEY instead.',
+    ]);
+  });
+
+  it("rejects timeouts below the minimum", () => {
+    expect(validateConfigFile({ timeoutMs: 10 })).toEqual(['"timeoutMs" must be an integer >= 1000.']);
+  });
+});
+
+describe("formatEffectiveConfig", () => {
+  it("masks secrets", () => {
+    const c = loadConfig({
+      env: { DECERN_CI_TOKEN: "secret-token", DECERN_JUDGE_LLM_API_KEY: "sk-secret" },
+      cwd: dir,
+    });
+    const out = formatEffectiveConfig(c).join("\n");
+    expect(out).not.toContain("secret-token");
+    expect(out).not.toContain("sk-secret");
+    expect(out).toContain("ciToken: ***");
+    expect(out).toContain("judge.llm.apiKey: ***");
+  });
+});
+
+describe("run — config at the PR base", () => {
+  const g = useGateRepo();
+
+  it("does not let a PR switch the provider to approve itself with a local ADR", async () => {
+    g.base = g.commit(
+      { ".decern-gate.yml": "provider: decern\n", "docs/adr/0001-logging.md": "---\nstatus: accepted\n---\n# Logging\n" },
+      "config"
+    );
+    const head = g.commit({ ".decern-gate.yml": "provider: local\n", "terraform/main.tf": "resource {}\n" }, "infra change (ADR-001)");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ valid: false, reason: "Decision not found" }), { status: 404 })));
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(fetch).toHaveBeenCalled();
+    expect(report.validations).toMatchObject([{ ref: "ADR-001", valid: false, httpStatus: 404 }]);
+  });
+});
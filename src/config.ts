@@ -0,0 +1,1021 @@
+/**
+ * Gate configuration: optional repository file (.decern-gate.yml / .yaml / .json) merged with env vars.
+ * Precedence: built-in defaults < config file < env < CLI flags. Secrets (CI token, LLM API key) are env-only.
+ * The file is discovered at the repo root (or set explicitly via DECERN_GATE_CONFIG) and validated
+ * against a schema: unknown keys and bad values fail the gate with a clear error. A file inside the repo is
+ * read at the PR base, so a PR cannot rewrite the policy that judges it.
+ */
+
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join, relative, resolve, sep } from "path";
+import { parse as parseYaml } from "yaml";
+import type { RetryOptions } from "./http.js";
+import { CI_PROVIDERS, ciProviderName, detectCi, type CiField, type CiProvider } from "./ci-provider.js";
+import { OUTPUT_FORMATS, type OutputFormat } from "./report.js";
+import { PATTERN_CATEGORIES, type PatternCategory } from "./required-patterns.js";
+import { loadJudgeIgnoreRules, type JudgeIgnoreRule } from "./judge-ignore.js";
+import { REF_SOURCES, type RefSource } from "./ref-sources.js";
+import { isExpired, readWaiversFile, WAIVERS_FILE, type Waiver } from "./waivers.js";
+import { findPackageConfigFiles, type PackagePolicy } from "./packages.js";
+import { readFileAtRev, resolvePolicyRev, revLabel } from "./policy-rev.js";
+
+export const CONFIG_FILE_NAMES = [".decern-gate.yml", ".decern-gate.yaml", ".decern-gate.json"] as const;
+
+const DEFAULT_VALIDATE_PATH = "/api/decision-gate/validate";
+const DEFAULT_JUDGE_PATH = "/api/decision-gate/judge";
+const DEFAULT_DECISION_PATH = "/api/decision-gate/decision";
+const DEFAULT_OVERRIDE_PATH = "/api/decision-gate/override";
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_JUDGE_TIMEOUT_MS = 60000;
+const MIN_TIMEOUT_MS = 1000;
+const MIN_JUDGE_TIMEOUT_MS = 5000;
+const DEFAULT_CHUNKING = { enabled: false, maxBytes: 2 * 1024 * 1024, maxChunks: 10 };
+const MIN_CHUNK_BYTES = 4096;
+const MAX_CHUNKS = 50;
+const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 500, maxDelayMs: 8000, budgetMs: 120000 };
+const MAX_RETRY_ATTEMPTS = 10;
+const MIN_RETRY_BUDGET_MS = 1000;
+
+/** Per-category enforcement: block (decision required), warn (reported, never blocks), off (ignored). */
+export const ENFORCEMENT_LEVELS = ["block", "warn", "off"] as const;
+
+export type EnforcementLevel = (typeof ENFORCEMENT_LEVELS)[number];
+
+export type CategoryLevels = Record<PatternCategory, EnforcementLevel>;
+
+/** Where decision refs are validated: the Decern API, or Markdown ADRs in the repository (offline). */
+export const DECISION_PROVIDERS = ["decern", "local"] as const;
+
+export type DecisionProvider = (typeof DECISION_PROVIDERS)[number];
+
+const DEFAULT_ADR_DIR = "docs/adr";
+
+/** Multi-decision judge: every judged decision must pass (all) or at least one (any). */
+export const JUDGE_COMBINE_MODES = ["all", "any"] as const;
+
+export type JudgeCombine = (typeof JUDGE_COMBINE_MODES)[number];
+
+/** Who runs the judge: the Decern judge endpoint, or the CLI itself against the configured LLM (standalone). */
+export const JUDGE_MODES = ["decern", "standalone"] as const;
+
+export type JudgeMode = (typeof JUDGE_MODES)[number];
+
+/** LLM API flavour for the standalone judge: OpenAI-compatible chat completions or Anthropic messages. */
+export const LLM_PROVIDERS = ["openai", "anthropic"] as const;
+
+export type LlmProvider = (typeof LLM_PROVIDERS)[number];
+
+/** Which referenced decisions must be valid: at least one (any) or every one (all). */
+export const VALIDATE_REQUIRE_MODES = ["any", "all"] as const;
+
+export type ValidateRequire = (typeof VALIDATE_REQUIRE_MODES)[number];
+
+const DEFAULT_VALIDATE_CONCURRENCY = 4;
+const MAX_VALIDATE_CONCURRENCY = 32;
+
+/** Longest waiver horizon by default: a waiver may expire at most this many days ahead. */
+const DEFAULT_WAIVER_MAX_DAYS = 90;
+
+/** Local git hooks: warn (report, never block) or block (fail the commit/push). */
+export const HOOK_MODES = ["warn", "block"] as const;
+
+export type HookMode = (typeof HOOK_MODES)[number];
+
+export type GateConfig = {
+  /** Base URL of the Decern app (no trailing slash needed). */
+  baseUrl?: string;
+  /** Workspace CI token. Env-only; never logged. */
+  ciToken?: string;
+  validatePath: string;
+  /** Endpoint returning a decision's text; used by the standalone judge with the decern provider. */
+  decisionPath: string;
+  /**
+   * Decision provider (default: decern). "local" needs no DECERN_BASE_URL / DECERN_CI_TOKEN for validation.
+   * From env or the config file at the PR base only, so a PR cannot switch off Decern validation.
+   */
+  provider: DecisionProvider;
+  /** Directory of Markdown ADRs for the local provider; absolute (configured relative to the repo root). Same sources as provider. */
+  adrDir: string;
+  /** Timeout for the validate API call in ms (per attempt). */
+  timeoutMs: number;
+  /**
+   * Validation of several refs: concurrent calls, and whether any or all refs must be valid.
+   * perCommit: every commit in base..head that touches high-impact files needs its own valid ref.
+   */
+  validate: { concurrency: number; require: ValidateRequire; perCommit: boolean };
+  /** Retries for validate and judge calls (timeouts, network errors, 429/502/503/504). */
+  retry: RetryOptions;
+  /** Extra path/basename patterns that require a decision (in addition to the built-in lists). */
+  extraPatterns: string[];
+  /** Enforcement level per pattern category (default: block). */
+  categories: CategoryLevels;
+  /** Monorepo packages: nested config files, each applying to the files below its directory. */
+  packages: PackagePolicy[];
+  /**
+   * Repo-relative gate policy paths besides the built-in config file names (e.g. a config file loaded via
+   * DECERN_GATE_CONFIG): changing them always requires a decision.
+   */
+  policyPaths: string[];
+  /** Time-boxed waivers from .decern-waivers.yml at the repo root, read at the PR base (expired ones included; they block). */
+  waivers: Waiver[];
+  /** A waiver expiring more than this many days from today is invalid, so waivers stay time-boxed. */
+  waiverMaxDays: number;
+  /** Gate output: human-readable text (default) or one JSON document. */
+  format: OutputFormat;
+  /**
+   * Judge result cache. Enabled when dir is set (absolute; configured relative to the repo root). The dir must
+   * be outside the repo: entries are trusted, so a PR must not be able to commit them.
+   */
+  cache: { dir?: string; bypass: boolean };
+  /** Local git hooks (`decern-gate hook ...`). */
+  hooks: { mode: HookMode };
+  /** Where decision refs are read from, in priority order (default: PR/commit text only). */
+  refs: { sources: RefSource[] };
+  /**
+   * Break-glass override (`decern-override: <justification>`): honored when token is set (env-only; never
+   * logged) or the CI author is in allowedAuthors (env-only, so a PR cannot authorize itself). Accepted
+   * overrides are POSTed to auditPath; with requireAudit (env-only, default true) an override whose audit
+   * is not recorded is not honored.
+   */
+  override: { token?: string; allowedAuthors: string[]; auditPath: string; requireAudit: boolean };
+  /** Secret redaction in the judge diff: built-in rules plus patterns (regex sources; group 1 is redacted if present). */
+  redaction: { enabled: boolean; patterns: string[] };
+  judge: {
+    enabled: boolean;
+    /** decern (default): POST to judge.path; standalone: the CLI calls judge.llm directly. */
+    mode: JudgeMode;
+    path: string;
+    timeoutMs: number;
+    /** Min confidence (0–1); gate blocks when judge allows below this. */
+    minConfidence?: number;
+    /** How verdicts for several referenced decisions are combined (default: all). */
+    combine: JudgeCombine;
+    /** Files left out of the judge payload: .decernjudgeignore rules, then judge.ignore (gitignore syntax). */
+    ignore: JudgeIgnoreRule[];
+    /** Replace lockfile patches (package-lock.json, yarn.lock, ...) with a package-level summary (default true). */
+    lockfileSummary: boolean;
+    /** Map-reduce judging: split the diff at file/hunk boundaries into batches of at most maxBytes, up to maxChunks. */
+    chunking: { enabled: boolean; maxBytes: number; maxChunks: number };
+    /** BYO LLM. apiKey is env-only; never logged. provider: undefined = detected from baseUrl. */
+    llm: { baseUrl?: string; apiKey?: string; model?: string; provider?: LlmProvider };
+  };
+  /** Refs and PR/commit text provided by CI: CI_* env vars, else detected from the CI provider. Env-only. */
+  ci: {
+    baseSha?: string;
+    headSha?: string;
+    prTitle?: string;
+    prBody?: string;
+    commitMessage?: string;
+    /** Source branch name (CI_BRANCH or detected); the branch ref source falls back to git. */
+    branch?: string;
+    /** PR/MR labels: a JSON array or a comma/newline-separated list. */
+    labels?: string;
+    /** Linked issue keys (CI_LINKED_ISSUES): a JSON array or a comma/newline-separated list. */
+    issues?: string;
+    /** PR author or pipeline user (login or email), checked against DECERN_GATE_OVERRIDE_AUTHORS. */
+    author?: string;
+    /** Detected (or forced via DECERN_GATE_CI_PROVIDER) CI provider. */
+    provider?: CiProvider;
+    /** Where each value came from: a CI_* var, a provider variable, or a CLI flag. */
+    sources: Partial<Record<CiField, string>>;
+  };
+  /** Path of the config file that was loaded (relative to cwd when possible), if any. */
+  configFile?: string;
+  /** PR base commit the config file was read at; undefined when it was read from disk (no base, or outside the repo). */
+  configRev?: string;
+};
+
+/** Thrown when the config file cannot be read, parsed, or fails schema validation. */
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+/** Lines describing a ConfigError for CLI output. */
+export function formatConfigError(e: ConfigError): string[] {
+  return [`Config: ${e.message}`, ...e.issues.map((issue) => `  - ${issue}`)];
+}
+
+// --- Schema (config file only) ---
+
+type FieldSpec =
+  | { type: "string" }
+  | { type: "boolean" }
+  | { type: "number"; min?: number; max?: number; integer?: boolean }
+  | { type: "stringArray" }
+  | { type: "regexArray" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "enumArray"; values: readonly string[] }
+  | { type: "object"; fields: Schema };
+
+type Schema = { [key: string]: FieldSpec };
+
+const FILE_SCHEMA: Schema = {
+  baseUrl: { type: "string" },
+  validatePath: { type: "string" },
+  decisionPath: { type: "string" },
+  provider: { type: "enum", values: DECISION_PROVIDERS },
+  adrDir: { type: "string" },
+  timeoutMs: { type: "number", min: MIN_TIMEOUT_MS, integer: true },
+  validate: {
+    type: "object",
+    fields: {
+      concurrency: { type: "number", min: 1, max: MAX_VALIDATE_CONCURRENCY, integer: true },
+      require: { type: "enum", values: VALIDATE_REQUIRE_MODES },
+      perCommit: { type: "boolean" },
+    },
+  },
+  retry: {
+    type: "object",
+    fields: {
+      attempts: { type: "number", min: 1, max: MAX_RETRY_ATTEMPTS, integer: true },
+      baseDelayMs: { type: "number", min: 0, integer: true },
+      maxDelayMs: { type: "number", min: 0, integer: true },
+      budgetMs: { type: "number", min: MIN_RETRY_BUDGET_MS, integer: true },
+    },
+  },
+  extraPatterns: { type: "stringArray" },
+  categories: {
+    type: "object",
+    fields: Object.fromEntries(PATTERN_CATEGORIES.map((c) => [c, { type: "enum", values: ENFORCEMENT_LEVELS }])),
+  },
+  packages: {
+    type: "object",
+    fields: {
+      allowLoosening: { type: "boolean" },
+    },
+  },
+  waivers: {
+    type: "object",
+    fields: {
+      maxDays: { type: "number", min: 1, integer: true },
+    },
+  },
+  format: { type: "enum", values: OUTPUT_FORMATS },
+  cache: {
+    type: "object",
+    fields: {
+      dir: { type: "string" },
+    },
+  },
+  hooks: {
+    type: "object",
+    fields: {
+      mode: { type: "enum", values: HOOK_MODES },
+    },
+  },
+  refs: {
+    type: "object",
+    fields: {
+      sources: { type: "enumArray", values: REF_SOURCES },
+    },
+  },
+  override: {
+    type: "object",
+    fields: {
+      auditPath: { type: "string" },
+    },
+  },
+  redaction: {
+    type: "object",
+    fields: {
+      enabled: { type: "boolean" },
+      patterns: { type: "regexArray" },
+    },
+  },
+  judge: {
+    type: "object",
+    fields: {
+      enabled: { type: "boolean" },
+      mode: { type: "enum", values: JUDGE_MODES },
+      path: { type: "string" },
+      timeoutMs: { type: "number", min: MIN_JUDGE_TIMEOUT_MS, integer: true },
+      minConfidence: { type: "number", min: 0, max: 1 },
+      combine: { type: "enum", values: JUDGE_COMBINE_MODES },
+      ignore: { type: "stringArray" },
+      lockfileSummary: { type: "boolean" },
+      chunking: {
+        type: "object",
+        fields: {
+          enabled: { type: "boolean" },
+          maxBytes: { type: "number", min: MIN_CHUNK_BYTES, integer: true },
+          maxChunks: { type: "number", min: 1, max: MAX_CHUNKS, integer: true },
+        },
+      },
+      llm: {
+        type: "object",
+        fields: {
+          baseUrl: { type: "string" },
+          model: { type: "string" },
+          provider: { type: "enum", values: LLM_PROVIDERS },
+        },
+      },
+    },
+  },
+};
+
+/** Nested (package) config files may only set the file policy; everything else comes from the root config. */
+const PACKAGE_SCHEMA: Schema = {
+  extraPatterns: FILE_SCHEMA.extraPatterns!,
+  categories: FILE_SCHEMA.categories!,
+};
+
+/** Keys that look like secrets: rejected in the file with a hint to use env instead. */
+const SECRET_KEYS: Record<string, string> = {
+  ciToken: "DECERN_CI_TOKEN",
+  token: "DECERN_CI_TOKEN",
+  "judge.llm.apiKey": "DECERN_JUDGE_LLM_API_KEY",
+  "override.token": "DECERN_GATE_OVERRIDE_TOKEN",
+};
+
+/** Keys that grant a bypass: the PR under check could set them in its own config file, so env only. */
+const ENV_ONLY_KEYS: Record<string, string> = {
+  "override.allowedAuthors": "DECERN_GATE_OVERRIDE_AUTHORS",
+  "override.requireAudit": "DECERN_GATE_OVERRIDE_REQUIRE_AUDIT",
+};
+
+type FileConfig = {
+  baseUrl?: string;
+  validatePath?: string;
+  decisionPath?: string;
+  provider?: DecisionProvider;
+  adrDir?: string;
+  timeoutMs?: number;
+  validate?: { concurrency?: number; require?: ValidateRequire; perCommit?: boolean };
+  retry?: Partial<RetryOptions>;
+  extraPatterns?: string[];
+  categories?: Partial<CategoryLevels>;
+  packages?: { allowLoosening?: boolean };
+  waivers?: { maxDays?: number };
+  format?: OutputFormat;
+  cache?: { dir?: string };
+  hooks?: { mode?: HookMode };
+  refs?: { sources?: RefSource[] };
+  override?: { auditPath?: string };
+  redaction?: { enabled?: boolean; patterns?: string[] };
+  judge?: {
+    enabled?: boolean;
+    mode?: JudgeMode;
+    path?: string;
+    timeoutMs?: number;
+    minConfidence?: number;
+    combine?: JudgeCombine;
+    ignore?: string[];
+    lockfileSummary?: boolean;
+    chunking?: { enabled?: boolean; maxBytes?: number; maxChunks?: number };
+    llm?: { baseUrl?: string; model?: string; provider?: LlmProvider };
+  };
+};
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function checkField(spec: FieldSpec, value: unknown, key: string, issues: string[]): void {
+  switch (spec.type) {
+    case "string":
+      if (typeof value !== "string" || !value.trim()) issues.push(`"${key}" must be a non-empty string.`);
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") issues.push(`"${key}" must be true or false.`);
+      return;
+    case "number": {
+      const ok =
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        (!spec.integer || Number.isInteger(value)) &&
+        (spec.min == null || value >= spec.min) &&
+        (spec.max == null || value <= spec.max);
+      if (!ok) {
+        const range =
+          spec.min != null && spec.max != null
+            ? ` between ${spec.min} and ${spec.max}`
+            : spec.min != null
+              ? ` >= ${spec.min}`
+              : "";
+        issues.push(`"${key}" must be ${spec.integer ? "an integer" : "a number"}${range}.`);
+      }
+      return;
+    }
+    case "stringArray":
+      if (!Array.isArray(value) || value.some((v) => typeof v !== "string" || !v.trim())) {
+        issues.push(`"${key}" must be a list of non-empty strings.`);
+      }
+      return;
+    case "regexArray":
+      if (!Array.isArray(value) || value.some((v) => typeof v !== "string" || !v.trim())) {
+        issues.push(`"${key}" must be a list of non-empty strings.`);
+        return;
+      }
+      for (const source of value as string[]) {
+        try {
+          new RegExp(source, "g");
+        } catch {
+          issues.push(`"${key}": ${JSON.stringify(source)} is not a valid regular expression.`);
+        }
+      }
+      return;
+    case "enum":
+      if (typeof value !== "string" || !spec.values.includes(value)) {
+        issues.push(`"${key}" must be one of: ${spec.values.join(", ")}.`);
+      }
+      return;
+    case "enumArray":
+      if (!Array.isArray(value) || value.length === 0 || value.some((v) => typeof v !== "string" || !spec.values.includes(v))) {
+        issues.push(`"${key}" must be a non-empty list of: ${spec.values.join(", ")}.`);
+      }
+      return;
+    case "object":
+      if (!isPlainObject(value)) {
+        issues.push(`"${key}" must be an object.`);
+        return;
+      }
+      checkObject(spec.fields, value, `${key}.`, issues);
+      return;
+  }
+}
+
+function checkObject(schema: Schema, obj: Record<string, unknown>, prefix: string, issues: string[]): void {
+  for (const [k, value] of Object.entries(obj)) {
+    const key = `${prefix}${k}`;
+    const spec = schema[k];
+    if (!spec) {
+      const envVar = SECRET_KEYS[key];
+      const envOnly = ENV_ONLY_KEYS[key];
+      issues.push(
+        envVar
+          ? `"${key}" is a secret and cannot be set in the config file; use ${envVar} instead.`
+          : envOnly
+            ? `"${key}" cannot be set in the config file (the PR under check can edit it); use ${envOnly} instead.`
+            : `Unknown key "${key}".`
+      );
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+    checkField(spec, value, key, issues);
+  }
+}
+
+/** Validates a parsed package config file; keys other than extraPatterns and categories are rejected. */
+export function validatePackageConfigFile(raw: unknown): string[] {
+  if (raw === null || raw === undefined) return [];
+  if (!isPlainObject(raw)) return ["Config file must contain an object at the top level."];
+  const issues: string[] = [];
+  const { extraPatterns, categories, ...rest } = raw;
+  checkObject(PACKAGE_SCHEMA, { extraPatterns, categories }, "", issues);
+  for (const key of Object.keys(rest)) {
+    issues.push(
+      FILE_SCHEMA[key]
+        ? `"${key}" can only be set in the root config file; package config files set extraPatterns and categories.`
+        : `Unknown key "${key}".`
+    );
+  }
+  return issues;
+}
+
+/** Validates a parsed config file against the schema; returns the list of issues (empty when valid). */
+export function validateConfigFile(raw: unknown): string[] {
+  if (raw === null || raw === undefined) return [];
+  if (!isPlainObject(raw)) return ["Config file must contain an object at the top level."];
+  const issues: string[] = [];
+  checkObject(FILE_SCHEMA, raw, "", issues);
+  return issues;
+}
+
+// --- Discovery and parsing ---
+
+function findRepoRoot(cwd: string): string {
+  try {
+    return execFileSync("git", ["rev-parse", "--show-toplevel"], { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim() || cwd;
+  } catch {
+    return cwd;
+  }
+}
+
+/** True for the repo root itself and any path below it. */
+function isInsideRepo(repoRoot: string, path: string): boolean {
+  const p = relative(repoRoot, path);
+  return !isAbsolute(p) && p !== ".." && !p.startsWith(`..${sep}`);
+}
+
+/** Repo-relative form of an absolute path; undefined when it is outside the repo. */
+function repoPath(repoRoot: string, path: string): string | undefined {
+  const p = relative(repoRoot, path).replace(/\\/g, "/");
+  return p && !p.startsWith("../") && !isAbsolute(p) ? p : undefined;
+}
+
+/**
+ * Text of a policy file: at rev (the PR base) when set and the file is inside the repo, else from disk.
+ * Undefined when the file does not exist there.
+ */
+function readPolicyText(repoRoot: string, path: string, rev: string | undefined): string | undefined {
+  const inRepo = repoPath(repoRoot, path);
+  if (rev && inRepo) return readFileAtRev(repoRoot, rev, inRepo);
+  return existsSync(path) ? readFileSync(path, "utf-8") : undefined;
+}
+
+/**
+ * Returns the config file path to load: explicitPath (--config) or DECERN_GATE_CONFIG if set,
+ * else the first known name at the repo root. With rev, files inside the repo must exist at that revision.
+ */
+export function findConfigFile(cwd: string, env: NodeJS.ProcessEnv, explicitPath?: string, rev?: string): string | undefined {
+  const root = findRepoRoot(cwd);
+  const explicit = explicitPath?.trim() || env.DECERN_GATE_CONFIG?.trim();
+  if (explicit) {
+    const p = isAbsolute(explicit) ? explicit : resolve(cwd, explicit);
+    if (readPolicyText(root, p, rev) === undefined) {
+      const at = repoPath(root, p) ? revLabel(rev) : "";
+      throw new ConfigError(`Config file not found: ${explicit}${at} (${explicitPath ? "--config" : "DECERN_GATE_CONFIG"}).`);
+    }
+    return p;
+  }
+  for (const name of CONFIG_FILE_NAMES) {
+    const p = join(root, name);
+    if (readPolicyText(root, p, rev) !== undefined) return p;
+  }
+  return undefined;
+}
+
+function readConfigFile(
+  path: string,
+  displayPath: string,
+  text: string,
+  validate: (raw: unknown) => string[] = validateConfigFile
+): FileConfig {
+  let raw: unknown;
+  try {
+    raw = path.endsWith(".json") ? (text.trim() ? JSON.parse(text) : {}) : parseYaml(text);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new ConfigError(`Cannot parse ${displayPath}: ${msg}`);
+  }
+  const issues = validate(raw);
+  if (issues.length > 0) {
+    throw new ConfigError(`Invalid config in ${displayPath}`, issues);
+  }
+  return (raw ?? {}) as FileConfig;
+}
+
+/** Package policies from nested config files at rev (excluding the root config file that was loaded). */
+function loadPackages(repoRoot: string, cwd: string, rootFile: string | undefined, mayLoosen: boolean, rev: string | undefined): PackagePolicy[] {
+  return findPackageConfigFiles(repoRoot, CONFIG_FILE_NAMES, rev)
+    .filter((path) => resolve(repoRoot, path) !== rootFile)
+    .map((path) => {
+      const absolute = resolve(repoRoot, path);
+      const text = readPolicyText(repoRoot, absolute, rev) ?? "";
+      const file = readConfigFile(absolute, `${relative(cwd, absolute) || path}${revLabel(rev)}`, text, validatePackageConfigFile);
+      return {
+        dir: path.slice(0, path.lastIndexOf("/")),
+        configFile: path,
+        extraPatterns: (file.extraPatterns ?? []).map((s) => s.trim()),
+        categories: file.categories ?? {},
+        mayLoosen,
+      };
+    });
+}
+
+/** Repo-relative forms of absolute paths inside the repo (paths outside it cannot be changed by a PR). */
+function policyPathsIn(repoRoot: string, paths: string[]): string[] {
+  return paths.map((p) => repoPath(repoRoot, p)).filter((p): p is string => p !== undefined);
+}
+
+// --- Env (kept lenient, as before: bad numeric values fall back instead of failing) ---
+
+function envString(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  return env[name]?.trim() || undefined;
+}
+
+function envTimeout(env: NodeJS.ProcessEnv, name: string, min: number, fallback: number): number | undefined {
+  const v = envString(env, name);
+  if (v == null) return undefined;
+  return Math.max(min, parseInt(v, 10) || fallback);
+}
+
+/** DECERN_GATE_RETRY_ATTEMPTS: total attempts, clamped to 1–10; non-numbers are ignored. */
+function envRetryAttempts(env: NodeJS.ProcessEnv): number | undefined {
+  const n = parseInt(envString(env, "DECERN_GATE_RETRY_ATTEMPTS") ?? "", 10);
+  return Number.isFinite(n) ? Math.min(MAX_RETRY_ATTEMPTS, Math.max(1, n)) : undefined;
+}
+
+/** DECERN_GATE_VALIDATE_CONCURRENCY: clamped to 1–32; non-numbers are ignored. */
+function envValidateConcurrency(env: NodeJS.ProcessEnv): number | undefined {
+  const n = parseInt(envString(env, "DECERN_GATE_VALIDATE_CONCURRENCY") ?? "", 10);
+  return Number.isFinite(n) ? Math.min(MAX_VALIDATE_CONCURRENCY, Math.max(1, n)) : undefined;
+}
+
+/** DECERN_GATE_WAIVERS_MAX_DAYS: at least 1; non-numbers are ignored. */
+function envWaiverMaxDays(env: NodeJS.ProcessEnv): number | undefined {
+  const n = parseInt(envString(env, "DECERN_GATE_WAIVERS_MAX_DAYS") ?? "", 10);
+  return Number.isFinite(n) ? Math.max(1, n) : undefined;
+}
+
+/** DECERN_GATE_JUDGE_MAX_CHUNKS: clamped to 1–50; non-numbers are ignored. */
+function envMaxChunks(env: NodeJS.ProcessEnv): number | undefined {
+  const n = parseInt(envString(env, "DECERN_GATE_JUDGE_MAX_CHUNKS") ?? "", 10);
+  return Number.isFinite(n) ? Math.min(MAX_CHUNKS, Math.max(1, n)) : undefined;
+}
+
+/** DECERN_GATE_REF_SOURCES: comma-separated sources in priority order. */
+function envRefSources(env: NodeJS.ProcessEnv): RefSource[] | undefined {
+  const v = envString(env, "DECERN_GATE_REF_SOURCES");
+  if (v == null) return undefined;
+  const sources = v.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const unknown = sources.filter((s) => !REF_SOURCES.includes(s as RefSource));
+  if (sources.length === 0 || unknown.length > 0) {
+    throw new ConfigError("Invalid DECERN_GATE_REF_SOURCES", [`"${v}" must be a comma-separated list of: ${REF_SOURCES.join(", ")}.`]);
+  }
+  return [...new Set(sources)] as RefSource[];
+}
+
+function envValidateRequire(env: NodeJS.ProcessEnv): ValidateRequire | undefined {
+  const v = envString(env, "DECERN_GATE_VALIDATE_REQUIRE")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!VALIDATE_REQUIRE_MODES.includes(v as ValidateRequire)) {
+    throw new ConfigError("Invalid DECERN_GATE_VALIDATE_REQUIRE", [`"${v}" must be one of: ${VALIDATE_REQUIRE_MODES.join(", ")}.`]);
+  }
+  return v as ValidateRequire;
+}
+
+function envConfidence(env: NodeJS.ProcessEnv): number | undefined {
+  const v = envString(env, "DECERN_JUDGE_MIN_CONFIDENCE");
+  if (!v) return undefined;
+  const n = parseFloat(v);
+  if (!Number.isFinite(n) || n < 0 || n > 1) return undefined;
+  return n;
+}
+
+function envPatterns(env: NodeJS.ProcessEnv): string[] | undefined {
+  const list = (env.DECERN_GATE_EXTRA_PATTERNS ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/** Parses DECERN_GATE_OVERRIDE_AUTHORS (comma-separated logins or emails); undefined when unset or empty. */
+function envOverrideAuthors(env: NodeJS.ProcessEnv): string[] | undefined {
+  const list = (env.DECERN_GATE_OVERRIDE_AUTHORS ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/** Parses DECERN_GATE_CATEGORY_LEVELS (e.g. "DEPS=warn,OBSERVABILITY=off"); throws ConfigError on bad entries. */
+function envCategoryLevels(env: NodeJS.ProcessEnv): Partial<CategoryLevels> {
+  const levels: Partial<CategoryLevels> = {};
+  const issues: string[] = [];
+  for (const entry of (env.DECERN_GATE_CATEGORY_LEVELS ?? "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [rawCategory, rawLevel] = entry.split("=").map((s) => s?.trim());
+    const category = rawCategory?.toUpperCase() as PatternCategory;
+    const level = rawLevel?.toLowerCase() as EnforcementLevel;
+    if (!PATTERN_CATEGORIES.includes(category) || !ENFORCEMENT_LEVELS.includes(level)) {
+      issues.push(`"${entry}" must be <category>=<level> with category in ${PATTERN_CATEGORIES.join(", ")} and level in ${ENFORCEMENT_LEVELS.join(", ")}.`);
+      continue;
+    }
+    levels[category] = level;
+  }
+  if (issues.length > 0) throw new ConfigError("Invalid DECERN_GATE_CATEGORY_LEVELS", issues);
+  return levels;
+}
+
+function envProvider(env: NodeJS.ProcessEnv): DecisionProvider | undefined {
+  const v = envString(env, "DECERN_GATE_PROVIDER")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!DECISION_PROVIDERS.includes(v as DecisionProvider)) {
+    throw new ConfigError("Invalid DECERN_GATE_PROVIDER", [`"${v}" must be one of: ${DECISION_PROVIDERS.join(", ")}.`]);
+  }
+  return v as DecisionProvider;
+}
+
+function envJudgeCombine(env: NodeJS.ProcessEnv): JudgeCombine | undefined {
+  const v = envString(env, "DECERN_GATE_JUDGE_COMBINE")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!JUDGE_COMBINE_MODES.includes(v as JudgeCombine)) {
+    throw new ConfigError("Invalid DECERN_GATE_JUDGE_COMBINE", [`"${v}" must be one of: ${JUDGE_COMBINE_MODES.join(", ")}.`]);
+  }
+  return v as JudgeCombine;
+}
+
+function envJudgeMode(env: NodeJS.ProcessEnv): JudgeMode | undefined {
+  const v = envString(env, "DECERN_GATE_JUDGE_MODE")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!JUDGE_MODES.includes(v as JudgeMode)) {
+    throw new ConfigError("Invalid DECERN_GATE_JUDGE_MODE", [`"${v}" must be one of: ${JUDGE_MODES.join(", ")}.`]);
+  }
+  return v as JudgeMode;
+}
+
+function envLlmProvider(env: NodeJS.ProcessEnv): LlmProvider | undefined {
+  const v = envString(env, "DECERN_JUDGE_LLM_PROVIDER")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!LLM_PROVIDERS.includes(v as LlmProvider)) {
+    throw new ConfigError("Invalid DECERN_JUDGE_LLM_PROVIDER", [`"${v}" must be one of: ${LLM_PROVIDERS.join(", ")}.`]);
+  }
+  return v as LlmProvider;
+}
+
+function envHookMode(env: NodeJS.ProcessEnv): HookMode | undefined {
+  const v = envString(env, "DECERN_GATE_HOOK_MODE")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!HOOK_MODES.includes(v as HookMode)) {
+    throw new ConfigError("Invalid DECERN_GATE_HOOK_MODE", [`"${v}" must be one of: ${HOOK_MODES.join(", ")}.`]);
+  }
+  return v as HookMode;
+}
+
+function envFormat(env: NodeJS.ProcessEnv): OutputFormat | undefined {
+  const v = envString(env, "DECERN_GATE_FORMAT")?.toLowerCase();
+  if (v == null) return undefined;
+  if (!OUTPUT_FORMATS.includes(v as OutputFormat)) {
+    throw new ConfigError("Invalid DECERN_GATE_FORMAT", [`"${v}" must be one of: ${OUTPUT_FORMATS.join(", ")}.`]);
+  }
+  return v as OutputFormat;
+}
+
+/** Parses DECERN_GATE_CI_PROVIDER: "auto" (default), "none", or a provider name; throws ConfigError otherwise. */
+function envCiProvider(env: NodeJS.ProcessEnv): CiProvider | "none" | undefined {
+  const v = envString(env, "DECERN_GATE_CI_PROVIDER")?.toLowerCase();
+  if (v == null || v === "auto") return undefined;
+  if (v !== "none" && !CI_PROVIDERS.includes(v as CiProvider)) {
+    throw new ConfigError("Invalid DECERN_GATE_CI_PROVIDER", [
+      `"${v}" must be one of: auto, none, ${CI_PROVIDERS.join(", ")}.`,
+    ]);
+  }
+  return v as CiProvider | "none";
+}
+
+const CI_ENV: Record<CiField, string> = {
+  baseSha: "CI_BASE_SHA",
+  headSha: "CI_HEAD_SHA",
+  prTitle: "CI_PR_TITLE",
+  prBody: "CI_PR_BODY",
+  commitMessage: "CI_COMMIT_MESSAGE",
+  branch: "CI_BRANCH",
+  labels: "CI_PR_LABELS",
+  issues: "CI_LINKED_ISSUES",
+  author: "CI_AUTHOR",
+};
+
+/** CI values: explicit CI_* env vars first, then values detected from the CI provider. */
+function envCi(env: NodeJS.ProcessEnv): GateConfig["ci"] {
+  const detected = detectCi(env, envCiProvider(env));
+  const ci: GateConfig["ci"] = { provider: detected?.provider, sources: {} };
+  for (const field of Object.keys(CI_ENV) as CiField[]) {
+    const explicit = envString(env, CI_ENV[field]);
+    const value = explicit ?? detected?.values[field];
+    if (value === undefined) continue;
+    ci[field] = value;
+    ci.sources[field] = explicit !== undefined ? CI_ENV[field] : detected!.sources[field];
+  }
+  return ci;
+}
+
+function defaultCategoryLevels(): CategoryLevels {
+  return Object.fromEntries(PATTERN_CATEGORIES.map((c) => [c, "block"])) as CategoryLevels;
+}
+
+/** Values from CLI flags; they take precedence over env and the config file. */
+export type ConfigOverrides = {
+  /** Config file path (--config). */
+  configFile?: string;
+  baseSha?: string;
+  headSha?: string;
+  extraPatterns?: string[];
+  judgeEnabled?: boolean;
+  minConfidence?: number;
+  timeoutMs?: number;
+  format?: OutputFormat;
+  /** --no-cache: do not read cached judge results (fresh results are still written). */
+  noCache?: boolean;
+  /** --per-commit: require a valid ref in every high-impact commit of the range. */
+  perCommit?: boolean;
+};
+
+function applyOverrides(config: GateConfig, o: ConfigOverrides): GateConfig {
+  return {
+    ...config,
+    timeoutMs: o.timeoutMs ?? config.timeoutMs,
+    extraPatterns: o.extraPatterns ?? config.extraPatterns,
+    format: o.format ?? config.format,
+    validate: { ...config.validate, perCommit: o.perCommit ?? config.validate.perCommit },
+    cache: { ...config.cache, bypass: o.noCache ?? config.cache.bypass },
+    judge: {
+      ...config.judge,
+      enabled: o.judgeEnabled ?? config.judge.enabled,
+      minConfidence: o.minConfidence ?? config.judge.minConfidence,
+    },
+    ci: {
+      ...config.ci,
+      baseSha: o.baseSha ?? config.ci.baseSha,
+      headSha: o.headSha ?? config.ci.headSha,
+      sources: {
+        ...config.ci.sources,
+        ...(o.baseSha !== undefined && { baseSha: "--base" }),
+        ...(o.headSha !== undefined && { headSha: "--head" }),
+      },
+    },
+  };
+}
+
+/**
+ * Loads the effective config: defaults, then the repo config file (if any), then env vars, then CLI overrides.
+ * Throws ConfigError when the config file is missing (explicit path), unparsable, or invalid.
+ */
+export function loadConfig(
+  options: { env?: NodeJS.ProcessEnv; cwd?: string; overrides?: ConfigOverrides } = {}
+): GateConfig {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const overrides = options.overrides ?? {};
+
+  const repoRoot = findRepoRoot(cwd);
+  const ci = envCi(env);
+  const policyRev = resolvePolicyRev(repoRoot, overrides.baseSha ?? ci.baseSha, overrides.headSha ?? ci.headSha);
+  const filePath = findConfigFile(cwd, env, overrides.configFile, policyRev);
+  const fileRev = filePath && repoPath(repoRoot, filePath) ? policyRev : undefined;
+  const displayPath = filePath ? relative(cwd, filePath) || filePath : undefined;
+  const file: FileConfig = filePath
+    ? readConfigFile(filePath, `${displayPath}${revLabel(fileRev)}`, readPolicyText(repoRoot, filePath, fileRev)!)
+    : {};
+
+  const judgeEnabledEnv = envString(env, "DECERN_GATE_JUDGE_ENABLED");
+  const chunkingEnv = envString(env, "DECERN_GATE_JUDGE_CHUNKING");
+  const perCommitEnv = envString(env, "DECERN_GATE_PER_COMMIT");
+  const requireAuditEnv = envString(env, "DECERN_GATE_OVERRIDE_REQUIRE_AUDIT");
+  const redactionEnv = envString(env, "DECERN_GATE_REDACTION");
+  const lockfileSummaryEnv = envString(env, "DECERN_GATE_JUDGE_LOCKFILE_SUMMARY");
+  const cacheDir = envString(env, "DECERN_GATE_CACHE_DIR") ?? (file.cache?.dir?.trim() || undefined);
+  if (cacheDir && isInsideRepo(repoRoot, resolve(repoRoot, cacheDir))) {
+    throw new ConfigError(`Invalid ${envString(env, "DECERN_GATE_CACHE_DIR") ? "DECERN_GATE_CACHE_DIR" : "cache.dir"}`, [
+      `"${cacheDir}" is inside the repository, where a PR could commit forged judge verdicts; use a directory outside the checkout.`,
+    ]);
+  }
+  const waiverMaxDays = envWaiverMaxDays(env) ?? file.waivers?.maxDays ?? DEFAULT_WAIVER_MAX_DAYS;
+  const waivers = readWaiversFile(repoRoot, waiverMaxDays, policyRev);
+  if (waivers.issues.length > 0) throw new ConfigError(`Invalid ${WAIVERS_FILE}${revLabel(policyRev)}`, waivers.issues);
+
+  return applyOverrides({
+    baseUrl: envString(env, "DECERN_BASE_URL") ?? file.baseUrl?.trim(),
+    ciToken: envString(env, "DECERN_CI_TOKEN"),
+    validatePath: envString(env, "DECERN_VALIDATE_PATH") ?? file.validatePath?.trim() ?? DEFAULT_VALIDATE_PATH,
+    decisionPath: envString(env, "DECERN_DECISION_PATH") ?? file.decisionPath?.trim() ?? DEFAULT_DECISION_PATH,
+    provider: envProvider(env) ?? file.provider ?? "decern",
+    adrDir: resolve(repoRoot, envString(env, "DECERN_GATE_ADR_DIR") ?? (file.adrDir?.trim() || DEFAULT_ADR_DIR)),
+    timeoutMs:
+      envTimeout(env, "DECERN_GATE_TIMEOUT_MS", MIN_TIMEOUT_MS, DEFAULT_TIMEOUT_MS) ?? file.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    validate: {
+      concurrency: envValidateConcurrency(env) ?? file.validate?.concurrency ?? DEFAULT_VALIDATE_CONCURRENCY,
+      require: envValidateRequire(env) ?? file.validate?.require ?? "any",
+      perCommit:
+        perCommitEnv != null ? perCommitEnv.toLowerCase() === "true" || perCommitEnv === "1" : file.validate?.perCommit ?? false,
+    },
+    retry: {
+      attempts: envRetryAttempts(env) ?? file.retry?.attempts ?? DEFAULT_RETRY.attempts,
+      baseDelayMs: file.retry?.baseDelayMs ?? DEFAULT_RETRY.baseDelayMs,
+      maxDelayMs: file.retry?.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs,
+      budgetMs:
+        envTimeout(env, "DECERN_GATE_RETRY_BUDGET_MS", MIN_RETRY_BUDGET_MS, DEFAULT_RETRY.budgetMs) ??
+        file.retry?.budgetMs ??
+        DEFAULT_RETRY.budgetMs,
+    },
+    extraPatterns: envPatterns(env) ?? (file.extraPatterns ?? []).map((s) => s.trim()),
+    categories: { ...defaultCategoryLevels(), ...file.categories, ...envCategoryLevels(env) },
+    packages: loadPackages(repoRoot, cwd, filePath, file.packages?.allowLoosening === true, policyRev),
+    policyPaths: filePath ? policyPathsIn(repoRoot, [filePath]) : [],
+    waivers: waivers.waivers,
+    waiverMaxDays,
+    format: envFormat(env) ?? file.format ?? "text",
+    cache: { dir: cacheDir && resolve(repoRoot, cacheDir), bypass: false },
+    hooks: { mode: envHookMode(env) ?? file.hooks?.mode ?? "warn" },
+    refs: { sources: envRefSources(env) ?? (file.refs?.sources ? [...new Set(file.refs.sources)] : ["text"]) },
+    override: {
+      token: envString(env, "DECERN_GATE_OVERRIDE_TOKEN"),
+      allowedAuthors: envOverrideAuthors(env) ?? [],
+      auditPath: envString(env, "DECERN_OVERRIDE_PATH") ?? file.override?.auditPath?.trim() ?? DEFAULT_OVERRIDE_PATH,
+      requireAudit: !(requireAuditEnv?.toLowerCase() === "false" || requireAuditEnv === "0"),
+    },
+    redaction: {
+      enabled:
+        redactionEnv != null
+          ? !(redactionEnv.toLowerCase() === "false" || redactionEnv === "0")
+          : file.redaction?.enabled ?? true,
+      patterns: file.redaction?.patterns ?? [],
+    },
+    judge: {
+      enabled:
+        judgeEnabledEnv != null
+          ? judgeEnabledEnv.toLowerCase() === "true" || judgeEnabledEnv === "1"
+          : file.judge?.enabled ?? false,
+      mode: envJudgeMode(env) ?? file.judge?.mode ?? "decern",
+      path: envString(env, "DECERN_JUDGE_PATH") ?? file.judge?.path?.trim() ?? DEFAULT_JUDGE_PATH,
+      timeoutMs:
+        envTimeout(env, "DECERN_GATE_JUDGE_TIMEOUT_MS", MIN_JUDGE_TIMEOUT_MS, DEFAULT_JUDGE_TIMEOUT_MS) ??
+        file.judge?.timeoutMs ??
+        DEFAULT_JUDGE_TIMEOUT_MS,
+      minConfidence: envConfidence(env) ?? file.judge?.minConfidence ?? undefined,
+      combine: envJudgeCombine(env) ?? file.judge?.combine ?? "all",
+      ignore: loadJudgeIgnoreRules(repoRoot, file.judge?.ignore),
+      lockfileSummary:
+        lockfileSummaryEnv != null
+          ? !(lockfileSummaryEnv.toLowerCase() === "false" || lockfileSummaryEnv === "0")
+          : file.judge?.lockfileSummary ?? true,
+      chunking: {
+        enabled:
+          chunkingEnv != null
+            ? chunkingEnv.toLowerCase() === "true" || chunkingEnv === "1"
+            : file.judge?.chunking?.enabled ?? DEFAULT_CHUNKING.enabled,
+        maxBytes: file.judge?.chunking?.maxBytes ?? DEFAULT_CHUNKING.maxBytes,
+        maxChunks: envMaxChunks(env) ?? file.judge?.chunking?.maxChunks ?? DEFAULT_CHUNKING.maxChunks,
+      },
+      llm: {
+        baseUrl: envString(env, "DECERN_JUDGE_LLM_BASE_URL") ?? file.judge?.llm?.baseUrl?.trim(),
+        apiKey: envString(env, "DECERN_JUDGE_LLM_API_KEY"),
+        model: envString(env, "DECERN_JUDGE_LLM_MODEL") ?? file.judge?.llm?.model?.trim(),
+        provider: envLlmProvider(env) ?? file.judge?.llm?.provider,
+      },
+    },
+    ci,
+    configFile: displayPath,
+    configRev: fileRev,
+  }, overrides);
+}
+
+// --- Effective config output (secrets masked) ---
+
+function mask(secret: string | undefined): string {
+  return secret ? "***" : "(not set)";
+}
+
+function show(v: string | number | boolean | undefined): string {
+  return v === undefined || v === "" ? "(not set)" : String(v);
+}
+
+/** Lines describing the effective config for startup output. Secrets are masked; CI text is omitted. */
+export function formatEffectiveConfig(config: GateConfig): string[] {
+  const { judge } = config;
+  return [
+    `Config: ${config.configFile ? `${config.configFile}${revLabel(config.configRev)}` : "(no config file; env only)"}`,
+    `  baseUrl: ${show(config.baseUrl)}`,
+    `  ciToken: ${mask(config.ciToken)}`,
+    `  validatePath: ${config.validatePath}`,
+    `  provider: ${config.provider}`,
+    ...(config.provider === "local" ? [`  adrDir: ${relative(process.cwd(), config.adrDir) || "."}`] : []),
+    `  timeoutMs: ${config.timeoutMs}`,
+    `  validate: concurrency ${config.validate.concurrency}, require ${config.validate.require}${config.validate.perCommit ? ", per commit" : ""}`,
+    `  retry: ${config.retry.attempts} attempts, backoff ${config.retry.baseDelayMs}–${config.retry.maxDelayMs}ms, budget ${config.retry.budgetMs}ms`,
+    `  extraPatterns: ${config.extraPatterns.length > 0 ? config.extraPatterns.join(", ") : "(none)"}`,
+    `  categories: ${PATTERN_CATEGORIES.map((c) => `${c}=${config.categories[c]}`).join(", ")}`,
+    `  packages: ${
+      config.packages.length > 0
+        ? `${config.packages.map((p) => p.configFile).join(", ")}${config.packages[0]!.mayLoosen ? " (may loosen root block levels)" : ""}`
+        : "(none)"
+    }`,
+    `  waivers: ${
+      config.waivers.length > 0
+        ? `${config.waivers.length} from ${WAIVERS_FILE}${config.waivers.some((w) => isExpired(w)) ? ` (${config.waivers.filter((w) => isExpired(w)).length} expired)` : ""}`
+        : "(none)"
+    }`,
+    `  waivers.maxDays: ${config.waiverMaxDays}`,
+    `  format: ${config.format}`,
+    `  cache.dir: ${config.cache.dir ? relative(process.cwd(), config.cache.dir) || "." : "(disabled)"}${config.cache.bypass ? " (bypassed: --no-cache)" : ""}`,
+    `  hooks.mode: ${config.hooks.mode}`,
+    `  refs.sources: ${config.refs.sources.join(", ")}`,
+    `  override: ${
+      config.override.token || config.override.allowedAuthors.length > 0
+        ? [
+            config.override.token && `token ${mask(config.override.token)}`,
+            config.override.allowedAuthors.length > 0 && `allowed authors ${config.override.allowedAuthors.join(", ")}`,
+          ]
+            .filter(Boolean)
+            .join(", ") + `; audit ${config.override.auditPath}${config.override.requireAudit ? " (required)" : ""}`
+        : "off"
+    }`,
+    `  redaction: ${config.redaction.enabled ? `on (built-in rules${config.redaction.patterns.length > 0 ? ` + ${config.redaction.patterns.length} custom` : ""})` : "off"}`,
+    `  judge.enabled: ${judge.enabled}`,
+    `  judge.mode: ${judge.mode}`,
+    ...(judge.mode === "decern"
+      ? [`  judge.path: ${judge.path}`]
+      : [
+          `  judge.llm.provider: ${judge.llm.provider ?? "(from baseUrl)"}`,
+          ...(config.provider === "decern" ? [`  decisionPath: ${config.decisionPath}`] : []),
+        ]),
+    `  judge.timeoutMs: ${judge.timeoutMs}`,
+    `  judge.minConfidence: ${show(judge.minConfidence)}`,
+    `  judge.combine: ${judge.combine}`,
+    `  judge.ignore: ${judge.ignore.length > 0 ? `${judge.ignore.length} rule(s) from ${[...new Set(judge.ignore.map((r) => r.source.replace(/:\d+$/, "")))].join(", ")}` : "(none)"}`,
+    `  judge.lockfileSummary: ${judge.lockfileSummary ? "on" : "off"}`,
+    `  judge.chunking: ${judge.chunking.enabled ? `up to ${judge.chunking.maxChunks} chunks of ${Math.round(judge.chunking.maxBytes / 1024)}KB` : "off"}`,
+    `  judge.llm.baseUrl: ${show(judge.llm.baseUrl)}`,
+    `  judge.llm.apiKey: ${mask(judge.llm.apiKey)}`,
+    `  judge.llm.model: ${show(judge.llm.model)}`,
+    `CI: ${config.ci.provider ? ciProviderName(config.ci.provider) : "(no provider detected)"}`,
+    ...(Object.entries(config.ci.sources) as [CiField, string][]).map(([field, source]) => `  ${field}: from ${source}`),
+  ];
+}
@@ -0,0 +1,314 @@
+/**
+ * Decern API client: validate a decision ref and ask the judge whether a diff is consistent with it.
+ * Transient failures are retried (see http.ts). Fail-closed: timeouts and network errors that remain
+ * after retries are returned as { ok: false } results, never thrown.
+ */
+
+import { createHash } from "crypto";
+import type { GateConfig } from "./config.js";
+import { fetchWithRetry, RequestTimeoutError } from "./http.js";
+import { parseScopes } from "./scopes.js";
+
+/** ADR ref (e.g. ADR-001); anything else is treated as decision ID (e.g. UUID). */
+const ADR_REF_REGEX = /^ADR-[a-zA-Z0-9_-]+$/i;
+
+/** Returns whether the ref is an ADR ref (e.g. ADR-001); otherwise treated as decision ID (UUID). */
+export function isAdrRef(ref: string): boolean {
+  return ADR_REF_REGEX.test(ref.trim());
+}
+
+// --- Judge: call API (after validate passes) ---
+
+export type JudgeResult =
+  | { ok: true; allowed: true; reason?: string; confidence?: number; advisoryMessage?: string }
+  | { ok: true; allowed: false; reason: string; advisory?: boolean; confidence?: number }
+  | { ok: false; status: number; reason: string };
+
+/** Optional per-call hooks; `log` receives retry lines ("attempt 2/3"). */
+export type ApiCallOptions = { log?: (line: string) => void };
+
+export async function callJudge(config: GateConfig, params: {
+  decisionRef: string;
+  diff: string;
+  truncated: boolean;
+  baseSha: string;
+  headSha: string;
+  /** Sent as Idempotency-Key so the server can dedupe retries and reruns of the same judge request. */
+  idempotencyKey?: string;
+  /** Chunked judging: which part of the diff this request carries (1-based). */
+  chunk?: { index: number; total: number };
+}, options: ApiCallOptions = {}): Promise<JudgeResult> {
+  if (!config.baseUrl || !config.ciToken) {
+    return { ok: false, status: 0, reason: "DECERN_BASE_URL and DECERN_CI_TOKEN are required." };
+  }
+  const judgePath = config.judge.path;
+  const base = config.baseUrl.replace(/\/$/, "");
+  const url = new URL(judgePath.startsWith("/") ? judgePath : `/${judgePath}`, `${base}/`);
+
+  const body: Record<string, unknown> = {
+    diff: params.diff,
+    truncated: params.truncated,
+    baseSha: params.baseSha,
+    headSha: params.headSha,
+  };
+  if (params.chunk) body.chunk = params.chunk;
+  const { llm } = config.judge;
+  if (llm.baseUrl && llm.apiKey && llm.model) {
+    body.llm = {
+      baseUrl: llm.baseUrl,
+      apiKey: llm.apiKey,
+      model: llm.model,
+    };
+  }
+  if (isAdrRef(params.decisionRef)) {
+    body.adrRef = params.decisionRef.trim();
+  } else {
+    body.decisionId = params.decisionRef.trim();
+  }
+
+  try {
+    const res = await fetchWithRetry(
+      url.toString(),
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.ciToken}`,
+          ...(params.idempotencyKey ? { "Idempotency-Key": params.idempotencyKey } : {}),
+        },
+        body: JSON.stringify(body),
+      },
+      { timeoutMs: config.judge.timeoutMs, retry: config.retry, label: `Judge ${params.decisionRef}${params.chunk ? ` [${params.chunk.index}/${params.chunk.total}]` : ""}`, log: options.log }
+    );
+
+    const data = (await res.json().catch(() => ({}))) as {
+      allowed?: boolean;
+      reason?: string;
+      advisory?: boolean;
+      confidence?: number;
+      advisoryMessage?: string;
+    };
+
+    if (res.status !== 200) {
+      const reason = data.reason ?? `HTTP ${res.status}`;
+      return { ok: false, status: res.status, reason };
+    }
+
+    const confidence =
+      typeof data.confidence === "number" && Number.isFinite(data.confidence)
+        ? data.confidence > 1
+          ? data.confidence / 100
+          : data.confidence
+        : undefined;
+
+    if (data.allowed === true) {
+      return {
+        ok: true,
+        allowed: true,
+        reason: data.reason,
+        confidence,
+        advisoryMessage: typeof data.advisoryMessage === "string" ? data.advisoryMessage : undefined,
+      };
+    }
+    return {
+      ok: true,
+      allowed: false,
+      reason: data.reason ?? "Judge did not allow the change.",
+      advisory: data.advisory,
+      confidence,
+    };
+  } catch (e) {
+    if (e instanceof RequestTimeoutError) {
+      return {
+        ok: false,
+        status: 0,
+        reason: `Judge request timeout after ${e.timeoutMs}ms.`,
+      };
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, status: 0, reason: `Judge network error: ${msg}.` };
+  }
+}
+
+
+// --- Validate: call API ---
+
+export type ValidateResult =
+  | { ok: true; decisionStatus?: string; observationsExhausted?: boolean; scopes?: string[] }
+  | { ok: false; status: number; reason: string; body?: unknown };
+
+export async function validateRef(config: GateConfig, ref: string, options: ApiCallOptions = {}): Promise<ValidateResult> {
+  if (!config.baseUrl || !config.ciToken) {
+    return { ok: false, status: 0, reason: "DECERN_BASE_URL and DECERN_CI_TOKEN are required." };
+  }
+
+  const validatePath = config.validatePath;
+  const base = config.baseUrl.replace(/\/$/, "");
+  const url = new URL(validatePath.startsWith("/") ? validatePath : `/${validatePath}`, `${base}/`);
+  if (isAdrRef(ref)) {
+    url.searchParams.set("adrRef", ref.trim());
+  } else {
+    url.searchParams.set("decisionId", ref.trim());
+  }
+  try {
+    const res = await fetchWithRetry(
+      url.toString(),
+      { method: "GET", headers: { Authorization: `Bearer ${config.ciToken}` } },
+      { timeoutMs: config.timeoutMs, retry: config.retry, label: `Validate ${ref.trim()}`, log: options.log }
+    );
+
+    const body = (await res.json().catch(() => ({}))) as {
+      valid?: boolean;
+      reason?: string;
+      status?: string;
+      observation?: boolean;
+      message?: string;
+      scopes?: unknown;
+    };
+    if (res.status === 200 && body.valid === true) {
+      // Free plan: when observation limit (7) exceeded, status is omitted and message suggests upgrade.
+      const observationsExhausted =
+        body.observation === true && body.status === undefined;
+      return {
+        ok: true,
+        decisionStatus: body.status,
+        observationsExhausted,
+        scopes: parseScopes(body.scopes),
+      };
+    }
+    const rawReason = body.reason ?? `HTTP ${res.status}`;
+    const reason = rawReason.startsWith("HTTP ") ? rawReason : formatLabel(rawReason);
+    const statusDetail =
+      body.status != null ? ` (decision status: ${formatLabel(body.status)})` : "";
+    return {
+      ok: false,
+      status: res.status,
+      reason: `${reason}${statusDetail}`,
+      body,
+    };
+  } catch (e) {
+    if (e instanceof RequestTimeoutError) {
+      return { ok: false, status: 0, reason: `Request timeout after ${e.timeoutMs}ms.` };
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, status: 0, reason: `Network error: ${msg}.` };
+  }
+}
+
+// --- Decision text: for the standalone judge ---
+
+export type DecisionText = { ok: true; title?: string; content: string } | { ok: false; status: number; reason: string };
+
+/** Fetches a decision's title and content (GET decisionPath?adrRef=|decisionId=). Never throws. */
+export async function fetchDecision(config: GateConfig, ref: string, options: ApiCallOptions = {}): Promise<DecisionText> {
+  if (!config.baseUrl || !config.ciToken) {
+    return { ok: false, status: 0, reason: "DECERN_BASE_URL and DECERN_CI_TOKEN are required." };
+  }
+  const decisionPath = config.decisionPath;
+  const base = config.baseUrl.replace(/\/$/, "");
+  const url = new URL(decisionPath.startsWith("/") ? decisionPath : `/${decisionPath}`, `${base}/`);
+  url.searchParams.set(isAdrRef(ref) ? "adrRef" : "decisionId", ref.trim());
+  try {
+    const res = await fetchWithRetry(
+      url.toString(),
+      { method: "GET", headers: { Authorization: `Bearer ${config.ciToken}` } },
+      { timeoutMs: config.timeoutMs, retry: config.retry, label: `Decision ${ref.trim()}`, log: options.log }
+    );
+    const body = (await res.json().catch(() => ({}))) as { title?: unknown; content?: unknown; reason?: string };
+    if (res.status !== 200) {
+      return { ok: false, status: res.status, reason: body.reason ?? `HTTP ${res.status}` };
+    }
+    if (typeof body.content !== "string" || !body.content.trim()) {
+      return { ok: false, status: res.status, reason: "Decision has no content." };
+    }
+    return { ok: true, title: typeof body.title === "string" ? body.title : undefined, content: body.content };
+  } catch (e) {
+    if (e instanceof RequestTimeoutError) {
+      return { ok: false, status: 0, reason: `Request timeout after ${e.timeoutMs}ms.` };
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, status: 0, reason: `Network error: ${msg}.` };
+  }
+}
+
+// --- Override audit: record a break-glass override ---
+
+export type OverrideAuditEvent = {
+  justification: string;
+  /** "token" (DECERN_GATE_OVERRIDE_TOKEN) or "author" (DECERN_GATE_OVERRIDE_AUTHORS). */
+  authorizedBy: "token" | "author";
+  author?: string;
+  baseSha?: string;
+  headSha?: string;
+  branch?: string;
+  /** High-impact files the override let through; each needs a retroactive decision. */
+  files: string[];
+};
+
+export type OverrideAuditResult = { ok: true; status: number } | { ok: false; status: number; reason: string };
+
+/**
+ * Idempotency-Key for an override audit: sha256 of the event, so retries and pipeline reruns of the same
+ * override (same commits, author, justification and files) are recorded once.
+ */
+export function overrideIdempotencyKey(event: OverrideAuditEvent): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        "override",
+        event.baseSha ?? null,
+        event.headSha ?? null,
+        event.authorizedBy,
+        event.author ?? null,
+        event.justification,
+        event.files,
+      ])
+    )
+    .digest("hex");
+}
+
+/** POSTs an override audit event to override.auditPath, with an Idempotency-Key (retries are safe). Never throws. */
+export async function postOverrideAudit(
+  config: GateConfig,
+  event: OverrideAuditEvent,
+  options: ApiCallOptions = {}
+): Promise<OverrideAuditResult> {
+  if (!config.baseUrl || !config.ciToken) {
+    return { ok: false, status: 0, reason: "DECERN_BASE_URL and DECERN_CI_TOKEN are required." };
+  }
+  const auditPath = config.override.auditPath;
+  const base = config.baseUrl.replace(/\/$/, "");
+  const url = new URL(auditPath.startsWith("/") ? auditPath : `/${auditPath}`, `${base}/`);
+  try {
+    const res = await fetchWithRetry(
+      url.toString(),
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.ciToken}`,
+          "Idempotency-Key": overrideIdempotencyKey(event),
+        },
+        body: JSON.stringify({ event: "override", ...event }),
+      },
+      { timeoutMs: config.timeoutMs, retry: config.retry, label: "Override audit", log: options.log }
+    );
+    if (res.status >= 200 && res.status < 300) return { ok: true, status: res.status };
+    const body = (await res.json().catch(() => ({}))) as { reason?: string };
+    return { ok: false, status: res.status, reason: body.reason ?? `HTTP ${res.status}` };
+  } catch (e) {
+    if (e instanceof RequestTimeoutError) {
+      return { ok: false, status: 0, reason: `Request timeout after ${e.timeoutMs}ms.` };
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, status: 0, reason: `Network error: ${msg}.` };
+  }
+}
+
+/** Turns API slugs (e.g. not_approved, proposed) into human-readable labels (Not Approved, Proposed). */
+export function formatLabel(s: string): string {
+  return s
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join(" ");
+}
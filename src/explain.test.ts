@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { explainPaths, formatExplanations } from "./explain";
+import { loadConfig } from "./config";
+
+const config = { ...loadConfig({ env: {}, cwd: "/" }), extraPatterns: [] as string[] };
+
+describe("explainPaths", () => {
+  it("reports category, level and rule for built-in matches", () => {
+    const [e] = explainPaths(["k8s/deploy.yaml"], config);
+    expect(e!.match).toMatchObject({ category: "INFRA", rule: "k8s/", source: "builtin", kind: "path" });
+    expect(e!.level).toBe("block");
+  });
+
+  it("uses the configured category level", () => {
+    const [e] = explainPaths(["yarn.lock"], { ...config, categories: { ...config.categories, DEPS: "warn" } });
+    expect(e!.level).toBe("warn");
+  });
+
+  it("leaves level undefined when nothing matched", () => {
+    expect(explainPaths(["src/index.ts"], config)[0]!.level).toBeUndefined();
+  });
+});
+
+describe("formatExplanations", () => {
+  it("describes built-in special cases", () => {
+    const out = formatExplanations(explainPaths(["Dockerfile.prod", ".env.staging", "tsconfig.app.json"], config));
+    expect(out).toContain("  Rule: built-in special case: Dockerfile variant (Dockerfile, Dockerfile.*)");
+    expect(out).toContain("  Rule: built-in special case: env file (.env, .env.*)");
+    expect(out).toContain("  Category: CONFIG (block)");
+  });
+
+  it("describes extra patterns and ignore rules with the overridden match", () => {
+    const out = formatExplanations(
+      explainPaths(["scripts/deploy.sh", "docs/auth/README.md"], { ...config, extraPatterns: ["deploy.sh", "!docs/**"] })
+    );
+    expect(out).toContain('  Rule: extra pattern "deploy.sh" (basename)');
+    expect(out).toContain('  Decision required: NO — ignore rule "!docs/**" (glob)');
+    expect(out).toContain('  Overrides: SECURITY — built-in path pattern "auth/"');
+  });
+
+  it("lists paths that matched nothing", () => {
+    const out = formatExplanations(explainPaths(["go.mod", "src/a.ts", "README.md"], config));
+    expect(out).toContain("No rule matched (2):");
+    expect(out).toContain("  src/a.ts");
+    expect(out).toContain("  README.md");
+  });
+});
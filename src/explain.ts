@@ -0,0 +1,99 @@
+/**
+ * `decern-gate explain <path...>` / `--from-diff`: shows which rule (if any) makes each path high-impact.
+ * Uses the same matching and config (extra patterns, ignore rules, category levels, packages) as the gate.
+ */
+
+import type { EnforcementLevel, GateConfig } from "./config.js";
+import { getChangedFiles } from "./main.js";
+import { matchPolicyPath, type PackagePolicy } from "./packages.js";
+import type { PathMatch } from "./required-patterns.js";
+
+export type PathExplanation = {
+  path: string;
+  match: PathMatch;
+  /** Enforcement level of the matched category; undefined when no category matched. */
+  level?: EnforcementLevel;
+  /** Monorepo package whose nested config file applies to the path. */
+  package?: PackagePolicy;
+  /** The package's rule or level would have loosened a root block match and was not applied. */
+  looseningDenied?: boolean;
+};
+
+export function explainPaths(
+  paths: string[],
+  config: Pick<GateConfig, "extraPatterns" | "categories"> & Partial<Pick<GateConfig, "packages" | "policyPaths">>
+): PathExplanation[] {
+  return paths.map((path) => ({ path, ...matchPolicyPath(path, config) }));
+}
+
+/** Describes a matching rule, e.g. `built-in path pattern "k8s/"` or `extra pattern "deploy.sh" (basename)`. */
+export function describeRule(match: PathMatch): string {
+  const kindLabel: Record<string, string> = {
+    glob: "glob",
+    path: "path substring",
+    basename: "basename",
+    special: "special case",
+  };
+  if (match.source === "builtin") {
+    if (match.kind === "special") return `built-in special case: ${match.rule}`;
+    return `built-in ${match.kind === "path" ? "path pattern" : "basename"} "${match.rule}"`;
+  }
+  const what = match.source === "ignore" ? "ignore rule" : "extra pattern";
+  return `${what} "${match.rule}" (${kindLabel[match.kind ?? ""] ?? "pattern"})`;
+}
+
+export function formatExplanations(explanations: PathExplanation[]): string[] {
+  const lines: string[] = [];
+  const unmatched: string[] = [];
+  for (const { path, match, level, package: pkg, looseningDenied } of explanations) {
+    if (match.source === null) {
+      unmatched.push(path);
+      continue;
+    }
+    lines.push(path);
+    if (pkg) lines.push(`  Package: ${pkg.dir} (${pkg.configFile})`);
+    if (match.source === "ignore") {
+      lines.push(`  Decision required: NO — ${describeRule(match)}`);
+      if (match.overridden) {
+        lines.push(`  Overrides: ${match.overridden.category} — ${describeRule(match.overridden)}`);
+      }
+      continue;
+    }
+    const required = level === "block" ? "YES" : `NO (category level: ${level})`;
+    lines.push(`  Decision required: ${required}`);
+    lines.push(`  Category: ${match.category} (${level})`);
+    lines.push(`  Rule: ${describeRule(match)}`);
+    if (match.locked) lines.push("  Locked: gate policy file (ignore rules, category levels and waivers do not apply)");
+    if (looseningDenied) {
+      lines.push("  Package rule not applied: it would loosen a root block level (root config: packages.allowLoosening)");
+    }
+  }
+  if (unmatched.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push(`No rule matched (${unmatched.length}):`);
+    for (const path of unmatched) lines.push(`  ${path}`);
+  }
+  return lines;
+}
+
+/** Runs the explain command; returns exit code (0 = explained, 1 = git error or nothing to explain). */
+export async function runExplain(config: GateConfig, paths: string[], fromDiff: boolean): Promise<number> {
+  const all = [...paths];
+  if (fromDiff) {
+    try {
+      all.push(...getChangedFiles(config));
+    } catch {
+      console.log("Diff: could not compute (git error). Set --base / --head (or CI_BASE_SHA / CI_HEAD_SHA) or pass paths.");
+      return 1;
+    }
+  }
+  if (all.length === 0) {
+    console.log("No paths to explain.");
+    return 1;
+  }
+
+  console.log("decern-gate — explain");
+  console.log("");
+  for (const line of formatExplanations(explainPaths([...new Set(all)], config))) console.log(line);
+  return 0;
+}
@@ -30,6 +30,11 @@ describe("extractDecisionIds", () => {
     expect(extractDecisionIds((null as unknown) as string)).toEqual([]);
   });
 
+  it("extracts Decern-Decision and Refs trailers", () => {
+    const message = "Move sessions to Redis\n\nDecern-Decision: ADR-012, 550e8400-e29b-41d4-a716-446655440000\nRefs: decern:abc-123\n";
+    expect(extractDecisionIds(message)).toEqual(["abc-123", "ADR-012", "550e8400-e29b-41d4-a716-446655440000"]);
+  });
+
   it("extracts multiple different ids", () => {
     const text = "decern:first and DECERN-second";
     const ids = extractDecisionIds(text);
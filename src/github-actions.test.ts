@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { formatAnnotations, formatStepSummary, publishToGithubActions } from "./github-actions";
+import { newReport, type GateReport } from "./report";
+
+function blockedReport(): GateReport {
+  return {
+    ...newReport(),
+    summary: "blocked — no referenced decision is valid.",
+    changedFiles: ["src/app.ts", "db/migrations/001.sql", "package.json"],
+    policy: {
+      required: true,
+      reason: "High-impact patterns matched: db/migrations/001.sql",
+      matched: [{ file: "db/migrations/001.sql", rule: "db/migrations/", category: "DB" }],
+      warnings: [{ file: "package.json", rule: "package.json", category: "DEPS" }],
+      ignored: [],
+    },
+    refs: ["ADR-007"],
+    validations: [{ ref: "ADR-007", valid: false, decisionStatus: "proposed", reason: "Not Approved", httpStatus: 422 }],
+  };
+}
+
+describe("formatAnnotations", () => {
+  it("emits an error per blocking file and a warning per warn-only file", () => {
+    expect(formatAnnotations(blockedReport())).toEqual([
+      "::error file=db/migrations/001.sql,title=decern-gate%3A decision required (DB)::High-impact change (rule: db/migrations/). blocked — no referenced decision is valid.",
+      "::warning file=package.json,title=decern-gate%3A DEPS (warn)::High-impact change in a warn-only category (rule: package.json); not blocking.",
+    ]);
+  });
+
+  it("emits notices when a decision covered the change, and judge warnings", () => {
+    const report: GateReport = {
+      ...blockedReport(),
+      verdict: "pass",
+      exitCode: 0,
+      summary: "passed.",
+      judge: {
+        ref: "ADR-007",
+        ok: true,
+        passed: true,
+        allowed: false,
+        advisory: true,
+        reason: "Schema differs\nfrom ADR",
+        excludedFiles: ["logo.png"],
+        truncated: true,
+      },
+    };
+    const lines = formatAnnotations(report);
+    expect(lines[0]).toMatch(/^::notice file=db\/migrations\/001.sql,/);
+    expect(lines).toContain("::warning title=decern-gate%3A judge::Not included in the judge (image, binary, or >1MB): logo.png");
+    expect(lines).toContain("::warning title=decern-gate%3A judge::Diff was truncated to 2MB; judge is based on partial diff.");
+    expect(lines).toContain("::warning title=decern-gate%3A judge ADR-007::Judge (advisory): Schema differs%0Afrom ADR");
+  });
+
+  it("emits a warning per file the chunked judge did not judge", () => {
+    const report: GateReport = {
+      ...blockedReport(),
+      judge: { ref: "ADR-007", ok: true, passed: true, allowed: true, excludedFiles: [], truncated: false, chunks: 3, unjudgedFiles: ["dump.sql"] },
+    };
+    expect(formatAnnotations(report)).toContain(
+      "::warning file=dump.sql,title=decern-gate%3A judge::Not judged: a hunk is larger than a chunk, or the diff exceeds the chunk limit."
+    );
+    expect(formatStepSummary(report)).toContain("Not judged (too large for a chunk, or beyond the chunk limit): dump.sql");
+  });
+
+  it("emits override warnings instead of notices when a break-glass override let the change through", () => {
+    const report: GateReport = {
+      ...blockedReport(),
+      verdict: "pass",
+      exitCode: 0,
+      summary: "passed with break-glass override — SEV1 (a retroactive decision is required).",
+      override: { justification: "SEV1", accepted: true, authorizedBy: "author", author: "alice", audit: { sent: false, reason: "HTTP 500" } },
+    };
+    const lines = formatAnnotations(report);
+    expect(lines[0]).toMatch(/^::warning file=db\/migrations\/001.sql,title=decern-gate%3A override \(DB\)::.*retroactive decision/);
+    expect(lines).toContain("::warning title=decern-gate%3A override::Break-glass override: SEV1");
+    expect(lines).toContain("::warning title=decern-gate%3A override::Override audit not recorded: HTTP 500");
+    const md = formatStepSummary(report);
+    expect(md).toContain("## decern-gate: ⚠️ passed (override)");
+    expect(md).toContain("**⚠️ Break-glass override** (allowed author alice): SEV1 — audit not recorded (HTTP 500).");
+    expect(md).toContain("| `db/migrations/001.sql` | DB | `db/migrations/` | override |");
+  });
+
+  it("emits a notice per waived file and an error per expired waiver", () => {
+    const waiver = { id: ".decern-waivers.yml#1", paths: ["charts/"], categories: [], owner: "ui", reason: "UI", expires: "2026-01-31" };
+    const report: GateReport = {
+      ...blockedReport(),
+      policy: { ...blockedReport().policy!, waived: [{ file: "charts/a.yaml", rule: "charts/", category: "INFRA", waiver: waiver.id }] },
+      waivers: { applied: [], expired: [waiver] },
+    };
+    const lines = formatAnnotations(report);
+    expect(lines).toContain("::notice file=charts/a.yaml,title=decern-gate%3A INFRA (waived)::High-impact change (rule: charts/) waived by .decern-waivers.yml#1.");
+    expect(lines).toContain(
+      "::error file=.decern-waivers.yml,title=decern-gate%3A .decern-waivers.yml#1::Waiver expired on 2026-01-31 (owner: ui); remove or renew it."
+    );
+    expect(formatStepSummary(report)).toContain("| .decern-waivers.yml#1 | ui | ❌ expired 2026-01-31 | UI |");
+  });
+
+  it("emits one error when the gate blocked before the policy ran", () => {
+    const report = { ...newReport(), summary: "blocked — fix git refs or set CI_BASE_SHA / CI_HEAD_SHA." };
+    expect(formatAnnotations(report)).toEqual([
+      "::error title=decern-gate::blocked — fix git refs or set CI_BASE_SHA / CI_HEAD_SHA.",
+    ]);
+  });
+});
+
+describe("formatStepSummary", () => {
+  it("renders the verdict, a file table with high-impact files first, and decisions", () => {
+    const md = formatStepSummary(blockedReport());
+    expect(md).toContain("## decern-gate: ❌ blocked");
+    expect(md).toContain("**Gate:** blocked — no referenced decision is valid.");
+    const rows = md.split("\n").filter((l) => l.startsWith("| `"));
+    expect(rows).toEqual([
+      "| `db/migrations/001.sql` | DB | `db/migrations/` | block |",
+      "| `package.json` | DEPS | `package.json` | warn |",
+      "| `src/app.ts` | — | — | — |",
+    ]);
+    expect(md).toContain("| ADR-007 | ❌ no | proposed | all | Not Approved |");
+  });
+
+  it("renders high-impact files per monorepo package", () => {
+    const md = formatStepSummary({
+      ...blockedReport(),
+      packages: [
+        { package: "packages/billing", configFile: "packages/billing/.decern-gate.yml", matched: ["packages/billing/package.json"], warnings: [] },
+        { package: ".", matched: [], warnings: ["package.json"] },
+      ],
+    });
+    expect(md).toContain("### Packages");
+    expect(md).toContain("| `packages/billing` | `packages/billing/.decern-gate.yml` | `packages/billing/package.json` | — |");
+    expect(md).toContain("| (root) | — | — | `package.json` |");
+  });
+
+  it("renders the per-commit results", () => {
+    const md = formatStepSummary({
+      ...blockedReport(),
+      commits: [
+        { sha: "a".repeat(40), subject: "Add migration", matched: ["db/migrations/001.sql"], refs: ["ADR-007"], passed: true },
+        { sha: "b".repeat(40), subject: "Bump deps", matched: ["package.json"], refs: [], passed: false, reason: "no decision ref" },
+      ],
+    });
+    expect(md).toContain("### Commits");
+    expect(md).toContain("| `aaaaaaa` | Add migration | ADR-007 | ✅ ok |");
+    expect(md).toContain("| `bbbbbbb` | Bump deps | — | ❌ no decision ref |");
+  });
+
+  it("renders the judge result and confidence per decision", () => {
+    const md = formatStepSummary({
+      ...blockedReport(),
+      judges: [
+        { ref: "ADR-007", ok: true, passed: true, allowed: true, confidence: 0.91, excludedFiles: [], truncated: false },
+        { ref: "ADR-008", ok: true, passed: false, allowed: false, reason: "Wrong table", excludedFiles: [], truncated: false },
+      ],
+    });
+    expect(md).toContain("### Judge");
+    expect(md).toContain("| ADR-007 | ✅ allowed | 91% | — |");
+    expect(md).toContain("| ADR-008 | ❌ not allowed | — | Wrong table |");
+  });
+});
+
+describe("publishToGithubActions", () => {
+  let dir: string;
+  let summaryFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "decern-gate-gha-"));
+    summaryFile = join(dir, "summary.md");
+    writeFileSync(summaryFile, "# previous step\n");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("does nothing outside GitHub Actions", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    publishToGithubActions(blockedReport(), { env: { GITHUB_STEP_SUMMARY: summaryFile } });
+    expect(log).not.toHaveBeenCalled();
+    expect(readFileSync(summaryFile, "utf-8")).toBe("# previous step\n");
+  });
+
+  it("prints annotations and appends the job summary", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    publishToGithubActions(blockedReport(), { env: { GITHUB_ACTIONS: "true", GITHUB_STEP_SUMMARY: summaryFile } });
+    expect(log).toHaveBeenCalledTimes(2);
+    const content = readFileSync(summaryFile, "utf-8");
+    expect(content.startsWith("# previous step\n## decern-gate: ❌ blocked")).toBe(true);
+  });
+
+  it("prints annotations on stderr when stdout carries the JSON report", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    publishToGithubActions(blockedReport(), { jsonOutput: true, env: { GITHUB_ACTIONS: "true" } });
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+
+  it("logs, but does not throw, when the summary file cannot be written", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    publishToGithubActions(blockedReport(), {
+      env: { GITHUB_ACTIONS: "true", GITHUB_STEP_SUMMARY: join(dir, "missing", "summary.md") },
+    });
+    expect(error.mock.calls[0]![0]).toMatch(/could not write GITHUB_STEP_SUMMARY/);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * GitHub Actions integration: workflow-command annotations (`::error file=...::`) and a Markdown
+ * job summary appended to $GITHUB_STEP_SUMMARY. Both are built from the GateReport, so text and
+ * JSON runs publish the same information.
+ */
+
+import { appendFileSync } from "fs";
+import type { FileMatch } from "./main.js";
+import type { GateReport, JudgeReport } from "./report.js";
+
+type Env = Record<string, string | undefined>;
+
+const MAX_SUMMARY_FILES = 50;
+
+export function isGithubActions(env: Env = process.env): boolean {
+  return env.GITHUB_ACTIONS === "true";
+}
+
+/** Escapes the message part of a workflow command. */
+function escapeData(s: string): string {
+  return s.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+/** Escapes a property value (file, title) of a workflow command. */
+function escapeProperty(s: string): string {
+  return escapeData(s).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+function command(level: "error" | "warning" | "notice", message: string, props: Record<string, string> = {}): string {
+  const list = Object.entries(props).map(([k, v]) => `${k}=${escapeProperty(v)}`);
+  return `::${level}${list.length > 0 ? ` ${list.join(",")}` : ""}::${escapeData(message)}`;
+}
+
+/**
+ * Workflow commands for the report: one per high-impact file (error when the gate blocked, notice when a
+ * decision covered it), one warning per warn-only file, and warnings for judge advisories and partial diffs.
+ */
+export function formatAnnotations(report: GateReport): string[] {
+  const lines: string[] = [];
+  const blocked = report.verdict === "block";
+  const overridden = report.override?.accepted === true;
+  for (const m of report.policy?.matched ?? []) {
+    lines.push(
+      blocked
+        ? command("error", `High-impact change (rule: ${m.rule}). ${report.summary}`, {
+            file: m.file,
+            title: `decern-gate: decision required (${m.category})`,
+          })
+        : overridden
+          ? command("warning", `High-impact change (rule: ${m.rule}) let through by a break-glass override; a retroactive decision is required.`, {
+              file: m.file,
+              title: `decern-gate: override (${m.category})`,
+            })
+          : command("notice", `High-impact change (rule: ${m.rule}) covered by a referenced decision.`, {
+            file: m.file,
+            title: `decern-gate: ${m.category}`,
+          })
+    );
+  }
+  for (const m of report.policy?.warnings ?? []) {
+    lines.push(
+      command("warning", `High-impact change in a warn-only category (rule: ${m.rule}); not blocking.`, {
+        file: m.file,
+        title: `decern-gate: ${m.category} (warn)`,
+      })
+    );
+  }
+
+  for (const m of report.policy?.waived ?? []) {
+    lines.push(command("notice", `High-impact change (rule: ${m.rule}) waived by ${m.waiver}.`, { file: m.file, title: `decern-gate: ${m.category} (waived)` }));
+  }
+  for (const w of report.waivers?.expired ?? []) {
+    lines.push(command("error", `Waiver expired on ${w.expires} (owner: ${w.owner}); remove or renew it.`, { file: ".decern-waivers.yml", title: `decern-gate: ${w.id}` }));
+  }
+
+  if (report.override && overridden) {
+    const { justification, audit } = report.override;
+    lines.push(command("warning", `Break-glass override: ${justification}`, { title: "decern-gate: override" }));
+    if (audit && !audit.sent) {
+      lines.push(command("warning", `Override audit not recorded: ${audit.reason ?? "unknown error"}`, { title: "decern-gate: override" }));
+    }
+  }
+
+  const judges = judgesOf(report);
+  const diff = judges[0];
+  if (diff) {
+    if (diff.excludedFiles.length > 0) {
+      lines.push(
+        command("warning", `Not included in the judge (image, binary, or >1MB): ${diff.excludedFiles.join(", ")}`, {
+          title: "decern-gate: judge",
+        })
+      );
+    }
+    if (diff.ignoredFiles && diff.ignoredFiles.length > 0) {
+      lines.push(command("notice", `Ignored by .decernjudgeignore / judge.ignore: ${diff.ignoredFiles.join(", ")}`, { title: "decern-gate: judge" }));
+    }
+    if (diff.truncated) {
+      lines.push(command("warning", "Diff was truncated to 2MB; judge is based on partial diff.", { title: "decern-gate: judge" }));
+    }
+    for (const file of diff.unjudgedFiles ?? []) {
+      lines.push(command("warning", "Not judged: a hunk is larger than a chunk, or the diff exceeds the chunk limit.", { file, title: "decern-gate: judge" }));
+    }
+  }
+  for (const judge of judges) {
+    if (judge.advisory && judge.reason) {
+      lines.push(command("warning", `Judge (advisory): ${judge.reason}`, { title: `decern-gate: judge ${judge.ref}` }));
+    }
+    if (judge.advisoryMessage) {
+      lines.push(command("warning", `Advisory: ${judge.advisoryMessage}`, { title: `decern-gate: judge ${judge.ref}` }));
+    }
+  }
+  if (blocked && !report.policy) {
+    lines.push(command("error", report.summary, { title: "decern-gate" }));
+  }
+  return lines;
+}
+
+/** Judge results per decision (reports without `judges` carry a single `judge`). */
+function judgesOf(report: GateReport): JudgeReport[] {
+  return report.judges ?? (report.judge ? [report.judge] : []);
+}
+
+/** Escapes a value for a Markdown table cell. */
+function cell(s: string): string {
+  return s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function fileRow(file: string, match: FileMatch | undefined, status: string): string {
+  return `| \`${cell(file)}\` | ${match?.category ?? "—"} | ${match ? `\`${cell(match.rule)}\`` : "—"} | ${status} |`;
+}
+
+/** Markdown job summary: verdict, changed files with category and rule, decision validations and the judge result. */
+export function formatStepSummary(report: GateReport): string {
+  const lines: string[] = [];
+  const overridden = report.override?.accepted === true;
+  lines.push(`## decern-gate: ${report.verdict === "pass" ? (overridden ? "⚠️ passed (override)" : "✅ passed") : "❌ blocked"}`);
+  lines.push("");
+  lines.push(`**Gate:** ${report.summary}`);
+  if (report.policy) {
+    lines.push("");
+    lines.push(`**Decision required:** ${report.policy.required ? "yes" : "no"} — ${report.policy.reason}`);
+  }
+  if (report.override) {
+    const o = report.override;
+    lines.push("");
+    lines.push(
+      o.accepted
+        ? `**⚠️ Break-glass override** (${o.authorizedBy === "token" ? "override token" : `allowed author ${o.author}`}): ${o.justification} — audit ${o.audit?.sent ? "recorded" : `not recorded (${o.audit?.reason ?? "unknown error"})`}. A retroactive decision is required.`
+        : `**Override ignored:** ${o.reason}.`
+    );
+  }
+
+  if (report.changedFiles.length > 0) {
+    const byFile = new Map<string, { match: FileMatch; status: string }>();
+    for (const m of report.policy?.ignored ?? []) byFile.set(m.file, { match: m, status: "ignored" });
+    for (const m of report.policy?.warnings ?? []) byFile.set(m.file, { match: m, status: "warn" });
+    for (const m of report.policy?.waived ?? []) byFile.set(m.file, { match: m, status: `waived (${m.waiver})` });
+    for (const m of report.policy?.matched ?? []) byFile.set(m.file, { match: m, status: overridden ? "override" : "block" });
+    for (const m of report.uncovered ?? []) byFile.set(m.file, { match: m, status: "block (not in decision scope)" });
+    // High-impact files first, then the rest in diff order.
+    const files = [...report.changedFiles].sort((a, b) => Number(byFile.has(b)) - Number(byFile.has(a)));
+
+    lines.push("");
+    lines.push(`### Changed files (${report.changedFiles.length})`);
+    lines.push("");
+    lines.push("| File | Category | Rule | Status |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const file of files.slice(0, MAX_SUMMARY_FILES)) {
+      const entry = byFile.get(file);
+      lines.push(fileRow(file, entry?.match, entry?.status ?? "—"));
+    }
+    if (files.length > MAX_SUMMARY_FILES) {
+      lines.push("");
+      lines.push(`… and ${files.length - MAX_SUMMARY_FILES} more.`);
+    }
+  }
+
+  if (report.refs.length > 0) {
+    lines.push("");
+    lines.push("### Decisions");
+    lines.push("");
+    lines.push("| Ref | Valid | Status | Scope | Reason |");
+    lines.push("| --- | --- | --- | --- | --- |");
+    for (const ref of report.refs) {
+      const v = report.validations.find((x) => x.ref === ref);
+      if (!v) {
+        lines.push(`| ${cell(ref)} | not checked | — | — | — |`);
+        continue;
+      }
+      lines.push(
+        `| ${cell(ref)} | ${v.valid ? "✅ yes" : "❌ no"} | ${v.decisionStatus ? cell(v.decisionStatus) : "—"} | ${v.scopes ? cell(v.scopes.join(", ")) : "all"} | ${v.reason ? cell(v.reason) : "—"} |`
+      );
+    }
+  }
+
+  if (report.packages && report.packages.length > 0) {
+    lines.push("");
+    lines.push("### Packages");
+    lines.push("");
+    lines.push("| Package | Config | High-impact files | Warn-only files |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const p of report.packages) {
+      const files = (list: string[]) => (list.length > 0 ? list.map((f) => `\`${cell(f)}\``).join(", ") : "—");
+      lines.push(
+        `| ${p.package === "." ? "(root)" : `\`${cell(p.package)}\``} | ${p.configFile ? `\`${cell(p.configFile)}\`` : "—"} | ${files(p.matched)} | ${files(p.warnings)} |`
+      );
+    }
+  }
+
+  const waivers = [...(report.waivers?.applied ?? []), ...(report.waivers?.expired ?? [])];
+  if (waivers.length > 0) {
+    lines.push("");
+    lines.push("### Waivers");
+    lines.push("");
+    lines.push("| Waiver | Owner | Expires | Reason |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const w of waivers) {
+      const expired = report.waivers!.expired.includes(w);
+      lines.push(`| ${cell(w.id)} | ${cell(w.owner)} | ${expired ? `❌ expired ${w.expires}` : w.expires} | ${cell(w.reason)} |`);
+    }
+  }
+
+  if (report.commits && report.commits.length > 0) {
+    lines.push("");
+    lines.push("### Commits");
+    lines.push("");
+    lines.push("| Commit | Subject | Refs | Result |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const c of report.commits) {
+      lines.push(
+        `| \`${c.sha.slice(0, 7)}\` | ${cell(c.subject)} | ${c.refs.length > 0 ? cell(c.refs.join(", ")) : "—"} | ${c.passed ? "✅ ok" : `❌ ${cell(c.reason ?? "failed")}`} |`
+      );
+    }
+  }
+
+  const judges = judgesOf(report);
+  if (judges.length > 0) {
+    lines.push("");
+    lines.push("### Judge");
+    lines.push("");
+    lines.push("| Decision | Result | Confidence | Reason |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const judge of judges) {
+      const result = !judge.ok
+        ? "❌ request failed"
+        : judge.allowed
+          ? judge.passed
+            ? "✅ allowed"
+            : "❌ allowed, below min confidence"
+          : judge.advisory
+            ? "⚠️ not allowed (advisory)"
+            : "❌ not allowed";
+      const confidence = judge.confidence != null ? `${Math.round(judge.confidence * 100)}%` : "—";
+      const reason = [judge.reason, judge.advisoryMessage && `Advisory: ${judge.advisoryMessage}`].filter(Boolean).join(" ");
+      lines.push(`| ${cell(judge.ref)} | ${result}${judge.cached ? " (cached)" : ""} | ${confidence} | ${reason ? cell(reason) : "—"} |`);
+    }
+    if (judges[0]!.excludedFiles.length > 0) {
+      lines.push("");
+      lines.push(`Not included in the judge: ${judges[0]!.excludedFiles.join(", ")}`);
+    }
+    if (judges[0]!.ignoredFiles && judges[0]!.ignoredFiles.length > 0) {
+      lines.push("");
+      lines.push(`Ignored by .decernjudgeignore / judge.ignore: ${judges[0]!.ignoredFiles.join(", ")}`);
+    }
+    if (judges[0]!.truncated) {
+      lines.push("");
+      lines.push("Diff was truncated to 2MB; judge is based on partial diff.");
+    }
+    const redactions = Object.entries(judges[0]!.redactions ?? {});
+    if (redactions.length > 0) {
+      lines.push("");
+      lines.push(`Secrets redacted before judging: ${redactions.map(([file, count]) => `\`${cell(file)}\` (${count})`).join(", ")}`);
+    }
+    if (judges[0]!.chunks != null && judges[0]!.chunks > 1) {
+      lines.push("");
+      lines.push(`Diff judged in ${judges[0]!.chunks} chunks; confidence is the lowest across chunks.`);
+    }
+    if (judges[0]!.unjudgedFiles && judges[0]!.unjudgedFiles.length > 0) {
+      lines.push("");
+      lines.push(`Not judged (too large for a chunk, or beyond the chunk limit): ${judges[0]!.unjudgedFiles.join(", ")}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Publishes the report when running under GitHub Actions: annotations on stdout (stderr when stdout
+ * carries the JSON report; the runner reads workflow commands from both) and the job summary to
+ * $GITHUB_STEP_SUMMARY. No-op outside GitHub Actions. A summary write error is logged, never fatal.
+ */
+export function publishToGithubActions(report: GateReport, options: { jsonOutput?: boolean; env?: Env } = {}): void {
+  const env = options.env ?? process.env;
+  if (!isGithubActions(env)) return;
+  const print = options.jsonOutput ? console.error : console.log;
+  for (const line of formatAnnotations(report)) print(line);
+
+  const summaryFile = env.GITHUB_STEP_SUMMARY;
+  if (!summaryFile) return;
+  try {
+    appendFileSync(summaryFile, formatStepSummary(report));
+  } catch (e) {
+    console.error(`decern-gate: could not write GITHUB_STEP_SUMMARY: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { hasGlobChars, matchesGlob } from "./glob";
+
+describe("hasGlobChars", () => {
+  it("detects glob syntax", () => {
+    expect(hasGlobChars("**/migrations/*.sql")).toBe(true);
+    expect(hasGlobChars("file?.txt")).toBe(true);
+    expect(hasGlobChars("{a,b}.yml")).toBe(true);
+    expect(hasGlobChars("custom/infra/")).toBe(false);
+    expect(hasGlobChars("deploy.sh")).toBe(false);
+  });
+});
+
+describe("matchesGlob", () => {
+  it("** matches any number of directories", () => {
+    expect(matchesGlob("db/migrations/001.sql", "**/migrations/*.sql")).toBe(true);
+    expect(matchesGlob("migrations/001.sql", "**/migrations/*.sql")).toBe(true);
+    expect(matchesGlob("a/b/c/migrations/001.sql", "**/migrations/*.sql")).toBe(true);
+    expect(matchesGlob("db/migrations/nested/001.sql", "**/migrations/*.sql")).toBe(false);
+  });
+
+  it("* does not cross directory boundaries", () => {
+    expect(matchesGlob("src/a.ts", "src/*.ts")).toBe(true);
+    expect(matchesGlob("src/lib/a.ts", "src/*.ts")).toBe(false);
+  });
+
+  it("patterns with a slash are anchored at the repo root", () => {
+    expect(matchesGlob("docs/auth/README.md", "docs/**")).toBe(true);
+    expect(matchesGlob("src/docs/auth.md", "docs/**")).toBe(false);
+    expect(matchesGlob("docs/a.md", "/docs/*.md")).toBe(true);
+  });
+
+  it("patterns without a slash match the basename at any depth", () => {
+    expect(matchesGlob("README.md", "*.md")).toBe(true);
+    expect(matchesGlob("docs/guide/intro.md", "*.md")).toBe(true);
+    expect(matchesGlob("docs/guide/intro.mdx", "*.md")).toBe(false);
+  });
+
+  it("a pattern matching a directory matches everything below it", () => {
+    expect(matchesGlob("vendor/lib/a.js", "vendor/")).toBe(true);
+    expect(matchesGlob("pkg/vendor/lib/a.js", "vendor")).toBe(true);
+    expect(matchesGlob("src/ui/charts/Bar.tsx", "src/ui/")).toBe(true);
+  });
+
+  it("anchored option anchors a single-segment pattern at the root", () => {
+    expect(matchesGlob("dist/a.js", "dist", { anchored: true })).toBe(true);
+    expect(matchesGlob("pkg/dist/a.js", "dist", { anchored: true })).toBe(false);
+    expect(matchesGlob("pkg/dist/a.js", "/dist")).toBe(true);
+  });
+
+  it("supports ?, character classes and braces", () => {
+    expect(matchesGlob("v1.yml", "v?.yml")).toBe(true);
+    expect(matchesGlob("v12.yml", "v?.yml")).toBe(false);
+    expect(matchesGlob("env/prod.tfvars", "env/[ps]*.tfvars")).toBe(true);
+    expect(matchesGlob("env/dev.tfvars", "env/[!d]*.tfvars")).toBe(false);
+    expect(matchesGlob("config/app.yaml", "config/*.{yml,yaml}")).toBe(true);
+    expect(matchesGlob("config/app.json", "config/*.{yml,yaml}")).toBe(false);
+  });
+
+  it("treats dots and other regex characters literally", () => {
+    expect(matchesGlob("fileXmd", "*.md")).toBe(false);
+    expect(matchesGlob("a+b.txt", "a+b.txt")).toBe(true);
+  });
+
+  it("normalizes backslashes and leading ./", () => {
+    expect(matchesGlob("docs\\a.md", "docs/*.md")).toBe(true);
+    expect(matchesGlob("./docs/a.md", "docs/*.md")).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Minimal glob matching for repo-relative paths (gitignore-like semantics).
+ * - `*` matches within a segment, `?` one char, `[...]` a char class, `{a,b}` alternatives.
+ * - `**` matches any number of segments (including none).
+ * - A pattern without "/" (other than a trailing one) matches at any depth (e.g. `*.md`).
+ * - A pattern with "/" is anchored at the repo root; a leading "/" is allowed and ignored
+ *   (pass `anchored` to anchor a single-segment pattern, as gitignore does for "/name").
+ * - A pattern that matches a directory also matches everything below it (e.g. `docs` or `docs/`).
+ */
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/** Returns whether the pattern uses glob syntax (otherwise legacy substring/basename rules apply). */
+export function hasGlobChars(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+^$()|\\]/g, "\\$&");
+}
+
+function translate(glob: string): string {
+  let out = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        const next = glob[i + 2];
+        if (atSegmentStart && next === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+          continue;
+        }
+        if (atSegmentStart && next === undefined) {
+          out += ".*";
+          i += 1;
+          continue;
+        }
+      }
+      out += "[^/]*";
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        out += "\\[";
+        continue;
+      }
+      let cls = glob.slice(i + 1, end);
+      if (cls.startsWith("!")) cls = `^${cls.slice(1)}`;
+      out += `[${cls.replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (c === "{") {
+      braceDepth++;
+      out += "(?:";
+    } else if (c === "}" && braceDepth > 0) {
+      braceDepth--;
+      out += ")";
+    } else if (c === "," && braceDepth > 0) {
+      out += "|";
+    } else {
+      out += escapeRegExp(c);
+    }
+  }
+  return out;
+}
+
+const cache = new Map<string, RegExp>();
+
+/** Compiles a glob pattern to a RegExp matching normalized repo-relative paths. */
+export function globToRegExp(pattern: string, options: { anchored?: boolean } = {}): RegExp {
+  const key = options.anchored ? `\0${pattern}` : pattern;
+  const cached = cache.get(key);
+  if (cached) return cached;
+  let p = pattern.replace(/\\/g, "/").trim();
+  if (p.startsWith("/")) p = p.slice(1);
+  if (p.endsWith("/")) p = p.slice(0, -1);
+  const anchored = options.anchored || p.includes("/");
+  const body = translate(p);
+  const re = new RegExp(`^${anchored ? "" : "(?:.*/)?"}${body}(?:/.*)?$`);
+  cache.set(key, re);
+  return re;
+}
+
+/** Returns whether the path (backslashes normalized) matches the glob pattern. */
+export function matchesGlob(path: string, pattern: string, options: { anchored?: boolean } = {}): boolean {
+  const normalized = path.replace(/\\/g, "/").replace(/^\.\//, "");
+  return globToRegExp(pattern, options).test(normalized);
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execSync } from "child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { loadConfig, type GateConfig } from "./config";
+import { installHooks, parsePrePushInput, runHook } from "./hooks";
+
+const ZERO = "0".repeat(40);
+
+let repo: string;
+let cwd: string;
+let output: string[];
+
+function write(files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(repo, path)), { recursive: true });
+    writeFileSync(join(repo, path), content);
+  }
+}
+
+function commit(files: Record<string, string>, message: string): string {
+  write(files);
+  execSync(`git add -A && git commit -q -m "${message}"`, { cwd: repo });
+  return execSync("git rev-parse HEAD", { cwd: repo, encoding: "utf-8" }).trim();
+}
+
+function config(mode: "warn" | "block"): GateConfig {
+  return loadConfig({ env: { DECERN_GATE_HOOK_MODE: mode }, cwd: repo });
+}
+
+beforeEach(() => {
+  cwd = process.cwd();
+  repo = mkdtempSync(join(tmpdir(), "decern-gate-hooks-"));
+  execSync("git init -q && git config user.email t@example.com && git config user.name t", { cwd: repo });
+  commit({ "README.md": "hello\n" }, "init");
+  process.chdir(repo);
+  output = [];
+  vi.spyOn(console, "log").mockImplementation((line: string) => {
+    output.push(line);
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  process.chdir(cwd);
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe("parsePrePushInput", () => {
+  it("parses one update per line", () => {
+    expect(parsePrePushInput(`refs/heads/main abc refs/heads/main ${ZERO}\n\n`)).toEqual([
+      { localRef: "refs/heads/main", localSha: "abc", remoteRef: "refs/heads/main", remoteSha: ZERO },
+    ]);
+  });
+});
+
+describe("runHook — pre-commit", () => {
+  it("is silent when no high-impact file is staged", () => {
+    write({ "src/app.ts": "x\n" });
+    execSync("git add -A", { cwd: repo });
+    expect(runHook(config("block"), "pre-commit", [])).toBe(0);
+    expect(output).toEqual([]);
+  });
+
+  it("warns about staged high-impact files, even in block mode", () => {
+    write({ "db/migrations/001.sql": "x\n" });
+    execSync("git add -A", { cwd: repo });
+    expect(runHook(config("block"), "pre-commit", [])).toBe(0);
+    expect(output.join("\n")).toContain("DB: db/migrations/001.sql (db/migrations/)");
+  });
+});
+
+describe("runHook — commit-msg", () => {
+  beforeEach(() => {
+    write({ "k8s/deploy.yaml": "x\n" });
+    execSync("git add -A", { cwd: repo });
+  });
+
+  it("blocks without a ref in block mode and only warns in warn mode", () => {
+    writeFileSync(join(repo, "MSG"), "chore: bump replicas\n# ADR-001 in a comment does not count\n");
+    expect(runHook(config("block"), "commit-msg", ["MSG"])).toBe(1);
+    expect(output.join("\n")).toContain("Blocked: no decision ref");
+    expect(runHook(config("warn"), "commit-msg", ["MSG"])).toBe(0);
+  });
+
+  it("passes with a ref in the message", () => {
+    writeFileSync(join(repo, "MSG"), "chore: bump replicas (ADR-004)\n");
+    expect(runHook(config("block"), "commit-msg", ["MSG"])).toBe(0);
+    expect(output).toEqual(["decern-gate (commit-msg): high-impact change, decision ref(s): ADR-004. CI will validate them."]);
+  });
+});
+
+describe("runHook — pre-push", () => {
+  it("checks files and messages of the pushed commits", () => {
+    const base = execSync("git rev-parse HEAD", { cwd: repo, encoding: "utf-8" }).trim();
+    commit({ "terraform/main.tf": "x\n" }, "infra change");
+    const head = commit({ "src/app.ts": "x\n" }, "feat: app");
+    const stdin = `refs/heads/main ${head} refs/heads/main ${base}\n`;
+    expect(runHook(config("block"), "pre-push", [], stdin)).toBe(1);
+    expect(output.join("\n")).toContain("pushed commits (2)");
+
+    const fixed = commit({ "src/other.ts": "x\n" }, "docs: link ADR-010");
+    expect(runHook(config("block"), "pre-push", [], `refs/heads/main ${fixed} refs/heads/main ${base}\n`)).toBe(0);
+  });
+
+  it("checks commits not on any remote for a new branch, and ignores deletions", () => {
+    commit({ "Dockerfile": "FROM node\n" }, "container");
+    const head = execSync("git rev-parse HEAD", { cwd: repo, encoding: "utf-8" }).trim();
+    expect(runHook(config("block"), "pre-push", [], `refs/heads/x ${head} refs/heads/x ${ZERO}\n`)).toBe(1);
+    expect(runHook(config("block"), "pre-push", [], `(delete) ${ZERO} refs/heads/x ${head}\n`)).toBe(0);
+  });
+});
+
+describe("installHooks", () => {
+  it("installs, updates its own hooks and keeps foreign ones", () => {
+    // Drop hooks settings injected through the environment (e.g. core.hooksPath) so the default directory is used.
+    vi.stubEnv("GIT_CONFIG_COUNT", "0");
+    mkdirSync(join(repo, ".git", "hooks"), { recursive: true });
+    writeFileSync(join(repo, ".git", "hooks", "pre-push"), "#!/bin/sh\nexit 0\n");
+    expect(installHooks(repo).map((r) => [r.hook, r.status])).toEqual([
+      ["pre-commit", "installed"],
+      ["commit-msg", "installed"],
+      ["pre-push", "skipped"],
+    ]);
+    const preCommit = join(repo, ".git", "hooks", "pre-commit");
+    expect(readFileSync(preCommit, "utf-8")).toContain("decern-gate hook pre-commit");
+    expect(statSync(preCommit).mode & 0o111).not.toBe(0);
+    expect(readFileSync(join(repo, ".git", "hooks", "pre-push"), "utf-8")).toBe("#!/bin/sh\nexit 0\n");
+    expect(installHooks(repo)[0]!.status).toBe("updated");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Local git hooks: `decern-gate hook <pre-commit|commit-msg|pre-push>` runs the gate policy on staged or
+ * unpushed changes and checks for a decision ref in the commit message(s), so developers find out before CI.
+ * Hooks only check that a ref is present (no API call); CI still validates it. `install-hooks` writes the
+ * hook scripts into the repo's hooks directory without clobbering existing hooks.
+ */
+
+import { execFileSync } from "child_process";
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import type { GateConfig } from "./config.js";
+import { extractDecisionIds, formatMatchesByCategory, isDecisionRequired } from "./main.js";
+
+export const HOOK_TYPES = ["pre-commit", "commit-msg", "pre-push"] as const;
+
+export type HookType = (typeof HOOK_TYPES)[number];
+
+/** Marker line identifying hook scripts written by install-hooks (safe to update). */
+const HOOK_MARKER = "# Installed by decern-gate install-hooks.";
+
+const NULL_SHA = /^0+$/;
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], maxBuffer: 4 * 1024 * 1024 });
+}
+
+function lines(out: string): string[] {
+  return out
+    .split("\n")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function getStagedFiles(cwd?: string): string[] {
+  return lines(git(["diff", "--cached", "--name-only"], cwd));
+}
+
+/** One line of pre-push stdin: `<local ref> <local sha> <remote ref> <remote sha>`. */
+export type PushUpdate = { localRef: string; localSha: string; remoteRef: string; remoteSha: string };
+
+export function parsePrePushInput(input: string): PushUpdate[] {
+  return lines(input)
+    .map((line) => line.split(/\s+/))
+    .filter((parts) => parts.length >= 4)
+    .map(([localRef, localSha, remoteRef, remoteSha]) => ({ localRef: localRef!, localSha: localSha!, remoteRef: remoteRef!, remoteSha: remoteSha! }));
+}
+
+/**
+ * Commits being pushed: remote..local for updated refs, or commits not on any remote for new refs.
+ * Deleted refs push no commits.
+ */
+export function getPushedCommits(updates: PushUpdate[], cwd?: string): string[] {
+  const commits = new Set<string>();
+  for (const u of updates) {
+    if (NULL_SHA.test(u.localSha)) continue;
+    const range = NULL_SHA.test(u.remoteSha) ? [u.localSha, "--not", "--remotes"] : [`${u.remoteSha}..${u.localSha}`];
+    for (const sha of lines(git(["rev-list", ...range], cwd))) commits.add(sha);
+  }
+  return [...commits];
+}
+
+/** Files changed and messages of the given commits (merge commits contribute their message only). */
+export function getCommitsChanges(commits: string[], cwd?: string): { files: string[]; messages: string[] } {
+  const files = new Set<string>();
+  const messages: string[] = [];
+  for (const sha of commits) {
+    for (const file of lines(git(["diff-tree", "--no-commit-id", "--name-only", "-r", "--root", sha], cwd))) files.add(file);
+    messages.push(git(["log", "-1", "--format=%B", sha], cwd));
+  }
+  return { files: [...files], messages };
+}
+
+/** Commit message as git will record it: comment lines dropped (default cleanup mode). */
+function readCommitMessage(path: string): string {
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n");
+}
+
+type HookCheck = { files: string[]; text?: string; what: string };
+
+/** Applies the policy to the hook's files and refs; returns exit code. */
+function checkHook(config: GateConfig, hook: HookType, { files, text, what }: HookCheck): number {
+  const policy = isDecisionRequired(files, {
+    extraPatterns: config.extraPatterns,
+    categories: config.categories,
+    packages: config.packages,
+    policyPaths: config.policyPaths,
+    waivers: config.waivers,
+  });
+  if (!policy.required) return 0;
+
+  if (text !== undefined) {
+    const ids = extractDecisionIds(text);
+    if (ids.length > 0) {
+      console.log(`decern-gate (${hook}): high-impact change, decision ref(s): ${ids.join(", ")}. CI will validate them.`);
+      return 0;
+    }
+  }
+
+  const block = config.hooks.mode === "block" && text !== undefined;
+  console.log(`decern-gate (${hook}): ${what} touch high-impact files:`);
+  for (const line of formatMatchesByCategory(policy.matched)) console.log(line);
+  if (text === undefined) {
+    console.log("Add a decision ref (decern:<id> or ADR-XXX) to the commit message; the CI gate requires an approved decision.");
+    return 0;
+  }
+  console.log(
+    `${block ? "Blocked" : "Warning"}: no decision ref (decern:<id> or ADR-XXX) in the commit message. The CI gate will require an approved decision.`
+  );
+  if (block) console.log("Add a ref, or bypass this hook with --no-verify.");
+  return block ? 1 : 0;
+}
+
+/**
+ * Runs one hook; returns exit code (1 only when hooks.mode is "block" and a ref is missing).
+ * - pre-commit: staged files; the message is not known yet, so it only warns.
+ * - commit-msg: staged files and the message file (args[0]).
+ * - pre-push: files and messages of the pushed commits (ref updates read from stdin).
+ */
+export function runHook(config: GateConfig, hook: HookType, args: string[], stdin = ""): number {
+  try {
+    switch (hook) {
+      case "pre-commit":
+        return checkHook(config, hook, { files: getStagedFiles(), what: "staged changes" });
+      case "commit-msg": {
+        const messageFile = args[0];
+        if (!messageFile) {
+          console.log("decern-gate (commit-msg): missing commit message file argument.");
+          return 1;
+        }
+        return checkHook(config, hook, { files: getStagedFiles(), text: readCommitMessage(messageFile), what: "staged changes" });
+      }
+      case "pre-push": {
+        const commits = getPushedCommits(parsePrePushInput(stdin));
+        if (commits.length === 0) return 0;
+        const { files, messages } = getCommitsChanges(commits);
+        return checkHook(config, hook, { files, text: messages.join("\n\n"), what: `pushed commits (${commits.length})` });
+      }
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message.split("\n")[0] : String(e);
+    console.log(`decern-gate (${hook}): git error — ${message}`);
+    return config.hooks.mode === "block" ? 1 : 0;
+  }
+}
+
+function hookScript(hook: HookType): string {
+  return [
+    "#!/bin/sh",
+    HOOK_MARKER,
+    "if command -v decern-gate >/dev/null 2>&1; then",
+    `  exec decern-gate hook ${hook} "$@"`,
+    "fi",
+    `exec npx --no-install decern-gate hook ${hook} "$@"`,
+    "",
+  ].join("\n");
+}
+
+export type HookInstallResult = { hook: HookType; path: string; status: "installed" | "updated" | "skipped" };
+
+/**
+ * Writes hook scripts into the hooks directory (`git rev-parse --git-path hooks`, so core.hooksPath is honored).
+ * Existing hooks not written by decern-gate are left untouched ("skipped").
+ */
+export function installHooks(cwd: string = process.cwd()): HookInstallResult[] {
+  const dir = resolve(cwd, git(["rev-parse", "--git-path", "hooks"], cwd).trim());
+  mkdirSync(dir, { recursive: true });
+  return HOOK_TYPES.map((hook) => {
+    const path = join(dir, hook);
+    let status: HookInstallResult["status"] = "installed";
+    if (existsSync(path)) {
+      if (!readFileSync(path, "utf-8").includes(HOOK_MARKER)) return { hook, path, status: "skipped" };
+      status = "updated";
+    }
+    writeFileSync(path, hookScript(hook));
+    chmodSync(path, 0o755);
+    return { hook, path, status };
+  });
+}
+
+/** Runs install-hooks; returns exit code (0 = done, 1 = not a git repo). */
+export function runInstallHooks(cwd?: string): number {
+  let results: HookInstallResult[];
+  try {
+    results = installHooks(cwd);
+  } catch {
+    console.log("install-hooks: not a git repository.");
+    return 1;
+  }
+  for (const { hook, path, status } of results) {
+    if (status === "skipped") {
+      console.log(`${hook}: skipped — ${path} already exists. To chain it, add: decern-gate hook ${hook} "$@" || exit $?`);
+    } else {
+      console.log(`${hook}: ${status} (${path})`);
+    }
+  }
+  return 0;
+}
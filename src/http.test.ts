@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { backoffDelay, fetchWithRetry, parseRetryAfter, RequestTimeoutError, type RetryOptions } from "./http";
+import { validateRef } from "./decern-api";
+import { loadConfig } from "./config";
+
+const FAST: RetryOptions = { attempts: 3, baseDelayMs: 1, maxDelayMs: 5, budgetMs: 5000 };
+
+let server: Server;
+let url: string;
+let handler: (req: IncomingMessage, res: ServerResponse, hit: number) => void;
+let hits: number;
+
+beforeEach(async () => {
+  hits = 0;
+  server = createServer((req, res) => handler(req, res, ++hits));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function reply(res: ServerResponse, status: number, body: unknown = {}, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+describe("parseRetryAfter", () => {
+  it("parses delta seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:03 GMT", now)).toBe(3000);
+    expect(parseRetryAfter("Sun, 31 Dec 2023 23:59:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per retry, is capped, and keeps half of the delay fixed", () => {
+    const opts = { baseDelayMs: 100, maxDelayMs: 300 };
+    expect(backoffDelay(1, opts, () => 0)).toBe(50);
+    expect(backoffDelay(1, opts, () => 1)).toBe(100);
+    expect(backoffDelay(2, opts, () => 1)).toBe(200);
+    expect(backoffDelay(5, opts, () => 1)).toBe(300);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  it("retries 502/503 and logs each attempt", async () => {
+    handler = (_req, res, hit) => reply(res, hit < 3 ? (hit === 1 ? 502 : 503) : 200, { ok: hit });
+    const lines: string[] = [];
+    const res = await fetchWithRetry(url, {}, { timeoutMs: 1000, retry: FAST, label: "Validate ADR-001", log: (l) => lines.push(l) });
+    expect(res.status).toBe(200);
+    expect(hits).toBe(3);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^Validate ADR-001: attempt 2\/3 \(previous: HTTP 502; waited 0\.0s\)$/);
+    expect(lines[1]).toMatch(/attempt 3\/3 \(previous: HTTP 503;/);
+  });
+
+  it("does not retry other statuses", async () => {
+    handler = (_req, res) => reply(res, 404);
+    expect((await fetchWithRetry(url, {}, { timeoutMs: 1000, retry: FAST, label: "x" })).status).toBe(404);
+    expect(hits).toBe(1);
+  });
+
+  it("returns the last retryable response when attempts run out", async () => {
+    handler = (_req, res) => reply(res, 429);
+    expect((await fetchWithRetry(url, {}, { timeoutMs: 1000, retry: FAST, label: "x" })).status).toBe(429);
+    expect(hits).toBe(3);
+  });
+
+  it("honors Retry-After on 429", async () => {
+    handler = (_req, res, hit) => (hit === 1 ? reply(res, 429, {}, { "Retry-After": "1" }) : reply(res, 200));
+    const lines: string[] = [];
+    const started = Date.now();
+    const res = await fetchWithRetry(url, {}, { timeoutMs: 1000, retry: FAST, label: "x", log: (l) => lines.push(l) });
+    expect(res.status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(990);
+    expect(lines[0]).toContain("waited 1.0s");
+  });
+
+  it("stops when Retry-After exceeds the deadline budget", async () => {
+    handler = (_req, res) => reply(res, 503, {}, { "Retry-After": "60" });
+    const res = await fetchWithRetry(url, {}, { timeoutMs: 1000, retry: { ...FAST, budgetMs: 2000 }, label: "x" });
+    expect(res.status).toBe(503);
+    expect(hits).toBe(1);
+  });
+
+  it("retries timeouts and throws a RequestTimeoutError when all attempts time out", async () => {
+    handler = () => {};
+    await expect(
+      fetchWithRetry(url, {}, { timeoutMs: 50, retry: { ...FAST, attempts: 2 }, label: "x" })
+    ).rejects.toMatchObject({ name: "TimeoutError", timeoutMs: 50 });
+    expect(hits).toBe(2);
+  });
+
+  it("reports the timeout an attempt actually had when the budget cuts it short", async () => {
+    handler = () => {};
+    const error = await fetchWithRetry(url, {}, { timeoutMs: 5000, retry: { ...FAST, attempts: 1, budgetMs: 100 }, label: "x" }).catch((e) => e);
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect(error.timeoutMs).toBeLessThanOrEqual(100);
+  });
+});
+
+describe("validateRef — retries", () => {
+  it("succeeds after a transient 503", async () => {
+    handler = (_req, res, hit) => (hit === 1 ? reply(res, 503) : reply(res, 200, { valid: true, status: "approved" }));
+    const config = {
+      ...loadConfig({ env: { DECERN_BASE_URL: url, DECERN_CI_TOKEN: "t" }, cwd: process.cwd() }),
+      retry: FAST,
+    };
+    const lines: string[] = [];
+    expect(await validateRef(config, "ADR-001", { log: (l) => lines.push(l) })).toMatchObject({
+      ok: true,
+      decisionStatus: "approved",
+    });
+    expect(lines[0]).toMatch(/^Validate ADR-001: attempt 2\/3/);
+  });
+
+  it("fails closed when retries are exhausted", async () => {
+    handler = (_req, res) => reply(res, 502, { reason: "bad_gateway" });
+    const config = {
+      ...loadConfig({ env: { DECERN_BASE_URL: url, DECERN_CI_TOKEN: "t" }, cwd: process.cwd() }),
+      retry: FAST,
+    };
+    expect(await validateRef(config, "ADR-001")).toMatchObject({ ok: false, status: 502, reason: "Bad Gateway" });
+    expect(hits).toBe(3);
+  });
+
+  it("reports the effective timeout of the last attempt", async () => {
+    handler = () => {};
+    const config = {
+      ...loadConfig({ env: { DECERN_BASE_URL: url, DECERN_CI_TOKEN: "t" }, cwd: process.cwd() }),
+      timeoutMs: 5000,
+      retry: { ...FAST, attempts: 1, budgetMs: 80 },
+    };
+    const result = await validateRef(config, "ADR-001");
+    expect(result).toMatchObject({ ok: false, status: 0, reason: expect.stringMatching(/^Request timeout after \d+ms\.$/) });
+    expect(result.ok === false && Number(result.reason.match(/\d+/)![0])).toBeLessThanOrEqual(80);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * fetch with per-attempt timeout and retries for transient failures: timeouts, network errors and
+ * HTTP 429/502/503/504. Backoff is exponential with jitter; Retry-After (seconds or HTTP date) is honored
+ * on 429/503. All attempts and waits stay within an overall deadline budget.
+ */
+
+export type RetryOptions = {
+  /** Total attempts, including the first (1 = no retries). */
+  attempts: number;
+  /** Backoff before the first retry; doubles on each retry. */
+  baseDelayMs: number;
+  /** Upper bound for the computed backoff (Retry-After is not capped by it). */
+  maxDelayMs: number;
+  /** Deadline for all attempts and waits together. */
+  budgetMs: number;
+};
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/** Parses a Retry-After header (delta seconds or HTTP date) into milliseconds from now. */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  const v = value?.trim();
+  if (!v) return undefined;
+  if (/^\d+$/.test(v)) return Number(v) * 1000;
+  const date = Date.parse(v);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Backoff before retry number `retry` (1-based): exponential, capped, with equal jitter (half fixed, half random). */
+export function backoffDelay(retry: number, options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">, random: () => number = Math.random): number {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/** Thrown when an attempt times out; timeoutMs is the timeout that attempt had (less than configured when the budget cut it short). */
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`timeout after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function describeError(e: unknown): string {
+  if (e instanceof RequestTimeoutError) return "timeout";
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Fetches with retries. Returns the last response (also a retryable one when attempts or budget run out);
+ * throws the last error (RequestTimeoutError, or the network error) when no attempt got a response.
+ * `log` receives one line per retry, e.g. "Validate ADR-001: attempt 2/3 (previous: HTTP 503; waited 1.2s)".
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: { timeoutMs: number; retry: RetryOptions; label: string; log?: (line: string) => void }
+): Promise<Response> {
+  const { timeoutMs, retry, label, log } = options;
+  const attempts = Math.max(1, retry.attempts);
+  const started = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const remaining = retry.budgetMs - (Date.now() - started);
+    const attemptTimeoutMs = Math.max(1, Math.min(timeoutMs, remaining));
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), attemptTimeoutMs);
+    let response: Response | undefined;
+    let error: unknown;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (e) {
+      error = controller.signal.aborted ? new RequestTimeoutError(attemptTimeoutMs) : e;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const retryable = response ? RETRYABLE_STATUSES.has(response.status) : true;
+    if (!retryable || attempt >= attempts) {
+      if (response) return response;
+      throw error;
+    }
+
+    const retryAfter =
+      response && RETRY_AFTER_STATUSES.has(response.status) ? parseRetryAfter(response.headers.get("retry-after")) : undefined;
+    const delay = retryAfter ?? backoffDelay(attempt, retry);
+    if (Date.now() - started + delay >= retry.budgetMs) {
+      if (response) return response;
+      throw error;
+    }
+    if (response) await response.body?.cancel().catch(() => {});
+
+    const previous = response ? `HTTP ${response.status}` : describeError(error);
+    await sleep(delay);
+    log?.(`${label}: attempt ${attempt + 1}/${attempts} (previous: ${previous}; waited ${(delay / 1000).toFixed(1)}s)`);
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { decisionFingerprint, judgeCacheKey, judgeModelLabel, readJudgeCache, writeJudgeCache } from "./judge-cache";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const params = { ref: "ADR-001", decision: "d1", diff: "diff --git a/x b/x\n+1\n", truncated: false, model: "decern-default" };
+
+describe("judgeCacheKey", () => {
+  it("is stable for the same inputs and changes with ref, decision, diff, truncation and model", () => {
+    const key = judgeCacheKey(params);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(judgeCacheKey({ ...params, ref: " ADR-001 " })).toBe(key);
+    for (const changed of [{ ref: "ADR-002" }, { decision: "d2" }, { diff: `${params.diff}+2\n` }, { truncated: true }, { model: "gpt-4o" }]) {
+      expect(judgeCacheKey({ ...params, ...changed })).not.toBe(key);
+    }
+  });
+});
+
+describe("decisionFingerprint", () => {
+  it("changes when the decision's title or content changes", () => {
+    const fingerprint = decisionFingerprint({ title: "Use Postgres", content: "We use Postgres." });
+    expect(decisionFingerprint({ title: "Use Postgres", content: "We use Postgres." })).toBe(fingerprint);
+    expect(decisionFingerprint({ title: "Use Postgres", content: "We use MySQL." })).not.toBe(fingerprint);
+    expect(decisionFingerprint({ content: "We use Postgres." })).not.toBe(fingerprint);
+  });
+});
+
+describe("judgeModelLabel", () => {
+  it("uses the BYO LLM endpoint and model, or the Decern default", () => {
+    expect(judgeModelLabel({ judge: { llm: {} } } as never)).toBe("decern-default");
+    expect(judgeModelLabel({ judge: { llm: { baseUrl: "https://llm.test/v1", model: "m" } } } as never)).toBe("https://llm.test/v1#m");
+    expect(judgeModelLabel({ judge: { mode: "standalone", llm: { model: "m" } } } as never)).toBe("standalone:#m");
+  });
+});
+
+describe("readJudgeCache / writeJudgeCache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(mkdtempSync(join(tmpdir(), "decern-gate-cache-")), "nested");
+  });
+
+  afterEach(() => {
+    rmSync(join(dir, ".."), { recursive: true, force: true });
+  });
+
+  it("round-trips successful results and creates the directory", () => {
+    const key = judgeCacheKey(params);
+    expect(readJudgeCache(dir, key)).toBeUndefined();
+    const result = { ok: true as const, allowed: true, confidence: 0.8, reason: "Matches" };
+    writeJudgeCache(dir, key, "ADR-001", "decern-default", result);
+    expect(readJudgeCache(dir, key)).toEqual(result);
+  });
+
+  it("never caches failed requests", () => {
+    writeJudgeCache(dir, "k", "ADR-001", "decern-default", { ok: false, status: 503, reason: "unavailable" });
+    expect(() => readdirSync(dir)).toThrow();
+  });
+
+  it("ignores corrupt entries and other versions", () => {
+    writeJudgeCache(dir, "a", "ADR-001", "m", { ok: true, allowed: true });
+    writeFileSync(join(dir, "a.json"), "{not json");
+    expect(readJudgeCache(dir, "a")).toBeUndefined();
+    writeFileSync(join(dir, "b.json"), JSON.stringify({ version: 0, result: { ok: true, allowed: true } }));
+    expect(readJudgeCache(dir, "b")).toBeUndefined();
+  });
+});
+
+describe("run — judge cache", () => {
+  const g = useGateRepo();
+
+  let head: string;
+  let cacheDir: string;
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), "decern-gate-judge-cache-"));
+    vi.stubEnv("DECERN_GATE_CACHE_DIR", cacheDir);
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+        "docs/adr/0011-cache.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    head = g.commit({ "k8s/deploy.yaml": "kind: Deployment\n" }, "implements ADR-010 and ADR-011");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const { adrRef } = JSON.parse(init.body) as { adrRef: string };
+        const verdict =
+          adrRef === "ADR-010"
+            ? { allowed: true, confidence: 0.9, reason: "Matches" }
+            : { allowed: false, confidence: 0.3, reason: "Cache not described" };
+        return new Response(JSON.stringify(verdict), { status: 200 });
+      })
+    );
+  });
+
+  it("reuses cached verdicts for an unchanged diff unless --no-cache", async () => {
+    const fetchMock = vi.mocked(fetch);
+    const first = await g.runJson();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(first.report.judges!.map((j) => j.cached)).toEqual([undefined, undefined]);
+
+    const second = await g.runJson();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(second.code).toBe(1);
+    expect(second.report.judges!.map((j) => [j.ref, j.passed, j.cached])).toEqual([
+      ["ADR-010", true, true],
+      ["ADR-011", false, true],
+    ]);
+
+    await g.runJson({ noCache: true });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("re-judges a cached diff when the decision text changes", async () => {
+    const fetchMock = vi.mocked(fetch);
+    await g.runJson();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    execSync(`git checkout -q ${g.base}`, { cwd: g.dir });
+    g.base = g.commit({ "docs/adr/0011-cache.md": "---\nstatus: accepted\n---\nUse Redis.\n" }, "edit ADR-011");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", g.commit({ "k8s/deploy.yaml": "kind: Deployment\n" }, "implements ADR-010 and ADR-011"));
+    const { report } = await g.runJson();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(report.judges!.map((j) => [j.ref, j.cached])).toEqual([
+      ["ADR-010", true],
+      ["ADR-011", undefined],
+    ]);
+  });
+});
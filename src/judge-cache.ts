@@ -0,0 +1,64 @@
+/**
+ * Judge result cache: a directory of JSON files keyed by decision ref and content, diff content hash and
+ * judge model, so pipeline reruns with an unchanged diff and decision reuse the verdict instead of calling
+ * the LLM again.
+ * Point `cache.dir` at a path your CI cache step persists. Only successful judge responses are cached.
+ */
+
+import { createHash } from "crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { GateConfig } from "./config.js";
+import type { JudgeResult } from "./decern-api.js";
+
+const CACHE_VERSION = 2;
+
+type CacheEntry = {
+  version: typeof CACHE_VERSION;
+  ref: string;
+  model: string;
+  createdAt: string;
+  result: Extract<JudgeResult, { ok: true }>;
+};
+
+/** Judge model label for the key: BYO LLM endpoint and model (prefixed in standalone mode), or the Decern default. */
+export function judgeModelLabel(config: Pick<GateConfig, "judge">): string {
+  const { llm, mode } = config.judge;
+  const label = llm.model ? `${llm.baseUrl ?? ""}#${llm.model}` : "decern-default";
+  return mode === "standalone" ? `standalone:${label}` : label;
+}
+
+/** sha256 of a decision's title and content: an edited decision gets a new cache key. */
+export function decisionFingerprint(decision: { title?: string; content: string }): string {
+  return createHash("sha256").update(JSON.stringify([decision.title ?? null, decision.content])).digest("hex");
+}
+
+/**
+ * sha256 over the ref, the decision fingerprint ("" when unknown), the exact diff sent (and its truncated
+ * flag) and the judge model.
+ */
+export function judgeCacheKey(params: { ref: string; decision: string; diff: string; truncated: boolean; model: string }): string {
+  return createHash("sha256")
+    .update(JSON.stringify([CACHE_VERSION, params.ref.trim(), params.decision, params.model, params.truncated]))
+    .update("\n")
+    .update(params.diff)
+    .digest("hex");
+}
+
+/** Returns the cached judge result for the key, or undefined (missing, unreadable or from another version). */
+export function readJudgeCache(dir: string, key: string): Extract<JudgeResult, { ok: true }> | undefined {
+  try {
+    const entry = JSON.parse(readFileSync(join(dir, `${key}.json`), "utf-8")) as Partial<CacheEntry>;
+    return entry.version === CACHE_VERSION && entry.result?.ok === true ? entry.result : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Stores a successful judge result; failures (ok: false) are never cached. Throws on write errors. */
+export function writeJudgeCache(dir: string, key: string, ref: string, model: string, result: JudgeResult): void {
+  if (!result.ok) return;
+  mkdirSync(dir, { recursive: true });
+  const entry: CacheEntry = { version: CACHE_VERSION, ref: ref.trim(), model, createdAt: new Date().toISOString(), result };
+  writeFileSync(join(dir, `${key}.json`), `${JSON.stringify(entry, null, 2)}\n`);
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import { mergeChunkResults, packDiffChunks, splitAtHunks } from "./judge-chunks";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const header = (path: string) => `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}`;
+const hunk = (n: number, size: number) => `@@ -${n},1 +${n},1 @@\n+${"x".repeat(size)}`;
+const segment = (path: string, ...hunks: string[]) => [header(path), ...hunks].join("\n");
+
+describe("splitAtHunks", () => {
+  it("splits at hunk boundaries and repeats the file header in every piece", () => {
+    const { pieces, complete } = splitAtHunks(segment("a.ts", hunk(1, 60), hunk(10, 60), hunk(20, 60)), 200);
+    expect(complete).toBe(true);
+    expect(pieces).toHaveLength(3);
+    for (const piece of pieces) {
+      expect(piece.startsWith(header("a.ts"))).toBe(true);
+      expect(Buffer.byteLength(piece)).toBeLessThanOrEqual(200);
+    }
+    expect(pieces[1]).toContain("@@ -10,1 +10,1 @@");
+  });
+
+  it("keeps hunks together while they fit", () => {
+    expect(splitAtHunks(segment("a.ts", hunk(1, 10), hunk(2, 10), hunk(3, 200)), 150).pieces).toHaveLength(1);
+  });
+
+  it("drops hunks larger than a chunk", () => {
+    const { pieces, complete } = splitAtHunks(segment("a.ts", hunk(1, 10), hunk(2, 500)), 150);
+    expect(complete).toBe(false);
+    expect(pieces).toEqual([segment("a.ts", hunk(1, 10))]);
+  });
+});
+
+describe("packDiffChunks", () => {
+  it("packs whole files in order until a chunk is full", () => {
+    const files = ["a.ts", "b.ts", "c.ts"].map((path) => ({ path, segment: segment(path, hunk(1, 40)) }));
+    const { chunks, unjudgedFiles } = packDiffChunks(files, 250, 10);
+    expect(chunks.map((c) => c.files)).toEqual([["a.ts", "b.ts"], ["c.ts"]]);
+    expect(chunks[0]!.diff).toBe(`${files[0]!.segment}\n${files[1]!.segment}`);
+    expect(unjudgedFiles).toEqual([]);
+  });
+
+  it("splits large files and reports what exceeds the chunk limit", () => {
+    const files = [
+      { path: "big.ts", segment: segment("big.ts", hunk(1, 100), hunk(50, 100)) },
+      { path: "huge.ts", segment: segment("huge.ts", hunk(1, 1000)) },
+      { path: "late.ts", segment: segment("late.ts", hunk(1, 100)) },
+    ];
+    const { chunks, unjudgedFiles } = packDiffChunks(files, 200, 2);
+    expect(chunks.map((c) => c.files)).toEqual([["big.ts"], ["big.ts"]]);
+    expect(unjudgedFiles).toEqual(["huge.ts", "late.ts"]);
+  });
+});
+
+describe("mergeChunkResults", () => {
+  it("returns a single result unchanged", () => {
+    const result = { ok: true as const, allowed: true as const, confidence: 0.7 };
+    expect(mergeChunkResults([result])).toBe(result);
+  });
+
+  it("allows when every chunk allows, with the lowest confidence and combined reasons", () => {
+    expect(
+      mergeChunkResults([
+        { ok: true, allowed: true, confidence: 0.9, reason: "Schema matches." },
+        { ok: true, allowed: true, confidence: 0.6, reason: "Service matches.", advisoryMessage: "Missing tests." },
+      ])
+    ).toEqual({
+      ok: true,
+      allowed: true,
+      confidence: 0.6,
+      reason: "[1/2] Schema matches. [2/2] Service matches.",
+      advisoryMessage: "[2/2] Missing tests.",
+    });
+  });
+
+  it("rejects when one chunk rejects; advisory only if every rejection is", () => {
+    const merged = mergeChunkResults([
+      { ok: true, allowed: true, confidence: 0.9 },
+      { ok: true, allowed: false, reason: "Adds MongoDB.", confidence: 0.2 },
+      { ok: true, allowed: false, reason: "Bypasses the queue.", advisory: true },
+    ]);
+    expect(merged).toEqual({
+      ok: true,
+      allowed: false,
+      reason: "[2/3] Adds MongoDB. [3/3] Bypasses the queue.",
+      advisory: undefined,
+      confidence: 0.2,
+    });
+    expect(mergeChunkResults([{ ok: true, allowed: true }, { ok: true, allowed: false, reason: "r", advisory: true }])).toMatchObject({
+      allowed: false,
+      advisory: true,
+    });
+  });
+
+  it("fails when any chunk request fails", () => {
+    expect(mergeChunkResults([{ ok: true, allowed: true }, { ok: false, status: 503, reason: "HTTP 503" }])).toEqual({
+      ok: false,
+      status: 503,
+      reason: "[2/2] HTTP 503",
+    });
+  });
+});
+
+describe("run — chunked judge", () => {
+  const g = useGateRepo();
+
+  it("judges large diffs in chunks and merges the verdicts", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n  chunking:\n    enabled: true\n    maxBytes: 4096\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit(
+      {
+        "k8s/deploy.yaml": `kind: Deployment\n${"# padding\n".repeat(300)}`,
+        "k8s/service.yaml": `kind: Service\n${"# padding\n".repeat(300)}`,
+      },
+      "implements ADR-010"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    const bodies: { chunk?: { index: number; total: number }; diff: string }[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const body = JSON.parse(init.body) as { chunk?: { index: number; total: number }; diff: string };
+        bodies.push(body);
+        return new Response(JSON.stringify({ allowed: true, confidence: body.chunk?.index === 1 ? 0.9 : 0.7, reason: "ok" }), { status: 200 });
+      })
+    );
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(bodies.map((b) => b.chunk)).toEqual([{ index: 1, total: 2 }, { index: 2, total: 2 }]);
+    expect(bodies.every((b) => Buffer.byteLength(b.diff) <= 4096)).toBe(true);
+    expect(report.judge).toMatchObject({ chunks: 2, confidence: 0.7, unjudgedFiles: [], reason: "[1/2] ok [2/2] ok" });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Map-reduce judging for large diffs: per-file diff segments are packed into size-bounded chunks, split
+ * at hunk boundaries when one file is larger than a chunk (each piece keeps the file header). Every chunk
+ * is judged separately; the verdicts are merged into one (lowest confidence, combined reasons).
+ */
+
+import type { JudgeResult } from "./decern-api.js";
+
+export type DiffChunk = { diff: string; files: string[] };
+
+export type ChunkedDiff = {
+  chunks: DiffChunk[];
+  /** Files left out entirely or partly: a hunk larger than a chunk, or past the chunk limit. */
+  unjudgedFiles: string[];
+};
+
+function bytes(s: string): number {
+  return Buffer.byteLength(s, "utf-8");
+}
+
+/**
+ * Splits one file's diff segment at hunk ("@@ ") boundaries into pieces of at most maxBytes, each
+ * starting with the file header. Hunks that do not fit on their own are dropped (complete = false).
+ */
+export function splitAtHunks(segment: string, maxBytes: number): { pieces: string[]; complete: boolean } {
+  const parts = segment.split(/\n(?=@@ )/);
+  const header = parts[0]!;
+  const hunks = parts.slice(1);
+  if (hunks.length === 0) return bytes(segment) <= maxBytes ? { pieces: [segment], complete: true } : { pieces: [], complete: false };
+
+  const pieces: string[] = [];
+  let complete = true;
+  let current = "";
+  for (const hunk of hunks) {
+    if (bytes(header) + 1 + bytes(hunk) > maxBytes) {
+      complete = false;
+      continue;
+    }
+    if (current && bytes(current) + 1 + bytes(hunk) <= maxBytes) {
+      current += `\n${hunk}`;
+    } else {
+      if (current) pieces.push(current);
+      current = `${header}\n${hunk}`;
+    }
+  }
+  if (current) pieces.push(current);
+  return { pieces, complete };
+}
+
+/** Packs file segments (in diff order) into at most maxChunks chunks of at most maxBytes each. */
+export function packDiffChunks(files: { path: string; segment: string }[], maxBytes: number, maxChunks: number): ChunkedDiff {
+  const chunks: DiffChunk[] = [];
+  const unjudged = new Set<string>();
+  let current: DiffChunk | undefined;
+
+  for (const { path, segment } of files) {
+    const { pieces, complete } = bytes(segment) <= maxBytes ? { pieces: [segment], complete: true } : splitAtHunks(segment, maxBytes);
+    if (!complete) unjudged.add(path);
+    for (const piece of pieces) {
+      if (current && bytes(current.diff) + 1 + bytes(piece) <= maxBytes) {
+        current.diff += `\n${piece}`;
+        if (current.files[current.files.length - 1] !== path) current.files.push(path);
+        continue;
+      }
+      if (chunks.length >= maxChunks) {
+        unjudged.add(path);
+        continue;
+      }
+      current = { diff: piece, files: [path] };
+      chunks.push(current);
+    }
+  }
+  return { chunks, unjudgedFiles: [...unjudged] };
+}
+
+/**
+ * Merges per-chunk verdicts: any failed request fails the whole judge; any rejection rejects (advisory
+ * only when every rejection is); otherwise allowed. Confidence is the lowest reported; reasons are
+ * prefixed with their chunk ("[2/3] ...") and joined.
+ */
+export function mergeChunkResults(results: JudgeResult[]): JudgeResult {
+  if (results.length === 1) return results[0]!;
+  const label = (i: number) => `[${i + 1}/${results.length}]`;
+  const entries = results.map((result, i) => ({ result, i }));
+
+  const failed = entries.filter((e) => !e.result.ok);
+  if (failed.length > 0) {
+    const first = failed[0]!.result as Extract<JudgeResult, { ok: false }>;
+    return {
+      ok: false,
+      status: first.status,
+      reason: failed.map((e) => `${label(e.i)} ${(e.result as Extract<JudgeResult, { ok: false }>).reason}`).join(" "),
+    };
+  }
+
+  const ok = entries as { result: Extract<JudgeResult, { ok: true }>; i: number }[];
+  const confidences = ok.map((e) => e.result.confidence).filter((c): c is number => c != null);
+  const confidence = confidences.length > 0 ? Math.min(...confidences) : undefined;
+  const join = (list: { text?: string; i: number }[]) =>
+    list
+      .filter((e) => e.text)
+      .map((e) => `${label(e.i)} ${e.text}`)
+      .join(" ") || undefined;
+
+  const rejected = ok.filter((e) => !e.result.allowed);
+  if (rejected.length > 0) {
+    return {
+      ok: true,
+      allowed: false,
+      reason: join(rejected.map((e) => ({ text: e.result.reason, i: e.i }))) ?? "Judge did not allow the change.",
+      advisory: rejected.every((e) => !e.result.allowed && e.result.advisory === true) || undefined,
+      confidence,
+    };
+  }
+  return {
+    ok: true,
+    allowed: true,
+    reason: join(ok.map((e) => ({ text: e.result.reason, i: e.i }))),
+    confidence,
+    advisoryMessage: join(ok.map((e) => ({ text: e.result.allowed ? e.result.advisoryMessage : undefined, i: e.i }))),
+  };
+}
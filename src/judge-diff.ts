@@ -2,12 +2,21 @@
  * Builds the diff payload for the judge API: full diff with exclusions and 2MB cap.
  * - Excludes image/binary and per-file diffs > 1MB (with warning).
  * - Total diff sent to backend is at most 2MB; if larger, truncate and set truncated flag.
+ * With judge.chunking, the diff is instead split into size-bounded chunks (see judge-chunks.ts).
+ * Secrets are redacted per file before any size accounting (see redact.ts).
+ * Files matched by .decernjudgeignore / judge.ignore are left out as ignoredFiles (see judge-ignore.ts).
+ * Lockfile patches are replaced with a package-level summary (see lockfile-summary.ts).
  */
 
-import { execSync } from "child_process";
+import { execFileSync } from "child_process";
+import { packDiffChunks, type DiffChunk } from "./judge-chunks.js";
+import { JUDGE_IGNORE_FILE, judgeIgnoreRuleFor, type JudgeIgnoreRule } from "./judge-ignore.js";
+import { lockfileName, manifestPathFor, parseManifest, summarizeLockfile } from "./lockfile-summary.js";
+import { redactSegment, type SecretRule } from "./redact.js";
 
 const MAX_DIFF_BYTES = 2 * 1024 * 1024; // 2MB operational limit
 const MAX_FILE_DIFF_BYTES = 1 * 1024 * 1024; // 1MB per file — exclude file if its diff exceeds this
+const MAX_CHUNKED_READ_BYTES = 64 * 1024 * 1024; // chunked mode reads large refactors in full
 
 /** Extensions treated as image/heavy; these files are excluded from the diff sent to judge. */
 const IMAGE_OR_HEAVY_EXTENSIONS = new Set(
@@ -30,21 +39,32 @@ export type JudgeDiffResult = {
   truncated: boolean;
   base: string;
   head: string;
+  /** Chunked mode: the batches to judge separately (diff is then all chunks joined). */
+  chunks?: DiffChunk[];
+  /** Chunked mode: files not judged, or only partly (hunk larger than a chunk, or past the chunk limit). */
+  unjudgedFiles?: string[];
+  /** Files left out by .decernjudgeignore / judge.ignore rules. */
+  ignoredFiles?: string[];
+  /** Lockfiles whose patch was replaced with a package-level summary. */
+  summarizedLockfiles?: string[];
+  /** Secrets redacted before sending, per file (files without redactions are omitted). */
+  redactions?: Record<string, number>;
 };
 
 /**
- * Returns base and head refs used for diff (same logic as getChangedFiles).
+ * Returns base and head refs used for diff (same logic as getChangedFiles). `cwd` is the directory git
+ * runs in (default: the process cwd).
  */
-export function getBaseAndHead(ciBaseSha?: string, ciHeadSha?: string): { base: string; head: string } {
+export function getBaseAndHead(ciBaseSha?: string, ciHeadSha?: string, cwd?: string): { base: string; head: string } {
   if (ciBaseSha?.trim() && ciHeadSha?.trim()) {
     return { base: ciBaseSha.trim(), head: ciHeadSha.trim() };
   }
   try {
-    execSync("git rev-parse --verify origin/main", { stdio: "pipe" });
+    execFileSync("git", ["rev-parse", "--verify", "origin/main"], { cwd, stdio: "pipe" });
     return { base: "origin/main", head: "HEAD" };
   } catch {
     try {
-      execSync("git rev-parse --verify origin/master", { stdio: "pipe" });
+      execFileSync("git", ["rev-parse", "--verify", "origin/master"], { cwd, stdio: "pipe" });
       return { base: "origin/master", head: "HEAD" };
     } catch {
       return { base: "HEAD~1", head: "HEAD" };
@@ -78,21 +98,158 @@ function segmentIsBinary(segment: string): boolean {
   return segment.includes("Binary files ") && segment.includes(" differ");
 }
 
+export type JudgeDiffOptions = {
+  /** Secret rules applied to every included file diff (see redact.ts); empty or absent = no redaction. */
+  secretRules?: SecretRule[];
+  /** Ignore rules (see judge-ignore.ts); matching files are not sent and are listed in ignoredFiles. */
+  ignore?: JudgeIgnoreRule[];
+  /** Replace lockfile patches with a package-level summary (default true). */
+  lockfileSummaries?: boolean;
+};
+
+/**
+ * Reads `git diff base...head`; undefined when git fails (bad refs, or more than maxBuffer bytes).
+ * Refs come from CI env (branch names may hold shell syntax), so git is run without a shell.
+ */
+function readDiff(base: string, head: string, maxBuffer: number): string | undefined {
+  try {
+    return execFileSync("git", ["diff", `${base}...${head}`], { encoding: "utf-8", maxBuffer });
+  } catch {
+    return undefined;
+  }
+}
+
+/** Reads a file at a ref; undefined when it does not exist there. Paths come from the diff, so no shell. */
+function readAtRef(ref: string, path: string): string | undefined {
+  try {
+    return execFileSync("git", ["show", `${ref}:${path}`], { encoding: "utf-8", maxBuffer: MAX_CHUNKED_READ_BYTES, stdio: "pipe" });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Package-level summary of a lockfile segment, from the blobs on its "index" line and the manifest
+ * (package.json, go.mod) at base and head; undefined (keep the raw patch) when it cannot be built.
+ */
+function summarizeLockfileSegment(path: string, seg: string, base: string, head: string): string | undefined {
+  const blobs = seg.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)/m);
+  if (!blobs) return undefined;
+  const readBlob = (id: string) =>
+    /^0+$/.test(id) ? "" : execFileSync("git", ["cat-file", "blob", id], { encoding: "utf-8", maxBuffer: MAX_CHUNKED_READ_BYTES, stdio: "pipe" });
+  try {
+    const manifest = manifestPathFor(path);
+    let manifestDirect: Set<string> | undefined;
+    for (const text of manifest ? [readAtRef(base, manifest), readAtRef(head, manifest)] : []) {
+      if (text !== undefined) manifestDirect = new Set([...(manifestDirect ?? []), ...parseManifest(manifest!, text)]);
+    }
+    return summarizeLockfile({
+      path,
+      header: seg.split("\n")[0]!,
+      before: readBlob(blobs[1]!),
+      after: readBlob(blobs[2]!),
+      manifestDirect,
+      rawLines: seg.split("\n").length,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Splits the raw diff per file, leaves out ignored files (ignoredFiles), images and binaries
+ * (excludedFiles), summarizes lockfiles (summarizedLockfiles) and redacts secrets in the remaining
+ * file diffs (redactions: count per file, only files with at least one).
+ */
+function prepareSegments(
+  rawDiff: string,
+  refs: { base: string; head: string },
+  options: JudgeDiffOptions
+): {
+  files: { path: string; segment: string }[];
+  excludedFiles: string[];
+  ignoredFiles: string[];
+  summarizedLockfiles: string[];
+  /** Bytes the lockfile summaries saved over the raw patches. */
+  redactions: Record<string, number>;
+} {
+  const files: { path: string; segment: string }[] = [];
+  const excludedFiles: string[] = [];
+  const ignoredFiles: string[] = [];
+  const summarizedLockfiles: string[] = [];
+  const redactions: Record<string, number> = {};
+  for (const raw of splitDiffByFile(rawDiff)) {
+    let seg = raw;
+    const path = pathFromSegment(seg);
+    // The ignore file itself is always judged: a PR that hides files from the judge must show how.
+    if (path && path !== JUDGE_IGNORE_FILE && options.ignore && judgeIgnoreRuleFor(path, options.ignore)) {
+      ignoredFiles.push(path);
+      continue;
+    }
+    if ((path && isImageOrHeavyByPath(path)) || segmentIsBinary(seg)) {
+      if (path) excludedFiles.push(path);
+      continue;
+    }
+    if (path && lockfileName(path) && options.lockfileSummaries !== false) {
+      const summary = summarizeLockfileSegment(path, seg, refs.base, refs.head);
+      if (summary !== undefined) {
+        seg = summary;
+        summarizedLockfiles.push(path);
+      }
+    }
+    if (options.secretRules && options.secretRules.length > 0) {
+      const { segment, count } = redactSegment(seg, options.secretRules);
+      if (count > 0) redactions[path] = (redactions[path] ?? 0) + count;
+      files.push({ path, segment });
+    } else {
+      files.push({ path, segment: seg });
+    }
+  }
+  return { files, excludedFiles, ignoredFiles, summarizedLockfiles, redactions };
+}
+
+/**
+ * Chunked diff for judge: excludes images and binaries (as excludedFiles), then packs the remaining
+ * file diffs into chunks of at most maxBytes, split at file and hunk boundaries. Nothing is truncated;
+ * what does not fit (a single hunk over maxBytes, or beyond maxChunks) is listed in unjudgedFiles.
+ */
+export function getChunkedDiffForJudge(
+  base: string,
+  head: string,
+  options: { maxBytes: number; maxChunks: number } & JudgeDiffOptions
+): JudgeDiffResult {
+  const fullRaw = readDiff(base, head, MAX_CHUNKED_READ_BYTES);
+  if (fullRaw === undefined) {
+    return { diff: "", excludedFiles: [], truncated: false, base, head, chunks: [], unjudgedFiles: [] };
+  }
+
+  const { files, excludedFiles, ignoredFiles, summarizedLockfiles, redactions } = prepareSegments(fullRaw, { base, head }, options);
+  const { chunks, unjudgedFiles } = packDiffChunks(files, options.maxBytes, options.maxChunks);
+  return {
+    diff: chunks.map((c) => c.diff).join("\n"),
+    excludedFiles: [...new Set(excludedFiles)],
+    truncated: false,
+    base,
+    head,
+    chunks,
+    unjudgedFiles,
+    ignoredFiles,
+    summarizedLockfiles,
+    redactions,
+  };
+}
+
 /**
  * Builds diff for judge: excludes images and per-file diffs > 1MB; caps total at 2MB.
  */
 export function getDiffForJudge(
   base: string,
-  head: string
+  head: string,
+  options: JudgeDiffOptions = {}
 ): JudgeDiffResult {
-  const excludedFiles: string[] = [];
-  let fullRaw: string;
-  try {
-    fullRaw = execSync(`git diff ${base}...${head}`, {
-      encoding: "utf-8",
-      maxBuffer: 8 * 1024 * 1024, // allow reading up to 8MB from git; we cap at 2MB for payload
-    });
-  } catch {
+  // allow reading up to 8MB from git; we cap at 2MB for payload
+  const fullRaw = readDiff(base, head, 8 * 1024 * 1024);
+  if (fullRaw === undefined) {
     return {
       diff: "",
       excludedFiles: [],
@@ -102,19 +259,15 @@ export function getDiffForJudge(
     };
   }
 
-  const segments = splitDiffByFile(fullRaw);
+  const { files, excludedFiles, ignoredFiles, summarizedLockfiles, redactions } = prepareSegments(fullRaw, { base, head }, options);
   const included: string[] = [];
   let totalBytes = 0;
   let didTruncate = false;
 
-  for (const seg of segments) {
-    const path = pathFromSegment(seg);
+  for (const { path, segment: seg } of files) {
     const segBytes = Buffer.byteLength(seg, "utf-8");
-    const isImage = path && isImageOrHeavyByPath(path);
-    const isBinary = segmentIsBinary(seg);
-    const overSize = segBytes > MAX_FILE_DIFF_BYTES;
 
-    if (isImage || isBinary || overSize) {
+    if (segBytes > MAX_FILE_DIFF_BYTES) {
       if (path) excludedFiles.push(path);
       continue;
     }
@@ -123,26 +276,28 @@ export function getDiffForJudge(
       included.push(seg);
       totalBytes += segBytes;
     } else {
+      // Only a cut for the cap counts as truncation; ignored, excluded and summarized bytes never do.
       const remaining = MAX_DIFF_BYTES - totalBytes;
       if (remaining > 0) {
         const truncatedSeg = seg.slice(0, remaining);
         included.push(truncatedSeg);
         totalBytes = MAX_DIFF_BYTES;
-        didTruncate = true;
       }
+      didTruncate = true;
       if (path) excludedFiles.push(path);
     }
   }
 
   const diff = included.join("\n");
-  const totalRawBytes = Buffer.byteLength(fullRaw, "utf-8");
-  const truncated = didTruncate || totalRawBytes > MAX_DIFF_BYTES;
 
   return {
     diff,
     excludedFiles: [...new Set(excludedFiles)],
-    truncated,
+    truncated: didTruncate,
     base,
     head,
+    ignoredFiles,
+    summarizedLockfiles,
+    redactions,
   };
 }
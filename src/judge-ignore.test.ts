@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { judgeIgnoreRuleFor, loadJudgeIgnoreRules, parseJudgeIgnore } from "./judge-ignore";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+describe("parseJudgeIgnore", () => {
+  it("skips blanks and comments, trims trailing spaces and records line sources", () => {
+    const rules = parseJudgeIgnore("# generated\n\ndist/  \n\\#notes.md\n!dist/keep.js\n");
+    expect(rules).toEqual([
+      { pattern: "dist/", source: ".decernjudgeignore:3" },
+      { pattern: "\\#notes.md", source: ".decernjudgeignore:4" },
+      { pattern: "!dist/keep.js", source: ".decernjudgeignore:5" },
+    ]);
+  });
+});
+
+describe("judgeIgnoreRuleFor", () => {
+  const rules = parseJudgeIgnore("*.snap\ndist/\n!dist/keep.js\n/generated\n\\#notes.md\n");
+
+  it("matches gitignore-style patterns at any depth", () => {
+    expect(judgeIgnoreRuleFor("src/__snapshots__/a.test.ts.snap", rules)?.pattern).toBe("*.snap");
+    expect(judgeIgnoreRuleFor("pkg/dist/index.js", rules)?.pattern).toBe("dist/");
+    expect(judgeIgnoreRuleFor("src/index.ts", rules)).toBeUndefined();
+  });
+
+  it("last match wins, so a negated rule re-includes a file", () => {
+    expect(judgeIgnoreRuleFor("dist/keep.js", rules)).toBeUndefined();
+    expect(judgeIgnoreRuleFor("dist/other.js", rules)?.source).toBe(".decernjudgeignore:2");
+  });
+
+  it("a leading slash anchors at the repo root; escaped # is literal", () => {
+    expect(judgeIgnoreRuleFor("generated/api.ts", rules)?.pattern).toBe("/generated");
+    expect(judgeIgnoreRuleFor("src/generated/api.ts", rules)).toBeUndefined();
+    expect(judgeIgnoreRuleFor("docs/#notes.md", rules)?.pattern).toBe("\\#notes.md");
+  });
+});
+
+describe("loadJudgeIgnoreRules", () => {
+  it("reads .decernjudgeignore first, then the configured patterns", () => {
+    const dir = mkdtempSync(join(tmpdir(), "decern-judge-ignore-"));
+    try {
+      expect(loadJudgeIgnoreRules(dir, ["fixtures/"])).toEqual([{ pattern: "fixtures/", source: "judge.ignore" }]);
+      writeFileSync(join(dir, ".decernjudgeignore"), "vendor/\n");
+      expect(loadJudgeIgnoreRules(dir, ["!vendor/patched.js"]).map((r) => r.source)).toEqual([".decernjudgeignore:1", "judge.ignore"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("run — .decernjudgeignore", () => {
+  const g = useGateRepo();
+
+  it("leaves files matched by .decernjudgeignore out of the judge payload", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n  ignore:\n    - \"!dist/keep.js\"\n",
+        ".decernjudgeignore": "dist/\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit(
+      {
+        "dist/bundle.js": "console.log('bundle');\n",
+        "dist/keep.js": "console.log('keep');\n",
+        ".env.production": "QUEUE_URL=amqp://mq:5672\n",
+      },
+      "implements ADR-010"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    const diffs: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        diffs.push((JSON.parse(init.body) as { diff: string }).diff);
+        return new Response(JSON.stringify({ allowed: true }), { status: 200 });
+      })
+    );
+    const { report } = await g.runJson();
+    expect(diffs[0]).toContain("dist/keep.js");
+    expect(diffs[0]).not.toContain("dist/bundle.js");
+    expect(report.judge!.ignoredFiles).toEqual(["dist/bundle.js"]);
+  });
+
+  it("does not count ignored files toward the 2MB cap", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n",
+        ".decernjudgeignore": "dist/\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit(
+      { "dist/bundle.js": "console.log('bundle');\n".repeat(120_000), "k8s/deploy.yaml": "kind: Deployment\n" },
+      "implements ADR-010"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    const bodies: { truncated: boolean }[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        bodies.push(JSON.parse(init.body) as { truncated: boolean });
+        return new Response(JSON.stringify({ allowed: true }), { status: 200 });
+      })
+    );
+    const { report } = await g.runJson();
+    expect(report.judge!.ignoredFiles).toEqual(["dist/bundle.js"]);
+    expect(bodies.map((b) => b.truncated)).toEqual([false]);
+  });
+
+  it("treats a PR's .decernjudgeignore as high-impact and always sends it to the judge", async () => {
+    g.base = g.commit(
+      { ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n", "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n" },
+      "local ADRs"
+    );
+    const head = g.commit(
+      { ".decernjudgeignore": "*\n", "k8s/deploy.yaml": "kind: Deployment\n" },
+      "implements ADR-010"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    const diffs: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        diffs.push((JSON.parse(init.body) as { diff: string }).diff);
+        return new Response(JSON.stringify({ allowed: true }), { status: 200 });
+      })
+    );
+    const { report } = await g.runJson();
+    expect(report.policy!.matched).toContainEqual({ file: ".decernjudgeignore", rule: ".decernjudgeignore", category: "SECURITY" });
+    expect(diffs[0]).toContain("+++ b/.decernjudgeignore");
+    expect(report.judge!.ignoredFiles).toEqual(["k8s/deploy.yaml"]);
+  });
+});
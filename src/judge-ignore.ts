@@ -0,0 +1,49 @@
+/**
+ * Judge exclusions: `.decernjudgeignore` at the repo root (gitignore syntax) and `judge.ignore` in the
+ * config file. Matching files are left out of the judge payload, on top of the built-in image/binary
+ * exclusions, and reported as ignoredFiles. Rules apply in order and the last match wins, so `!path`
+ * re-includes a file ignored by an earlier rule.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { matchesGlob } from "./glob.js";
+
+export const JUDGE_IGNORE_FILE = ".decernjudgeignore";
+
+/** One ignore rule and where it comes from (".decernjudgeignore:3" or "judge.ignore"). */
+export type JudgeIgnoreRule = { pattern: string; source: string };
+
+/** Parses gitignore syntax: skips blanks and # comments, trims trailing spaces, keeps `\#` / `\!` literal. */
+export function parseJudgeIgnore(text: string, fileName: string = JUDGE_IGNORE_FILE): JudgeIgnoreRule[] {
+  const rules: JudgeIgnoreRule[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line.trim() || line.startsWith("#")) return;
+    rules.push({ pattern: line, source: `${fileName}:${i + 1}` });
+  });
+  return rules;
+}
+
+/** Rules from `.decernjudgeignore` at the repo root (if present), then the configured patterns. */
+export function loadJudgeIgnoreRules(repoRoot: string, configured: string[] = []): JudgeIgnoreRule[] {
+  const file = join(repoRoot, JUDGE_IGNORE_FILE);
+  const fromFile = existsSync(file) ? parseJudgeIgnore(readFileSync(file, "utf-8")) : [];
+  return [...fromFile, ...configured.map((pattern) => ({ pattern: pattern.trim(), source: "judge.ignore" }))];
+}
+
+function ruleMatches(path: string, pattern: string): boolean {
+  const p = pattern.replace(/^\\(?=[#!])/, "");
+  // gitignore: a leading "/" anchors the pattern at the repo root, also for a single segment.
+  return p.startsWith("/") ? matchesGlob(path, p.slice(1), { anchored: true }) : matchesGlob(path, p);
+}
+
+/** The rule that decides the path (last match wins), when it ignores it; undefined = not ignored. */
+export function judgeIgnoreRuleFor(path: string, rules: JudgeIgnoreRule[]): JudgeIgnoreRule | undefined {
+  let decided: JudgeIgnoreRule | undefined;
+  for (const rule of rules) {
+    const negated = rule.pattern.startsWith("!");
+    if (ruleMatches(path, negated ? rule.pattern.slice(1) : rule.pattern)) decided = negated ? undefined : rule;
+  }
+  return decided;
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execSync } from "child_process";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig, type GateConfig } from "./config";
+import { buildJudgePrompt, judgeWithLlm, llmProvider, loadDecisionText, parseVerdict } from "./llm-judge";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+type Request = { method?: string; url?: string; headers: IncomingMessage["headers"]; body: any };
+
+let server: Server;
+let url: string;
+let requests: Request[];
+let handler: (req: Request, res: ServerResponse) => void;
+let dir: string;
+
+beforeEach(async () => {
+  requests = [];
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const request = { method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  dir = mkdtempSync(join(tmpdir(), "decern-gate-llm-"));
+  mkdirSync(join(dir, "docs/adr"), { recursive: true });
+  writeFileSync(join(dir, "docs/adr/0001-use-postgres.md"), "# Use Postgres\n\nStatus: Accepted\n\nWe use Postgres for all services.\n");
+  execSync("git init -q && git add -A && git -c user.email=t@example.com -c user.name=t commit -q -m adr", { cwd: dir });
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function reply(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function config(env: Record<string, string>): GateConfig {
+  return loadConfig({
+    cwd: dir,
+    env: {
+      DECERN_GATE_JUDGE_MODE: "standalone",
+      DECERN_GATE_PROVIDER: "local",
+      DECERN_JUDGE_LLM_BASE_URL: `${url}/v1`,
+      DECERN_JUDGE_LLM_API_KEY: "sk-test",
+      DECERN_JUDGE_LLM_MODEL: "test-model",
+      DECERN_GATE_RETRY_ATTEMPTS: "1",
+      CI_BASE_SHA: "HEAD",
+      CI_HEAD_SHA: "HEAD",
+      ...env,
+    },
+  });
+}
+
+const params = { decisionRef: "ADR-001", diff: "diff --git a/db.ts b/db.ts\n+import pg from 'pg';\n", truncated: false };
+
+/** Loads the decision like judgeStep does (once per ref), then judges. */
+async function judge(cfg: GateConfig, p: typeof params) {
+  return judgeWithLlm(cfg, { ...p, decision: await loadDecisionText(cfg, p.decisionRef) });
+}
+
+describe("parseVerdict", () => {
+  it("maps allowed and rejected verdicts", () => {
+    expect(parseVerdict('{"allowed": true, "confidence": 0.9, "reason": "Uses Postgres.", "advisoryMessage": "Add a migration."}')).toEqual({
+      ok: true,
+      allowed: true,
+      confidence: 0.9,
+      reason: "Uses Postgres.",
+      advisoryMessage: "Add a migration.",
+    });
+    expect(parseVerdict('{"allowed": false, "confidence": 80}')).toEqual({
+      ok: true,
+      allowed: false,
+      confidence: 0.8,
+      reason: "Judge did not allow the change.",
+    });
+  });
+
+  it("tolerates a json code fence", () => {
+    expect(parseVerdict('```json\n{"allowed": true}\n```')).toMatchObject({ ok: true, allowed: true });
+  });
+
+  it("fails closed on anything but a strict verdict", () => {
+    for (const text of ["Looks good to me!", "[true]", '{"allowed": "yes"}', '{"allowed": true, "confidence": -1}']) {
+      expect(parseVerdict(text)).toMatchObject({ ok: false, reason: expect.stringContaining("invalid verdict") });
+    }
+  });
+});
+
+describe("llmProvider", () => {
+  it("uses the configured provider, else detects Anthropic from the base URL", () => {
+    expect(llmProvider({ baseUrl: "https://api.anthropic.com" })).toBe("anthropic");
+    expect(llmProvider({ baseUrl: "https://api.openai.com/v1" })).toBe("openai");
+    expect(llmProvider({ baseUrl: "https://gateway.internal", provider: "anthropic" })).toBe("anthropic");
+  });
+});
+
+describe("buildJudgePrompt", () => {
+  it("includes the decision title and text, the diff and the truncation note", () => {
+    const prompt = buildJudgePrompt({ ref: "ADR-001", decision: { title: "Use Postgres", content: "We use Postgres." }, diff: "+x", truncated: true });
+    expect(prompt.system).toContain('"allowed": boolean');
+    expect(prompt.user).toContain("Decision ADR-001: Use Postgres\n\nWe use Postgres.");
+    expect(prompt.user).toContain("Diff (truncated: only part of the change is shown):\n\n+x");
+  });
+});
+
+describe("judgeWithLlm", () => {
+  it("calls an OpenAI-compatible endpoint with the local ADR text", async () => {
+    handler = (_req, res) =>
+      reply(res, 200, { choices: [{ message: { content: '{"allowed": true, "confidence": 0.95, "reason": "Uses Postgres."}' } }] });
+    const result = await judge(config({}), params);
+    expect(result).toEqual({ ok: true, allowed: true, confidence: 0.95, reason: "Uses Postgres." });
+    expect(requests).toHaveLength(1);
+    const [req] = requests;
+    expect(req!.url).toBe("/v1/chat/completions");
+    expect(req!.headers.authorization).toBe("Bearer sk-test");
+    expect(req!.body).toMatchObject({ model: "test-model", temperature: 0, response_format: { type: "json_object" } });
+    expect(req!.body.messages[1].content).toContain("We use Postgres for all services.");
+    expect(req!.body.messages[1].content).toContain("+import pg from 'pg';");
+  });
+
+  it("calls the Anthropic messages API", async () => {
+    handler = (_req, res) => reply(res, 200, { content: [{ type: "text", text: '{"allowed": false, "reason": "Adds MongoDB."}' }] });
+    const result = await judge(config({ DECERN_JUDGE_LLM_PROVIDER: "anthropic" }), params);
+    expect(result).toEqual({ ok: true, allowed: false, reason: "Adds MongoDB.", confidence: undefined });
+    const [req] = requests;
+    expect(req!.url).toBe("/v1/messages");
+    expect(req!.headers["x-api-key"]).toBe("sk-test");
+    expect(req!.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(req!.headers.authorization).toBeUndefined();
+    expect(req!.body.system).toContain("architecture decision record");
+  });
+
+  it("loads the decision from the Decern API and never sends it the LLM key", async () => {
+    handler = (req, res) =>
+      req.url!.startsWith("/api/decision-gate/decision")
+        ? reply(res, 200, { title: "Use Kafka", content: "Events go through Kafka." })
+        : reply(res, 200, { choices: [{ message: { content: '{"allowed": true}' } }] });
+    const result = await judge(
+      config({ DECERN_GATE_PROVIDER: "decern", DECERN_BASE_URL: url, DECERN_CI_TOKEN: "ci-token" }),
+      { ...params, decisionRef: "ADR-002" }
+    );
+    expect(result).toMatchObject({ ok: true, allowed: true });
+    expect(requests.map((r) => r.url)).toEqual(["/api/decision-gate/decision?adrRef=ADR-002", "/v1/chat/completions"]);
+    expect(requests[0]!.headers.authorization).toBe("Bearer ci-token");
+    expect(JSON.stringify(requests[0])).not.toContain("sk-test");
+    expect(requests[1]!.body.messages[1].content).toContain("Decision ADR-002: Use Kafka\n\nEvents go through Kafka.");
+  });
+
+  it("fails closed on LLM errors, invalid verdicts and missing decisions", async () => {
+    handler = (_req, res) => reply(res, 401, { error: { message: "invalid api key" } });
+    expect(await judge(config({}), params)).toEqual({
+      ok: false,
+      status: 401,
+      reason: "LLM request failed: HTTP 401: invalid api key.",
+    });
+
+    handler = (_req, res) => reply(res, 200, { choices: [{ message: { content: "Sure, looks fine." } }] });
+    expect(await judge(config({}), params)).toMatchObject({ ok: false, reason: "LLM returned an invalid verdict: not JSON." });
+
+    expect(await judge(config({}), { ...params, decisionRef: "ADR-009" })).toMatchObject({
+      ok: false,
+      reason: expect.stringContaining("cannot load decision ADR-009: No ADR file"),
+    });
+  });
+
+  it("uses the decision it is given and loads nothing itself", async () => {
+    handler = (_req, res) => reply(res, 200, { choices: [{ message: { content: '{"allowed": true}' } }] });
+    const decision = { ok: true as const, title: "Use Kafka", content: "Events go through Kafka." };
+    const result = await judgeWithLlm(
+      config({ DECERN_GATE_PROVIDER: "decern", DECERN_BASE_URL: url, DECERN_CI_TOKEN: "ci-token" }),
+      { ...params, decisionRef: "ADR-002", decision, chunk: { index: 2, total: 3 } }
+    );
+    expect(result).toMatchObject({ ok: true, allowed: true });
+    expect(requests.map((r) => r.url)).toEqual(["/v1/chat/completions"]);
+  });
+
+  it("requires the LLM settings", async () => {
+    const result = await judge(config({ DECERN_JUDGE_LLM_MODEL: "" }), params);
+    expect(result).toMatchObject({ ok: false, reason: expect.stringContaining("DECERN_JUDGE_LLM_MODEL") });
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("run — standalone judge", () => {
+  const g = useGateRepo();
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), "decern-gate-judge-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("loads the decision once per ref for the standalone judge, not once per chunk", async () => {
+    g.base = g.commit({ ".decern-gate.yml": "judge:\n  enabled: true\n  chunking:\n    enabled: true\n    maxBytes: 4096\n" }, "config");
+    const head = g.commit(
+      {
+        "k8s/deploy.yaml": `kind: Deployment\n${"# padding\n".repeat(300)}`,
+        "k8s/service.yaml": `kind: Service\n${"# padding\n".repeat(300)}`,
+      },
+      "implements ADR-010"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    vi.stubEnv("DECERN_GATE_JUDGE_MODE", "standalone");
+    vi.stubEnv("DECERN_JUDGE_LLM_BASE_URL", "https://llm.test/v1");
+    vi.stubEnv("DECERN_JUDGE_LLM_API_KEY", "sk-test");
+    vi.stubEnv("DECERN_JUDGE_LLM_MODEL", "test-model");
+    vi.stubEnv("DECERN_GATE_CACHE_DIR", cacheDir);
+    const urls: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        urls.push(new URL(url).pathname);
+        const body = url.includes("/validate")
+          ? { valid: true, status: "approved" }
+          : url.includes("/decision")
+            ? { title: "Queue", content: "Deploy the queue on k8s." }
+            : { choices: [{ message: { content: '{"allowed": true, "confidence": 0.9}' } }] };
+        return new Response(JSON.stringify(body), { status: 200 });
+      })
+    );
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.judge).toMatchObject({ chunks: 2 });
+    expect(urls).toEqual([
+      "/api/decision-gate/validate",
+      "/api/decision-gate/decision",
+      "/v1/chat/completions",
+      "/v1/chat/completions",
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Standalone judge (judge.mode: standalone): the CLI loads the decision text (Decern API or local ADR),
+ * asks the configured LLM directly whether the diff is consistent with it, and parses a strict JSON
+ * verdict into a JudgeResult. The LLM API key is only sent to the LLM endpoint, never to Decern.
+ * Fail-closed like the Decern judge: request errors and malformed verdicts are { ok: false } results.
+ */
+
+import type { GateConfig, LlmProvider } from "./config.js";
+import { fetchDecision, type ApiCallOptions, type DecisionText, type JudgeResult } from "./decern-api.js";
+import { fetchWithRetry, RequestTimeoutError } from "./http.js";
+import { getBaseAndHead } from "./judge-diff.js";
+import { readLocalAdr } from "./local-adr.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const MAX_OUTPUT_TOKENS = 1024;
+
+export type JudgePrompt = { system: string; user: string };
+
+const SYSTEM_PROMPT = `You review code changes against an architecture decision record (ADR).
+Decide whether the diff is consistent with the decision: it implements or respects what the decision says,
+and does not contradict it or introduce significant changes the decision does not cover.
+Judge only against the decision text given; do not invent requirements.
+Reply with a single JSON object and nothing else:
+{"allowed": boolean, "confidence": number from 0 to 1, "reason": "one or two sentences", "advisoryMessage": "optional: what is not fully aligned when allowed"}`;
+
+/** The LLM API flavour: configured, else Anthropic when the base URL points at anthropic.com, else OpenAI-compatible. */
+export function llmProvider(llm: GateConfig["judge"]["llm"]): LlmProvider {
+  if (llm.provider) return llm.provider;
+  return llm.baseUrl && /anthropic\.com/i.test(llm.baseUrl) ? "anthropic" : "openai";
+}
+
+/** Loads the decision text with the configured provider: a local ADR file (at the PR base) or the Decern API. */
+export async function loadDecisionText(config: GateConfig, ref: string, options: ApiCallOptions = {}): Promise<DecisionText> {
+  if (config.provider === "local") return readLocalAdr(config, ref, getBaseAndHead(config.ci.baseSha, config.ci.headSha).base);
+  return fetchDecision(config, ref, options);
+}
+
+export function buildJudgePrompt(params: {
+  ref: string;
+  decision: { title?: string; content: string };
+  diff: string;
+  truncated: boolean;
+  chunk?: { index: number; total: number };
+}): JudgePrompt {
+  const heading = params.decision.title ? `${params.ref.trim()}: ${params.decision.title}` : params.ref.trim();
+  const diffNote = params.chunk
+    ? ` (part ${params.chunk.index} of ${params.chunk.total} of the change; judge only this part)`
+    : params.truncated
+      ? " (truncated: only part of the change is shown)"
+      : "";
+  return {
+    system: SYSTEM_PROMPT,
+    user: `Decision ${heading}\n\n${params.decision.content.trim()}\n\n---\n\nDiff${diffNote}:\n\n${params.diff}`,
+  };
+}
+
+/**
+ * Parses the LLM reply into a JudgeResult. The reply must be one JSON object (a surrounding ```json fence
+ * is tolerated) with a boolean `allowed`; `confidence` (0–1, or 0–100) and the strings are optional.
+ */
+export function parseVerdict(text: string): JudgeResult {
+  const invalid = (detail: string): JudgeResult => ({ ok: false, status: 0, reason: `LLM returned an invalid verdict: ${detail}` });
+  const json = text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i, "$1");
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return invalid("not JSON.");
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return invalid("not a JSON object.");
+  const v = data as { allowed?: unknown; confidence?: unknown; reason?: unknown; advisoryMessage?: unknown };
+  if (typeof v.allowed !== "boolean") return invalid('"allowed" must be a boolean.');
+  let confidence: number | undefined;
+  if (v.confidence != null) {
+    if (typeof v.confidence !== "number" || !Number.isFinite(v.confidence) || v.confidence < 0 || v.confidence > 100) {
+      return invalid('"confidence" must be a number from 0 to 1.');
+    }
+    confidence = v.confidence > 1 ? v.confidence / 100 : v.confidence;
+  }
+  const reason = typeof v.reason === "string" && v.reason.trim() ? v.reason.trim() : undefined;
+  if (v.allowed) {
+    const advisoryMessage = typeof v.advisoryMessage === "string" && v.advisoryMessage.trim() ? v.advisoryMessage.trim() : undefined;
+    return { ok: true, allowed: true, reason, confidence, advisoryMessage };
+  }
+  return { ok: true, allowed: false, reason: reason ?? "Judge did not allow the change.", confidence };
+}
+
+/** Error message from an OpenAI or Anthropic error body ({ error: { message } }), else the HTTP status. */
+function errorDetail(status: number, body: unknown): string {
+  const message = (body as { error?: { message?: unknown } } | undefined)?.error?.message;
+  return typeof message === "string" && message ? `HTTP ${status}: ${message}` : `HTTP ${status}`;
+}
+
+/** Sends the prompt to the LLM and returns the reply text, or a failed JudgeResult. */
+async function completeWithLlm(
+  config: GateConfig,
+  prompt: JudgePrompt,
+  label: string,
+  options: ApiCallOptions
+): Promise<{ ok: true; text: string } | Extract<JudgeResult, { ok: false }>> {
+  const { baseUrl, apiKey, model } = config.judge.llm;
+  const base = baseUrl!.replace(/\/$/, "");
+  const provider = llmProvider(config.judge.llm);
+  const request: { url: string; headers: Record<string, string>; body: unknown } =
+    provider === "anthropic"
+      ? {
+          url: `${base}${/\/v1$/.test(base) ? "" : "/v1"}/messages`,
+          headers: { "x-api-key": apiKey!, "anthropic-version": ANTHROPIC_VERSION },
+          body: { model, max_tokens: MAX_OUTPUT_TOKENS, temperature: 0, system: prompt.system, messages: [{ role: "user", content: prompt.user }] },
+        }
+      : {
+          url: `${base}/chat/completions`,
+          headers: { Authorization: `Bearer ${apiKey}` },
+          body: {
+            model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: prompt.system },
+              { role: "user", content: prompt.user },
+            ],
+          },
+        };
+
+  try {
+    const res = await fetchWithRetry(
+      request.url,
+      { method: "POST", headers: { "Content-Type": "application/json", ...request.headers }, body: JSON.stringify(request.body) },
+      { timeoutMs: config.judge.timeoutMs, retry: config.retry, label, log: options.log }
+    );
+    const data = (await res.json().catch(() => undefined)) as
+      | { choices?: { message?: { content?: unknown } }[]; content?: { type?: string; text?: unknown }[] }
+      | undefined;
+    if (res.status !== 200) {
+      return { ok: false, status: res.status, reason: `LLM request failed: ${errorDetail(res.status, data)}.` };
+    }
+    const text =
+      provider === "anthropic"
+        ? data?.content?.filter((c) => c.type === "text" && typeof c.text === "string").map((c) => c.text).join("")
+        : data?.choices?.[0]?.message?.content;
+    if (typeof text !== "string" || !text.trim()) {
+      return { ok: false, status: res.status, reason: "LLM returned no text." };
+    }
+    return { ok: true, text };
+  } catch (e) {
+    if (e instanceof RequestTimeoutError) {
+      return { ok: false, status: 0, reason: `LLM request timeout after ${e.timeoutMs}ms.` };
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, status: 0, reason: `LLM network error: ${msg}.` };
+  }
+}
+
+/** Standalone counterpart of callJudge: same inputs (minus Decern-only fields) and the same JudgeResult. */
+export async function judgeWithLlm(
+  config: GateConfig,
+  params: {
+    decisionRef: string;
+    /** From loadDecisionText, loaded once per ref and shared by every chunk. */
+    decision: DecisionText;
+    diff: string;
+    truncated: boolean;
+    chunk?: { index: number; total: number };
+  },
+  options: ApiCallOptions = {}
+): Promise<JudgeResult> {
+  const { baseUrl, apiKey, model } = config.judge.llm;
+  if (!baseUrl || !apiKey || !model) {
+    return {
+      ok: false,
+      status: 0,
+      reason: "Standalone judge requires DECERN_JUDGE_LLM_BASE_URL, DECERN_JUDGE_LLM_API_KEY and DECERN_JUDGE_LLM_MODEL.",
+    };
+  }
+  const ref = params.decisionRef.trim();
+  const { decision } = params;
+  if (!decision.ok) {
+    return { ok: false, status: decision.status, reason: `cannot load decision ${ref}: ${decision.reason}` };
+  }
+  const prompt = buildJudgePrompt({ ref, decision, diff: params.diff, truncated: params.truncated, chunk: params.chunk });
+  const label = `LLM judge ${ref}${params.chunk ? ` [${params.chunk.index}/${params.chunk.total}]` : ""}`;
+  const reply = await completeWithLlm(config, prompt, label, options);
+  return reply.ok ? parseVerdict(reply.text) : reply;
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig } from "./config";
+import { findAdrFile, parseAdrScopes, parseAdrStatus, validateLocalAdr } from "./local-adr";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "decern-gate-adr-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseAdrStatus", () => {
+  it.each([
+    ["MADR front matter", "---\nstatus: accepted\ndate: 2024-01-01\n---\n# Use Postgres\n", "accepted"],
+    ["MADR 2 list item", "# Use Postgres\n\n* Status: proposed\n* Deciders: team\n", "proposed"],
+    ["bold status line", "# Use Postgres\n\n**Status:** Deprecated\n", "deprecated"],
+    ["Nygard section", "# 1. Use Postgres\n\nDate: 2024-01-01\n\n## Status\n\nAccepted\n\n## Context\n", "accepted"],
+    ["superseded with link", "# 1. Use Postgres\n\n## Status\n\nSuperseded by [ADR-0007](0007-x.md)\n", "superseded"],
+    ["CRLF line endings", "# X\r\n\r\n## Status\r\n\r\nAccepted\r\n", "accepted"],
+  ])("%s", (_label, markdown, status) => {
+    expect(parseAdrStatus(markdown)).toBe(status);
+  });
+
+  it("returns undefined without a status", () => {
+    expect(parseAdrStatus("# Use Postgres\n\nWe use Postgres.\n")).toBeUndefined();
+  });
+});
+
+describe("parseAdrScopes", () => {
+  it("reads scopes or scope from the front matter", () => {
+    expect(parseAdrScopes("---\nstatus: accepted\nscopes:\n  - INFRA\n  - k8s/**\n---\n")).toEqual(["INFRA", "k8s/**"]);
+    expect(parseAdrScopes("---\nstatus: accepted\nscope: DB, migrations/\n---\n")).toEqual(["DB", "migrations/"]);
+  });
+
+  it("returns undefined without front matter or scopes", () => {
+    expect(parseAdrScopes("# X\n\n## Status\n\nAccepted\n")).toBeUndefined();
+    expect(parseAdrScopes("---\nstatus: accepted\n---\n")).toBeUndefined();
+  });
+});
+
+describe("findAdrFile", () => {
+  beforeEach(() => {
+    for (const name of ["0001-use-postgres.md", "0012-use-kafka.md", "adr-007-logging.md", "ADR-AUTH.md", "README.md"]) {
+      writeFileSync(join(dir, name), "# x\n");
+    }
+  });
+
+  it.each([
+    ["ADR-001", "0001-use-postgres.md"],
+    ["ADR-1", "0001-use-postgres.md"],
+    ["adr-0012", "0012-use-kafka.md"],
+    ["ADR-007", "adr-007-logging.md"],
+    ["ADR-auth", "ADR-AUTH.md"],
+  ])("%s → %s", (ref, file) => {
+    expect(findAdrFile(dir, ref)).toBe(join(dir, file));
+  });
+
+  it("returns undefined for unknown refs and missing directories", () => {
+    expect(findAdrFile(dir, "ADR-002")).toBeUndefined();
+    expect(findAdrFile(join(dir, "nope"), "ADR-001")).toBeUndefined();
+  });
+});
+
+describe("validateLocalAdr", () => {
+  beforeEach(() => {
+    writeFileSync(join(dir, "0001-use-postgres.md"), "# 1. Use Postgres\n\n## Status\n\nAccepted\n");
+    writeFileSync(join(dir, "0002-use-kafka.md"), "# 2. Use Kafka\n\n## Status\n\nProposed\n");
+    writeFileSync(join(dir, "0003-no-status.md"), "# 3. Nothing\n");
+  });
+
+  it("accepts accepted ADRs", () => {
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-001")).toEqual({ ok: true, decisionStatus: "accepted" });
+  });
+
+  it("rejects other statuses with the API-style reason", () => {
+    const result = validateLocalAdr({ adrDir: dir }, "ADR-002");
+    expect(result).toMatchObject({ ok: false, status: 0, reason: "Not Accepted (decision status: Proposed)" });
+    expect(result.ok === false && result.body).toMatchObject({ status: "proposed" });
+  });
+
+  it("rejects missing files, missing statuses and decision IDs", () => {
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-009")).toMatchObject({ ok: false, reason: expect.stringMatching(/^No ADR file for ADR-009/) });
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-003")).toMatchObject({ ok: false, reason: expect.stringMatching(/^No status found/) });
+    expect(validateLocalAdr({ adrDir: dir }, "8f14e45f-ceea-4e7a")).toMatchObject({ ok: false, reason: expect.stringMatching(/Decern provider/) });
+  });
+  it("reads ADRs at a git revision, ignoring ADRs added or edited in the working tree", () => {
+    execSync("git init -q && git add -A && git -c user.email=t@example.com -c user.name=t commit -q -m adrs", { cwd: dir });
+    const base = execSync("git rev-parse HEAD", { cwd: dir, encoding: "utf-8" }).trim();
+    writeFileSync(join(dir, "0002-use-kafka.md"), "# 2. Use Kafka\n\n## Status\n\nAccepted\n");
+    writeFileSync(join(dir, "9999-self-approved.md"), "---\nstatus: accepted\n---\n");
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-9999")).toMatchObject({ ok: true });
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-001", base)).toEqual({ ok: true, decisionStatus: "accepted" });
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-002", base)).toMatchObject({ ok: false, reason: "Not Accepted (decision status: Proposed)" });
+    expect(validateLocalAdr({ adrDir: dir }, "ADR-9999", base)).toMatchObject({
+      ok: false,
+      reason: expect.stringMatching(new RegExp(`^No ADR file for ADR-9999 in .* at ${base.slice(0, 7)}\\.$`)),
+    });
+  });
+});
+
+describe("loadConfig — provider", () => {
+  it("defaults to decern with docs/adr; adrDir resolves against the repo root", () => {
+    const c = loadConfig({ env: {}, cwd: dir });
+    expect(c.provider).toBe("decern");
+    expect(c.adrDir).toBe(join(dir, "docs/adr"));
+    writeFileSync(join(dir, ".decern-gate.yml"), "provider: local\nadrDir: architecture/decisions\n");
+    const local = loadConfig({ env: {}, cwd: dir });
+    expect(local.provider).toBe("local");
+    expect(local.adrDir).toBe(join(dir, "architecture/decisions"));
+    expect(loadConfig({ env: { DECERN_GATE_PROVIDER: "decern" }, cwd: dir }).provider).toBe("decern");
+    expect(() => loadConfig({ env: { DECERN_GATE_PROVIDER: "github" }, cwd: dir })).toThrow(/DECERN_GATE_PROVIDER/);
+  });
+});
+
+describe("run — local ADRs", () => {
+  const g = useGateRepo();
+
+  it("validates against local ADRs without Decern env", async () => {
+    g.base = g.commit(
+      { ".decern-gate.yml": "provider: local\n", "docs/adr/0007-migrations.md": "# 7. Migrations\n\n## Status\n\nAccepted\n" },
+      "local ADRs"
+    );
+    const head = g.commit({ "db/migrations/001.sql": "create table t();\n" }, "add migration ADR-007");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.validations).toEqual([{ ref: "ADR-007", valid: true, decisionStatus: "accepted" }]);
+  });
+
+  it("does not let a PR approve itself with an ADR it adds", async () => {
+    g.base = g.commit({ ".decern-gate.yml": "provider: local\n" }, "local ADRs");
+    const head = g.commit(
+      { "docs/adr/9999-anything-goes.md": "---\nstatus: accepted\n---\n", "terraform/main.tf": "resource {}\n" },
+      "infra change (ADR-9999)"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.validations).toEqual([
+      { ref: "ADR-9999", valid: false, reason: `No ADR file for ADR-9999 in docs/adr at ${g.base.slice(0, 7)}.`, httpStatus: 0 },
+    ]);
+  });
+
+  it("does not let a PR point adrDir at another directory of accepted ADRs", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\n",
+        "docs/adr/0001-infra.md": "---\nstatus: proposed\n---\n",
+        "vendor/lib/adr/0001-anything.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit(
+      { ".decern-gate.yml": "provider: local\nadrDir: vendor/lib/adr\n", "terraform/main.tf": "resource {}\n" },
+      "infra change (ADR-001)"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.validations).toMatchObject([{ ref: "ADR-001", valid: false, decisionStatus: "proposed" }]);
+  });
+});
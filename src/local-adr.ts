@@ -0,0 +1,148 @@
+/**
+ * Offline decision provider: resolves ADR refs (ADR-001) to Markdown ADRs in the repository
+ * (e.g. docs/adr/0001-use-postgres.md) and reads their status. MADR (front matter or "* Status:" line)
+ * and Nygard ("## Status" section) formats are supported. Only accepted ADRs are valid.
+ * Results have the same shape as the Decern API path (ValidateResult). Scopes come from a
+ * `scopes:` (or `scope:`) front matter field. The standalone judge reads the ADR text from here too.
+ * The gate reads ADRs at the PR base (`at`), not from the working tree: an ADR added or edited in the PR
+ * only counts once it is merged, so a PR cannot approve itself.
+ */
+
+import { execFileSync } from "child_process";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, dirname, join, relative } from "path";
+import { parse as parseYaml } from "yaml";
+import type { GateConfig } from "./config.js";
+import { formatLabel, isAdrRef, type DecisionText, type ValidateResult } from "./decern-api.js";
+import { parseScopes } from "./scopes.js";
+
+/** Statuses that make an ADR valid. */
+const VALID_STATUSES = new Set(["accepted", "approved"]);
+
+/** Candidate ADR file names for a ref: "ADR-001" matches 0001-*.md, 1-*.md, adr-001-*.md, ADR-001.md, ... */
+function fileMatchesRef(fileName: string, id: string): boolean {
+  const name = fileName.toLowerCase();
+  if (!name.endsWith(".md")) return false;
+  const stem = name.slice(0, -3).replace(/^adr[-_]?/, "");
+  const key = id.toLowerCase();
+  if (/^\d+$/.test(key)) {
+    const m = stem.match(/^(\d+)(?:[-_. ]|$)/);
+    return m != null && Number(m[1]) === Number(key);
+  }
+  return stem === key || stem.startsWith(`${key}-`) || stem.startsWith(`${key}_`);
+}
+
+function gitInDir(dir: string, args: string[]): string {
+  return execFileSync("git", args, { cwd: dir, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], maxBuffer: 16 * 1024 * 1024 });
+}
+
+/** File names in dir, from the working tree or the tree of revision `at`; [] when dir does not exist there. */
+function listAdrDir(dir: string, at: string | undefined): string[] {
+  if (!existsSync(dir)) return [];
+  if (at === undefined) return readdirSync(dir);
+  try {
+    return gitInDir(dir, ["ls-tree", "--name-only", at, "--", "."]).split("\n").filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/** Reads an ADR file from the working tree or at revision `at`; throws when it cannot be read. */
+function readAdrFile(file: string, at: string | undefined): string {
+  return at === undefined ? readFileSync(file, "utf-8") : gitInDir(dirname(file), ["show", `${at}:./${basename(file)}`]);
+}
+
+/** " at <rev>" for messages about ADRs read at a revision. */
+function atLabel(at: string | undefined): string {
+  return at === undefined ? "" : ` at ${/^[0-9a-f]{40}$/i.test(at) ? at.slice(0, 7) : at}`;
+}
+
+/** Finds the ADR file for a ref in dir (not recursive; first match in name order), at revision `at` if set. */
+export function findAdrFile(dir: string, ref: string, at?: string): string | undefined {
+  const id = ref.trim().replace(/^ADR-/i, "");
+  const name = listAdrDir(dir, at)
+    .sort()
+    .find((f) => fileMatchesRef(f, id));
+  return name ? join(dir, name) : undefined;
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+/** Reads `scopes:` / `scope:` from the YAML front matter (list or comma-separated string). */
+export function parseAdrScopes(markdown: string): string[] | undefined {
+  const frontMatter = markdown.match(FRONT_MATTER)?.[1];
+  if (!frontMatter) return undefined;
+  try {
+    const data = parseYaml(frontMatter) as Record<string, unknown> | null;
+    return parseScopes(data?.scopes ?? data?.scope);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the status of a Markdown ADR, lowercased first word (e.g. "accepted", "superseded").
+ * Looks at, in order: YAML front matter `status:`, a `Status: ...` line (MADR list item or plain),
+ * and the first line of a `## Status` section (Nygard).
+ */
+export function parseAdrStatus(markdown: string): string | undefined {
+  const text = markdown.replace(/\r\n/g, "\n");
+  const normalize = (raw: string) => raw.replace(/[*_`"']/g, "").trim().split(/\s+/)[0]?.toLowerCase() || undefined;
+
+  const frontMatter = text.match(FRONT_MATTER);
+  const fmStatus = frontMatter?.[1]?.match(/^status:\s*(.+)$/im);
+  if (fmStatus) return normalize(fmStatus[1]!);
+
+  const line = text.match(/^\s*(?:[*-]\s*)?(?:\*\*)?status(?:\*\*)?\s*:(?:\*\*)?\s*(.+)$/im);
+  if (line) return normalize(line[1]!);
+
+  const section = text.match(/^#{1,6}\s*status\s*\n+\s*([^\n]+)/im);
+  if (section) return normalize(section[1]!);
+  return undefined;
+}
+
+/** Validates a ref against the local ADR directory (at revision `at` if set); never throws. */
+export function validateLocalAdr(config: Pick<GateConfig, "adrDir">, ref: string, at?: string): ValidateResult {
+  const dirLabel = `${relative(process.cwd(), config.adrDir) || "."}${atLabel(at)}`;
+  if (!isAdrRef(ref)) {
+    return { ok: false, status: 0, reason: `Decision IDs need the Decern provider; the local provider resolves ADR refs only (ADR-XXX).` };
+  }
+  const file = findAdrFile(config.adrDir, ref, at);
+  if (!file) {
+    return { ok: false, status: 0, reason: `No ADR file for ${ref.trim()} in ${dirLabel}.` };
+  }
+  let markdown: string;
+  try {
+    markdown = readAdrFile(file, at);
+  } catch (e) {
+    return { ok: false, status: 0, reason: `Cannot read ${relative(process.cwd(), file)}: ${e instanceof Error ? e.message : String(e)}.` };
+  }
+  const status = parseAdrStatus(markdown);
+  if (!status) {
+    return { ok: false, status: 0, reason: `No status found in ${relative(process.cwd(), file)}.` };
+  }
+  if (!VALID_STATUSES.has(status)) {
+    return {
+      ok: false,
+      status: 0,
+      reason: `Not Accepted (decision status: ${formatLabel(status)})`,
+      body: { status, file: relative(process.cwd(), file) },
+    };
+  }
+  return { ok: true, decisionStatus: status, scopes: parseAdrScopes(markdown) };
+}
+
+/** Reads an ADR's title (first heading) and Markdown content (at revision `at` if set) for the standalone judge; never throws. */
+export function readLocalAdr(config: Pick<GateConfig, "adrDir">, ref: string, at?: string): DecisionText {
+  const file = isAdrRef(ref) ? findAdrFile(config.adrDir, ref, at) : undefined;
+  if (!file) {
+    return { ok: false, status: 0, reason: `No ADR file for ${ref.trim()} in ${relative(process.cwd(), config.adrDir) || "."}${atLabel(at)}.` };
+  }
+  try {
+    const content = readAdrFile(file, at);
+    const title = content.match(/^#\s+(.+)$/m)?.[1]?.trim();
+    return { ok: true, title, content };
+  } catch (e) {
+    return { ok: false, status: 0, reason: `Cannot read ${relative(process.cwd(), file)}: ${e instanceof Error ? e.message : String(e)}.` };
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from "vitest";
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  compareVersions,
+  diffLockedPackages,
+  lockfileName,
+  manifestPathFor,
+  parseLockfile,
+  parseManifest,
+  summarizeLockfile,
+} from "./lockfile-summary";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const npmLock = (deps: Record<string, string>, direct: string[]) =>
+  JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      "": { name: "app", dependencies: Object.fromEntries(direct.map((d) => [d, "*"])) },
+      ...Object.fromEntries(Object.entries(deps).map(([path, version]) => [`node_modules/${path}`, { version }])),
+    },
+  });
+
+describe("lockfileName / manifestPathFor", () => {
+  it("recognizes lockfiles by basename and finds the manifest next to them", () => {
+    expect(lockfileName("web/package-lock.json")).toBe("package-lock.json");
+    expect(lockfileName("Cargo.toml")).toBeUndefined();
+    expect(manifestPathFor("web/yarn.lock")).toBe("web/package.json");
+    expect(manifestPathFor("go.sum")).toBe("go.mod");
+    expect(manifestPathFor("pnpm-lock.yaml")).toBeUndefined();
+  });
+});
+
+describe("parseLockfile", () => {
+  it("package-lock.json v3: install paths, nested copies and direct deps from the root entry", () => {
+    const locked = parseLockfile("package-lock.json", npmLock({ lodash: "4.17.21", "a/node_modules/lodash": "3.10.1", "@scope/b": "1.0.0" }, ["lodash"]));
+    expect(locked.versions.get("lodash")).toEqual(["4.17.21", "3.10.1"]);
+    expect(locked.versions.get("@scope/b")).toEqual(["1.0.0"]);
+    expect([...locked.direct!]).toEqual(["lodash"]);
+  });
+
+  it("package-lock.json v1: nested dependency tree", () => {
+    const text = JSON.stringify({ lockfileVersion: 1, dependencies: { a: { version: "1.0.0", dependencies: { b: { version: "2.0.0" } } } } });
+    const locked = parseLockfile("package-lock.json", text);
+    expect(Object.fromEntries(locked.versions)).toEqual({ a: ["1.0.0"], b: ["2.0.0"] });
+    expect(locked.direct).toBeUndefined();
+  });
+
+  it("yarn.lock v1 and berry", () => {
+    const v1 = '# yarn lockfile v1\n\n"@babel/core@^7.0.0", "@babel/core@^7.1.0":\n  version "7.2.0"\n  dependencies:\n    debug "^4.1.0"\n\ndebug@^4.1.0:\n  version "4.3.4"\n';
+    expect(Object.fromEntries(parseLockfile("yarn.lock", v1).versions)).toEqual({ "@babel/core": ["7.2.0"], debug: ["4.3.4"] });
+    const berry = '__metadata:\n  version: 6\n\n"app@workspace:.":\n  version: 0.0.0-use.local\n\n"lodash@npm:^4.17.0":\n  version: 4.17.21\n';
+    expect(Object.fromEntries(parseLockfile("yarn.lock", berry).versions)).toEqual({ lodash: ["4.17.21"] });
+  });
+
+  it("pnpm-lock.yaml v5, v6 and v9 keys; importers give the direct deps", () => {
+    const v5 = "lockfileVersion: 5.4\ndependencies:\n  lodash: 4.17.21\npackages:\n  /lodash/4.17.21:\n    dev: false\n  /@types/node/18.0.0_typescript@5.0.0:\n    dev: true\n";
+    const locked5 = parseLockfile("pnpm-lock.yaml", v5);
+    expect(Object.fromEntries(locked5.versions)).toEqual({ lodash: ["4.17.21"], "@types/node": ["18.0.0"] });
+    expect([...locked5.direct!]).toEqual(["lodash"]);
+    const v9 = "lockfileVersion: '9.0'\nimporters:\n  .:\n    devDependencies:\n      vitest:\n        specifier: ^1.0.0\n        version: 1.6.0\npackages:\n  vitest@1.6.0(@types/node@20.0.0):\n    resolution: {}\n  /chai@4.4.1:\n    resolution: {}\n";
+    const locked9 = parseLockfile("pnpm-lock.yaml", v9);
+    expect(Object.fromEntries(locked9.versions)).toEqual({ vitest: ["1.6.0"], chai: ["4.4.1"] });
+    expect([...locked9.direct!]).toEqual(["vitest"]);
+  });
+
+  it("go.sum: module versions, /go.mod lines folded in", () => {
+    const text = "golang.org/x/net v0.17.0 h1:abc=\ngolang.org/x/net v0.17.0/go.mod h1:def=\ngolang.org/x/text v0.13.0/go.mod h1:ghi=\n";
+    expect(Object.fromEntries(parseLockfile("go.sum", text).versions)).toEqual({ "golang.org/x/net": ["v0.17.0"], "golang.org/x/text": ["v0.13.0"] });
+  });
+
+  it("Cargo.lock: registry packages; workspace crates give the direct deps", () => {
+    const text = [
+      "version = 3",
+      "",
+      "[[package]]",
+      'name = "app"',
+      'version = "0.1.0"',
+      "dependencies = [",
+      ' "serde",',
+      ' "tokio 1.35.0",',
+      "]",
+      "",
+      "[[package]]",
+      'name = "serde"',
+      'version = "1.0.193"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+      "",
+      "[[package]]",
+      'name = "tokio"',
+      'version = "1.35.0"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+      "",
+    ].join("\n");
+    const locked = parseLockfile("Cargo.lock", text);
+    expect(Object.fromEntries(locked.versions)).toEqual({ serde: ["1.0.193"], tokio: ["1.35.0"] });
+    expect([...locked.direct!]).toEqual(["serde", "tokio"]);
+  });
+});
+
+describe("parseManifest", () => {
+  it("package.json: all dependency fields", () => {
+    const text = JSON.stringify({ dependencies: { a: "1" }, devDependencies: { b: "1" }, peerDependencies: { c: "1" } });
+    expect([...parseManifest("package.json", text)]).toEqual(["a", "b", "c"]);
+  });
+
+  it("go.mod: requires without // indirect", () => {
+    const text = "module example.com/app\n\nrequire golang.org/x/net v0.17.0\n\nrequire (\n\tgithub.com/a/b v1.0.0\n\tgithub.com/c/d v1.0.0 // indirect\n)\n";
+    expect([...parseManifest("go.mod", text)]).toEqual(["golang.org/x/net", "github.com/a/b"]);
+  });
+});
+
+describe("compareVersions", () => {
+  it("compares numerically, ignores a v prefix and sorts pre-releases first", () => {
+    expect(compareVersions("4.17.21", "4.17.3")).toBe(1);
+    expect(compareVersions("v0.9.0", "v0.10.0")).toBe(-1);
+    expect(compareVersions("2.0.0-rc.1", "2.0.0")).toBe(-1);
+    expect(compareVersions("2.0.0-rc.10", "2.0.0-rc.2")).toBe(1);
+    expect(compareVersions("1.0", "1.0.0")).toBe(0);
+  });
+});
+
+describe("diffLockedPackages", () => {
+  it("classifies added, removed, upgraded, downgraded and multi-version changes", () => {
+    const before = parseLockfile("package-lock.json", npmLock({ lodash: "4.17.20", react: "18.2.0", left: "1.0.0", x: "1.0.0", "y/node_modules/x": "2.0.0" }, ["lodash", "react"]));
+    const after = parseLockfile("package-lock.json", npmLock({ lodash: "4.17.21", react: "17.0.2", right: "2.0.0", x: "3.0.0", "y/node_modules/x": "4.0.0" }, ["lodash", "react", "right"]));
+    expect(diffLockedPackages(before, after)).toEqual([
+      { kind: "upgraded", name: "lodash", from: ["4.17.20"], to: ["4.17.21"], direct: true },
+      { kind: "downgraded", name: "react", from: ["18.2.0"], to: ["17.0.2"], direct: true },
+      { kind: "added", name: "right", from: [], to: ["2.0.0"], direct: true },
+      { kind: "removed", name: "left", from: ["1.0.0"], to: [], direct: false },
+      { kind: "changed", name: "x", from: ["1.0.0", "2.0.0"], to: ["3.0.0", "4.0.0"], direct: false },
+    ]);
+  });
+});
+
+describe("summarizeLockfile", () => {
+  it("keeps the file header and lists one change per line", () => {
+    const summary = summarizeLockfile({
+      path: "yarn.lock",
+      header: "diff --git a/yarn.lock b/yarn.lock",
+      before: 'lodash@^4.17.0:\n  version "4.17.20"\n\nms@^2.0.0:\n  version "2.1.3"\n',
+      after: 'lodash@^4.17.0:\n  version "4.17.21"\n\nms@^2.0.0:\n  version "2.1.3"\n',
+      manifestDirect: new Set(["lodash"]),
+      rawLines: 14,
+    });
+    expect(summary).toBe(
+      [
+        "diff --git a/yarn.lock b/yarn.lock",
+        "Lockfile summary (generated by decern-gate; replaces a raw diff of 14 lines): 1 upgraded",
+        "upgraded   lodash 4.17.20 -> 4.17.21 (direct)",
+      ].join("\n")
+    );
+  });
+
+  it("a new lockfile lists every package as added; no direct info means no scope", () => {
+    const summary = summarizeLockfile({ path: "go.sum", header: "diff --git a/go.sum b/go.sum", before: "", after: "golang.org/x/net v0.17.0 h1:abc=\n", rawLines: 3 });
+    expect(summary.split("\n").slice(1)).toEqual([
+      "Lockfile summary (generated by decern-gate; replaces a raw diff of 3 lines): 1 added",
+      "added      golang.org/x/net v0.17.0",
+    ]);
+  });
+
+  it("throws on a malformed lockfile (the caller keeps the raw patch)", () => {
+    expect(() => summarizeLockfile({ path: "package-lock.json", header: "", before: "{", after: "{}", rawLines: 1 })).toThrow();
+  });
+});
+
+describe("run — lockfile summaries", () => {
+  const g = useGateRepo();
+
+  it("sends lockfile changes as a package summary instead of the raw patch", async () => {
+    const lock = (lodash: string) =>
+      JSON.stringify({ lockfileVersion: 3, packages: { "": { dependencies: { lodash: "^4" } }, "node_modules/lodash": { version: lodash } } }, null, 2);
+    const before = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+        "package.json": '{ "dependencies": { "lodash": "^4" } }\n',
+        "package-lock.json": lock("4.17.20"),
+      },
+      "add lodash"
+    );
+    const head = g.commit({ "package-lock.json": lock("4.17.21") }, "implements ADR-010");
+    vi.stubEnv("CI_BASE_SHA", before);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    const diffs: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        diffs.push((JSON.parse(init.body) as { diff: string }).diff);
+        return new Response(JSON.stringify({ allowed: true }), { status: 200 });
+      })
+    );
+    const { report } = await g.runJson();
+    expect(diffs[0]).toContain("upgraded   lodash 4.17.20 -> 4.17.21 (direct)");
+    expect(diffs[0]).not.toContain('"version": "4.17.21"');
+    expect(report.judge!.summarizedLockfiles).toEqual(["package-lock.json"]);
+  });
+
+  it("never runs a lockfile path from the diff through a shell", async () => {
+    const lock = (lodash: string) => JSON.stringify({ lockfileVersion: 3, packages: { "node_modules/lodash": { version: lodash } } }, null, 2);
+    const dir = "a$(touch${IFS}pwned_lock)`touch${IFS}pwned_lock_tick`";
+    const before = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+        [`${dir}/package.json`]: '{ "dependencies": { "lodash": "^4" } }\n',
+        [`${dir}/package-lock.json`]: lock("4.17.20"),
+      },
+      "add lodash"
+    );
+    const head = g.commit({ [`${dir}/package-lock.json`]: lock("4.17.21"), "k8s/deploy.yaml": "kind: Deployment\n" }, "implements ADR-010");
+    vi.stubEnv("CI_BASE_SHA", before);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ allowed: true }), { status: 200 })));
+    const { report } = await g.runJson();
+    expect(report.judge!.summarizedLockfiles).toEqual([`${dir}/package-lock.json`]);
+    expect(existsSync(join(g.dir, "pwned_lock"))).toBe(false);
+    expect(existsSync(join(g.dir, "pwned_lock_tick"))).toBe(false);
+  });
+});
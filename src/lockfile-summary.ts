@@ -0,0 +1,280 @@
+/**
+ * Semantic lockfile summaries for the judge: instead of the raw patch of package-lock.json, yarn.lock,
+ * pnpm-lock.yaml, go.sum or Cargo.lock (thousands of lines of hashes), the judge gets one line per
+ * package added, removed, upgraded or downgraded, with old and new versions and whether it is a direct
+ * dependency. Parsing is pure; judge-diff.ts reads the old and new lockfile (and its manifest) from git.
+ */
+
+import { parse as parseYaml } from "yaml";
+
+export const LOCKFILE_NAMES = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml", "go.sum", "Cargo.lock"] as const;
+export type LockfileName = (typeof LOCKFILE_NAMES)[number];
+
+/** Resolved packages of one lockfile: name → versions, and the direct dependency names when known. */
+export type LockedPackages = { versions: Map<string, string[]>; direct?: Set<string> };
+
+export type LockfileChange = {
+  kind: "added" | "removed" | "upgraded" | "downgraded" | "changed";
+  name: string;
+  from: string[];
+  to: string[];
+  /** Undefined when neither the lockfile nor its manifest tells. */
+  direct?: boolean;
+};
+
+function basename(path: string): string {
+  return path.replace(/\\/g, "/").split("/").pop() ?? "";
+}
+
+export function lockfileName(path: string): LockfileName | undefined {
+  const name = basename(path);
+  return (LOCKFILE_NAMES as readonly string[]).includes(name) ? (name as LockfileName) : undefined;
+}
+
+/** The manifest next to the lockfile that lists direct dependencies, when the lockfile itself may not. */
+export function manifestPathFor(path: string): string | undefined {
+  const name = lockfileName(path);
+  const dir = path.slice(0, path.length - basename(path).length);
+  if (name === "package-lock.json" || name === "yarn.lock") return `${dir}package.json`;
+  if (name === "go.sum") return `${dir}go.mod`;
+  return undefined;
+}
+
+/** Direct dependency names declared in package.json or go.mod (go.mod: requires without `// indirect`). */
+export function parseManifest(path: string, text: string): Set<string> {
+  const names = new Set<string>();
+  if (basename(path) === "go.mod") {
+    let inBlock = false;
+    for (const raw of text.split("\n")) {
+      const line = raw.trim();
+      if (/^require\s*\($/.test(line)) inBlock = true;
+      else if (inBlock && line === ")") inBlock = false;
+      const spec = inBlock ? line : line.match(/^require\s+(.+)$/)?.[1];
+      if (!spec || spec.startsWith("require") || spec.includes("// indirect")) continue;
+      const module = spec.split(/\s+/)[0];
+      if (module && !module.startsWith("//")) names.add(module);
+    }
+    return names;
+  }
+  const pkg = JSON.parse(text) as Record<string, unknown>;
+  for (const field of ["dependencies", "devDependencies", "optionalDependencies", "peerDependencies"]) {
+    const deps = pkg[field];
+    if (deps && typeof deps === "object") for (const name of Object.keys(deps)) names.add(name);
+  }
+  return names;
+}
+
+function add(versions: Map<string, string[]>, name: string, version: string): void {
+  const list = versions.get(name) ?? [];
+  if (!list.includes(version)) list.push(version);
+  versions.set(name, list);
+}
+
+function depNames(...groups: unknown[]): Set<string> {
+  const names = new Set<string>();
+  for (const deps of groups) if (deps && typeof deps === "object") for (const name of Object.keys(deps)) names.add(name);
+  return names;
+}
+
+type NpmPackage = { version?: string; link?: boolean; dependencies?: Record<string, NpmPackage> } & Record<string, unknown>;
+
+function parsePackageLock(text: string): LockedPackages {
+  const lock = JSON.parse(text) as { packages?: Record<string, NpmPackage>; dependencies?: Record<string, NpmPackage> };
+  const versions = new Map<string, string[]>();
+  if (lock.packages) {
+    // v2/v3: keys are install paths; "" and workspace folders declare the direct dependencies.
+    const direct = new Set<string>();
+    for (const [key, pkg] of Object.entries(lock.packages)) {
+      if (!key.includes("node_modules/")) {
+        for (const name of depNames(pkg.dependencies, pkg.devDependencies, pkg.optionalDependencies, pkg.peerDependencies)) direct.add(name);
+        continue;
+      }
+      if (pkg.link || !pkg.version) continue;
+      add(versions, key.slice(key.lastIndexOf("node_modules/") + "node_modules/".length), pkg.version);
+    }
+    return { versions, direct };
+  }
+  // v1: nested dependency tree; direct dependencies come from package.json.
+  const walk = (deps: Record<string, NpmPackage> | undefined) => {
+    for (const [name, pkg] of Object.entries(deps ?? {})) {
+      if (pkg.version) add(versions, name, pkg.version);
+      walk(pkg.dependencies);
+    }
+  };
+  walk(lock.dependencies);
+  return { versions };
+}
+
+/** Package name of a yarn spec ("lodash@^4.17.0", "@babel/core@npm:^7.0.0"). */
+function yarnSpecName(spec: string): string {
+  const s = spec.trim().replace(/^"|"$/g, "");
+  const at = s.indexOf("@", 1);
+  return at > 0 ? s.slice(0, at) : s;
+}
+
+function parseYarnLock(text: string): LockedPackages {
+  const versions = new Map<string, string[]>();
+  let names: string[] = [];
+  for (const line of text.split("\n")) {
+    if (/^\S.*:$/.test(line) && !line.startsWith("#")) {
+      const specs = line.slice(0, -1).split(",").map((s) => s.trim().replace(/^"|"$/g, ""));
+      // Berry: skip the metadata entry and workspace packages (the repo's own packages).
+      names = line.startsWith("__metadata") || specs.some((s) => s.includes("@workspace:")) ? [] : [...new Set(specs.map(yarnSpecName))];
+      continue;
+    }
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?\s*$/)?.[1];
+    if (version) for (const name of names) add(versions, name, version);
+  }
+  return { versions };
+}
+
+/** Name and version of a pnpm package key: "/lodash/4.17.21" (v5), "/lodash@4.17.21" (v6), "lodash@4.17.21(peer@1)" (v9). */
+function pnpmKey(key: string): { name: string; version: string } | undefined {
+  const k = key.replace(/^\//, "").replace(/\(.*$/, "");
+  const v5 = k.match(/^((?:@[^/]+\/)?[^/@]+)\/([^/_]+)(?:_.*)?$/);
+  if (v5) return { name: v5[1]!, version: v5[2]! };
+  const at = k.lastIndexOf("@");
+  return at > 0 ? { name: k.slice(0, at), version: k.slice(at + 1) } : undefined;
+}
+
+function parsePnpmLock(text: string): LockedPackages {
+  const lock = (parseYaml(text) ?? {}) as {
+    packages?: Record<string, unknown>;
+    importers?: Record<string, Record<string, unknown>>;
+  } & Record<string, unknown>;
+  const versions = new Map<string, string[]>();
+  for (const key of Object.keys(lock.packages ?? {})) {
+    const pkg = pnpmKey(key);
+    if (pkg) add(versions, pkg.name, pkg.version);
+  }
+  const projects = lock.importers ? Object.values(lock.importers) : [lock];
+  const direct = new Set<string>();
+  for (const project of projects) {
+    for (const name of depNames(project.dependencies, project.devDependencies, project.optionalDependencies)) direct.add(name);
+  }
+  return { versions, direct };
+}
+
+function parseGoSum(text: string): LockedPackages {
+  const versions = new Map<string, string[]>();
+  for (const line of text.split("\n")) {
+    const [module, version] = line.trim().split(/\s+/);
+    if (module && version) add(versions, module, version.replace(/\/go\.mod$/, ""));
+  }
+  return { versions };
+}
+
+function parseCargoLock(text: string): LockedPackages {
+  const versions = new Map<string, string[]>();
+  const direct = new Set<string>();
+  for (const block of text.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+    const name = block.match(/^name\s*=\s*"([^"]+)"/m)?.[1];
+    const version = block.match(/^version\s*=\s*"([^"]+)"/m)?.[1];
+    if (!name || !version) continue;
+    if (/^source\s*=/m.test(block)) {
+      add(versions, name, version);
+      continue;
+    }
+    // No source: a crate of this workspace; its dependencies are the direct ones.
+    const deps = block.match(/^dependencies\s*=\s*\[([\s\S]*?)\]/m)?.[1] ?? "";
+    for (const dep of deps.matchAll(/"([^"\s]+)[^"]*"/g)) direct.add(dep[1]!);
+  }
+  return { versions, direct };
+}
+
+/** Parses a lockfile by its name. Throws on malformed JSON or YAML. */
+export function parseLockfile(name: LockfileName, text: string): LockedPackages {
+  switch (name) {
+    case "package-lock.json":
+      return parsePackageLock(text);
+    case "yarn.lock":
+      return parseYarnLock(text);
+    case "pnpm-lock.yaml":
+      return parsePnpmLock(text);
+    case "go.sum":
+      return parseGoSum(text);
+    case "Cargo.lock":
+      return parseCargoLock(text);
+  }
+}
+
+/** Compares versions (semver-like, optional "v" prefix); a pre-release sorts before its release. */
+export function compareVersions(a: string, b: string): number {
+  const split = (v: string) => {
+    const [core, pre] = v.replace(/^v/, "").split(/[-+](.*)/, 2);
+    return { core: (core ?? "").split(".").map((n) => Number.parseInt(n, 10) || 0), pre };
+  };
+  const x = split(a);
+  const y = split(b);
+  for (let i = 0; i < Math.max(x.core.length, y.core.length); i++) {
+    const d = (x.core[i] ?? 0) - (y.core[i] ?? 0);
+    if (d !== 0) return Math.sign(d);
+  }
+  if (x.pre === y.pre) return 0;
+  if (x.pre === undefined) return 1;
+  if (y.pre === undefined) return -1;
+  return Math.sign(x.pre.localeCompare(y.pre, undefined, { numeric: true }));
+}
+
+/** Package-level changes between two lockfile states, sorted by kind then name. */
+export function diffLockedPackages(before: LockedPackages, after: LockedPackages): LockfileChange[] {
+  const direct = before.direct || after.direct ? new Set([...(before.direct ?? []), ...(after.direct ?? [])]) : undefined;
+  const changes: LockfileChange[] = [];
+  for (const name of new Set([...before.versions.keys(), ...after.versions.keys()])) {
+    const old = before.versions.get(name) ?? [];
+    const next = after.versions.get(name) ?? [];
+    const from = old.filter((v) => !next.includes(v)).sort(compareVersions);
+    const to = next.filter((v) => !old.includes(v)).sort(compareVersions);
+    if (from.length === 0 && to.length === 0) continue;
+    let kind: LockfileChange["kind"] = "changed";
+    if (old.length === 0) kind = "added";
+    else if (next.length === 0) kind = "removed";
+    else if (from.length === 1 && to.length === 1) kind = compareVersions(to[0]!, from[0]!) > 0 ? "upgraded" : "downgraded";
+    changes.push({ kind, name, from, to, direct: direct ? direct.has(name) : undefined });
+  }
+  const order = ["upgraded", "downgraded", "added", "removed", "changed"];
+  return changes.sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind) || a.name.localeCompare(b.name));
+}
+
+function formatChange(c: LockfileChange): string {
+  const versions = c.kind === "added" ? c.to.join(", ") : c.kind === "removed" ? c.from.join(", ") : `${c.from.join(", ")} -> ${c.to.join(", ")}`;
+  const scope = c.direct === undefined ? "" : c.direct ? " (direct)" : " (transitive)";
+  return `${c.kind.padEnd(10)} ${c.name} ${versions}${scope}`;
+}
+
+/**
+ * Replacement diff segment for a lockfile: the original "diff --git" line, then the package changes.
+ * There is no hunk header, so redaction and hunk splitting leave it as is.
+ */
+export function formatLockfileSummary(header: string, changes: LockfileChange[], rawLines: number): string {
+  const counts = ["upgraded", "downgraded", "added", "removed", "changed"]
+    .map((kind) => [kind, changes.filter((c) => c.kind === kind).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([kind, n]) => `${n} ${kind}`);
+  return [
+    header,
+    `Lockfile summary (generated by decern-gate; replaces a raw diff of ${rawLines} lines): ${counts.length > 0 ? counts.join(", ") : "no package version changes"}`,
+    ...changes.map(formatChange),
+  ].join("\n");
+}
+
+/**
+ * Summarizes a lockfile change from the old and new file contents ("" when the file is added or
+ * deleted) and the direct dependency names from its manifest, if any. Throws when a side cannot be parsed.
+ */
+export function summarizeLockfile(params: {
+  path: string;
+  header: string;
+  before: string;
+  after: string;
+  manifestDirect?: Set<string>;
+  rawLines: number;
+}): string {
+  const name = lockfileName(params.path);
+  if (!name) throw new Error(`not a lockfile: ${params.path}`);
+  const parse = (text: string): LockedPackages => (text.trim() ? parseLockfile(name, text) : { versions: new Map() });
+  const before = parse(params.before);
+  const after = parse(params.after);
+  if (params.manifestDirect && !after.direct) after.direct = params.manifestDirect;
+  return formatLockfileSummary(params.header, diffLockedPackages(before, after), params.rawLines);
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { extractDecisionIds, isDecisionRequired } from "./main";
+import { useGateRepo } from "./test-utils/gate-repo";
 
 describe("extractDecisionIds", () => {
   it("extracts id from decern:, DECERN-, and /decisions/ URL", () => {
@@ -43,3 +44,90 @@ describe("isDecisionRequired", () => {
     expect(r.required).toBe(false);
   });
 });
+
+describe("run — several refs", () => {
+  const g = useGateRepo();
+
+  beforeEach(() => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\n",
+        "docs/adr/0001-a.md": "---\nstatus: proposed\n---\n",
+        "docs/adr/0002-b.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit({ "Dockerfile": "FROM node\n" }, "release: ADR-001, ADR-002, ADR-003");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+  });
+
+  it("reports every ref in order and passes when any is valid", async () => {
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.validations.map((v) => [v.ref, v.valid])).toEqual([
+      ["ADR-001", false],
+      ["ADR-002", true],
+      ["ADR-003", false],
+    ]);
+  });
+
+  it("blocks unless every ref is valid with validate.require: all", async () => {
+    vi.stubEnv("DECERN_GATE_VALIDATE_REQUIRE", "all");
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.summary).toMatch(/^blocked — every referenced decision must be valid \(validate.require: all\); not valid: ADR-001 \(Not Accepted/);
+    expect(report.summary).toContain("ADR-003 (No ADR file for ADR-003");
+  });
+});
+
+describe("run — multi-decision judge", () => {
+  const g = useGateRepo();
+
+  let head: string;
+
+  beforeEach(() => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\njudge:\n  enabled: true\n",
+        "docs/adr/0010-queue.md": "---\nstatus: accepted\n---\n",
+        "docs/adr/0011-cache.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    head = g.commit({ "k8s/deploy.yaml": "kind: Deployment\n" }, "implements ADR-010 and ADR-011");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const { adrRef } = JSON.parse(init.body) as { adrRef: string };
+        const verdict =
+          adrRef === "ADR-010"
+            ? { allowed: true, confidence: 0.9, reason: "Matches" }
+            : { allowed: false, confidence: 0.3, reason: "Cache not described" };
+        return new Response(JSON.stringify(verdict), { status: 200 });
+      })
+    );
+  });
+
+  it("judges every valid decision and blocks when one fails (combine: all)", async () => {
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.judges!.map((j) => [j.ref, j.passed, j.confidence])).toEqual([
+      ["ADR-010", true, 0.9],
+      ["ADR-011", false, 0.3],
+    ]);
+    expect(report.judge!.ref).toBe("ADR-010");
+    expect(report.summary).toBe("blocked — ADR-011: judge: Cache not described");
+  });
+
+  it("passes when one decision passes (combine: any)", async () => {
+    vi.stubEnv("DECERN_GATE_JUDGE_COMBINE", "any");
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.judges).toHaveLength(2);
+  });
+});
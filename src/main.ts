@@ -1,64 +1,144 @@
 /**
  * decern-gate — CI gate that requires an approved Decern decision for high-impact changes.
- * Uses only git + env vars; works on any CI (GitHub Actions, GitLab, Jenkins, etc.).
+ * Uses only git + env vars (optionally a repo config file); works on any CI (GitHub Actions, GitLab, Jenkins, etc.).
  */
 
-import { execSync } from "child_process";
-import { getBaseAndHead, getDiffForJudge } from "./judge-diff.js";
-import { pathMatchesRequired } from "./required-patterns.js";
-
-// --- Config from env (never log DECERN_CI_TOKEN) ---
-
-const DECERN_BASE_URL = process.env.DECERN_BASE_URL?.trim();
-const DECERN_CI_TOKEN = process.env.DECERN_CI_TOKEN?.trim();
-const DECERN_GATE_TIMEOUT_MS = Math.max(
-  1000,
-  parseInt(process.env.DECERN_GATE_TIMEOUT_MS ?? "5000", 10) || 5000
-);
-
-const CI_BASE_SHA = process.env.CI_BASE_SHA?.trim();
-const CI_HEAD_SHA = process.env.CI_HEAD_SHA?.trim();
-const CI_PR_TITLE = process.env.CI_PR_TITLE?.trim();
-const CI_PR_BODY = process.env.CI_PR_BODY?.trim();
-const CI_COMMIT_MESSAGE = process.env.CI_COMMIT_MESSAGE?.trim();
-
-const VALIDATE_PATH = process.env.DECERN_VALIDATE_PATH?.trim() || "/api/decision-gate/validate";
-const JUDGE_PATH = process.env.DECERN_JUDGE_PATH?.trim() || "/api/decision-gate/judge";
-const DECERN_GATE_JUDGE_TIMEOUT_MS = Math.max(
-  5000,
-  parseInt(process.env.DECERN_GATE_JUDGE_TIMEOUT_MS ?? "60000", 10) || 60000
-);
-/** When true or 1, judge step runs after validate (CLI calls /judge with diff and decision ref). Default: disabled. */
-const DECERN_GATE_JUDGE_ENABLED =
-  process.env.DECERN_GATE_JUDGE_ENABLED?.toLowerCase() === "true" ||
-  process.env.DECERN_GATE_JUDGE_ENABLED === "1";
-
-/** Judge BYO LLM: required when judge is enabled. Never logged. */
-const DECERN_JUDGE_LLM_BASE_URL = process.env.DECERN_JUDGE_LLM_BASE_URL?.trim();
-const DECERN_JUDGE_LLM_API_KEY = process.env.DECERN_JUDGE_LLM_API_KEY?.trim();
-const DECERN_JUDGE_LLM_MODEL = process.env.DECERN_JUDGE_LLM_MODEL?.trim();
-
-/** Optional min confidence (0–1). If set, gate blocks when judge returns allowed but confidence below this. */
-const DECERN_JUDGE_MIN_CONFIDENCE = (() => {
-  const v = process.env.DECERN_JUDGE_MIN_CONFIDENCE?.trim();
-  if (!v) return undefined;
-  const n = parseFloat(v);
-  if (!Number.isFinite(n) || n < 0 || n > 1) return undefined;
-  return n;
-})();
-
-/** Extra path/basename patterns from env (comma-separated). Paths contain "/" and match via includes; otherwise basename exact match. */
-const DECERN_GATE_EXTRA_PATTERNS = (process.env.DECERN_GATE_EXTRA_PATTERNS ?? "")
-  .split(",")
-  .map((s) => s.trim())
-  .filter(Boolean);
-
-export function isDecisionRequired(changedFiles: string[]): { required: true; reason: string } | { required: false; reason: string } {
-  const matched = changedFiles.filter((f) => pathMatchesRequired(f, DECERN_GATE_EXTRA_PATTERNS));
+import { execFileSync } from "child_process";
+import { callJudge, formatLabel, postOverrideAudit, validateRef, type DecisionText, type JudgeResult, type ValidateResult } from "./decern-api.js";
+import { publishToGithubActions } from "./github-actions.js";
+import { getRangeCommits, type RangeCommit } from "./commits.js";
+import { formatJsonReport, newReport, toValidationReport, type GateReport, type JudgeReport } from "./report.js";
+import { decisionFingerprint, judgeCacheKey, judgeModelLabel, readJudgeCache, writeJudgeCache } from "./judge-cache.js";
+import { mergeChunkResults } from "./judge-chunks.js";
+import { getBaseAndHead, getChunkedDiffForJudge, getDiffForJudge, type JudgeDiffResult } from "./judge-diff.js";
+import { judgeWithLlm, llmProvider, loadDecisionText } from "./llm-judge.js";
+import { validateLocalAdr } from "./local-adr.js";
+import { PATTERN_CATEGORIES, type PatternCategory } from "./required-patterns.js";
+import { groupByPackage, matchPolicyPath, ROOT_PACKAGE, type PackagePolicy } from "./packages.js";
+import { authorizeOverride, findOverride } from "./override.js";
+import { BUILTIN_SECRET_RULES, customSecretRules } from "./redact.js";
+import {
+  currentGitBranch,
+  extractBranchRefs,
+  parseLabelList,
+  REF_SOURCE_LABELS,
+  type RefSource,
+  type SourcedRef,
+} from "./ref-sources.js";
+import { findUncovered, type ScopedDecision } from "./scopes.js";
+import { describeWaiver, isExpired, waiverFor, WAIVERS_FILE, type Waiver } from "./waivers.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import {
+  ConfigError,
+  formatConfigError,
+  formatEffectiveConfig,
+  loadConfig,
+  type CategoryLevels,
+  type ConfigOverrides,
+  type GateConfig,
+} from "./config.js";
+
+/**
+ * A changed file, the rule that decided it, and the rule's category (null for ignore rules). package: the
+ * directory of the nearest nested config file when the file is in a monorepo package.
+ */
+export type FileMatch = { file: string; rule: string; category: PatternCategory | null; package?: string };
+
+/** A high-impact file skipped by a waiver in .decern-waivers.yml; waiver is the waiver's id. */
+export type WaivedMatch = FileMatch & { waiver: string };
+
+export type PolicyOptions = {
+  /** User patterns (glob, path, basename; "!" prefix = ignore rule). */
+  extraPatterns?: string[];
+  /** Enforcement level per category; unspecified categories block. */
+  categories?: Partial<CategoryLevels>;
+  /** Monorepo packages (nested config files): their patterns and levels apply to the files below them. */
+  packages?: PackagePolicy[];
+  /** Gate policy paths besides the built-in file names (e.g. a config file loaded from another path). */
+  policyPaths?: string[];
+  /** Waivers from .decern-waivers.yml; unexpired ones skip the files they cover. */
+  waivers?: Waiver[];
+  /** Date the waivers are checked against (YYYY-MM-DD, UTC); default today. */
+  today?: string;
+};
+
+export type PolicyResult = {
+  /** True when at least one file matched a category at level "block". */
+  required: boolean;
+  reason: string;
+  /** Files that require a decision (category level "block"). */
+  matched: FileMatch[];
+  /** Files in "warn" categories: reported, never block. */
+  warnings: FileMatch[];
+  /** Files excluded by an ignore ("!") rule or by a category set to "off". */
+  ignored: FileMatch[];
+  /** High-impact files skipped by an unexpired waiver. */
+  waived: WaivedMatch[];
+};
+
+function summarizeFiles(matches: FileMatch[]): string {
+  const files = matches.map((m) => m.file);
+  return `${files.slice(0, 5).join(", ")}${files.length > 5 ? "..." : ""}`;
+}
+
+export function isDecisionRequired(changedFiles: string[], options: PolicyOptions = {}): PolicyResult {
+  const matched: FileMatch[] = [];
+  const warnings: FileMatch[] = [];
+  const ignored: FileMatch[] = [];
+  const waived: WaivedMatch[] = [];
+  for (const file of changedFiles) {
+    const { match: m, level = "block", package: pkg } = matchPolicyPath(file, options);
+    const inPackage = pkg ? { package: pkg.dir } : {};
+    if (m.required) {
+      const category = m.category!;
+      const entry: FileMatch = { file, rule: m.rule!, category, ...inPackage };
+      const waiver = level !== "off" && !m.locked ? waiverFor(file, category, options.waivers ?? [], options.today) : undefined;
+      if (waiver) waived.push({ ...entry, waiver: waiver.id });
+      else if (level === "block") matched.push(entry);
+      else if (level === "warn") warnings.push(entry);
+      else ignored.push({ ...entry, rule: `${category}=off` });
+    } else if (m.overridden) {
+      ignored.push({ file, rule: m.rule!, category: m.overridden.category, ...inPackage });
+    }
+  }
   if (matched.length > 0) {
-    return { required: true, reason: `High-impact patterns matched: ${matched.slice(0, 5).join(", ")}${matched.length > 5 ? "..." : ""}` };
+    return { required: true, reason: `High-impact patterns matched: ${summarizeFiles(matched)}`, matched, warnings, ignored, waived };
   }
-  return { required: false, reason: "No high-impact file patterns matched." };
+  if (warnings.length > 0) {
+    return {
+      required: false,
+      reason: `High-impact patterns matched in warn-only categories: ${summarizeFiles(warnings)}`,
+      matched,
+      warnings,
+      ignored,
+      waived,
+    };
+  }
+  if (waived.length > 0) {
+    return { required: false, reason: `High-impact patterns matched, all waived: ${summarizeFiles(waived)}`, matched, warnings, ignored, waived };
+  }
+  return { required: false, reason: "No high-impact file patterns matched.", matched, warnings, ignored, waived };
+}
+
+/** Groups matches by category (in PATTERN_CATEGORIES order) as "CATEGORY: file (rule), ..." lines. */
+export function formatMatchesByCategory(matches: FileMatch[]): string[] {
+  const lines: string[] = [];
+  for (const category of [...PATTERN_CATEGORIES, null]) {
+    const inCategory = matches.filter((m) => m.category === category);
+    if (inCategory.length === 0) continue;
+    lines.push(`  ${category ?? "OTHER"}: ${formatFileList(inCategory.map((m) => `${m.file} (${m.rule})`))}`);
+  }
+  return lines;
+}
+
+/** Groups matches by monorepo package ("(root)" for files outside packages), then by category. */
+export function formatMatchesByPackage(matches: FileMatch[]): string[] {
+  const lines: string[] = [];
+  for (const [pkg, inPackage] of groupByPackage(matches)) {
+    lines.push(`  ${pkg === ROOT_PACKAGE ? "(root)" : pkg}:`);
+    for (const line of formatMatchesByCategory(inPackage)) lines.push(`  ${line}`);
+  }
+  return lines;
 }
 
 // --- Extract decision IDs and ADR refs from text (PR description / commit message) ---
@@ -68,9 +148,8 @@ const DECERN_TICKET = /DECERN-([a-zA-Z0-9_-]+)/g;
 const DECISIONS_URL = /\/decisions\/([a-zA-Z0-9_-]+)/g;
 /** Standalone ADR refs (e.g. ADR-001, ADR-123) */
 const ADR_REF = /\b(ADR-[a-zA-Z0-9_-]+)\b/gi;
-
-/** ADR ref (e.g. ADR-001); anything else is treated as decision ID (e.g. UUID). */
-const ADR_REF_REGEX = /^ADR-[a-zA-Z0-9_-]+$/i;
+/** Git trailer `Decern-Decision: <ref>[, <ref>...]` (`Refs: decern:<id>` is covered by DECERN_PREFIX). */
+const DECISION_TRAILER = /^Decern-Decision:[ \t]*(.+)$/gim;
 
 export function extractDecisionIds(text: string): string[] {
   if (!text || typeof text !== "string") return [];
@@ -82,123 +161,22 @@ export function extractDecisionIds(text: string): string[] {
       ids.add(m[1].trim());
     }
   }
-  return [...ids];
-}
-
-/** Returns whether the ref is an ADR ref (e.g. ADR-001); otherwise treated as decision ID (UUID). */
-function isAdrRef(ref: string): boolean {
-  return ADR_REF_REGEX.test(ref.trim());
-}
-
-// --- Judge: call API (after validate passes) ---
-
-type JudgeResult =
-  | { ok: true; allowed: true; reason?: string; confidence?: number; advisoryMessage?: string }
-  | { ok: true; allowed: false; reason: string; advisory?: boolean; confidence?: number }
-  | { ok: false; status: number; reason: string };
-
-async function callJudge(params: {
-  decisionRef: string;
-  diff: string;
-  truncated: boolean;
-  baseSha: string;
-  headSha: string;
-}): Promise<JudgeResult> {
-  if (!DECERN_BASE_URL || !DECERN_CI_TOKEN) {
-    return { ok: false, status: 0, reason: "DECERN_BASE_URL and DECERN_CI_TOKEN are required." };
-  }
-  const base = DECERN_BASE_URL.replace(/\/$/, "");
-  const url = new URL(JUDGE_PATH.startsWith("/") ? JUDGE_PATH : `/${JUDGE_PATH}`, `${base}/`);
-
-  const body: Record<string, unknown> = {
-    diff: params.diff,
-    truncated: params.truncated,
-    baseSha: params.baseSha,
-    headSha: params.headSha,
-  };
-  if (DECERN_JUDGE_LLM_BASE_URL && DECERN_JUDGE_LLM_API_KEY && DECERN_JUDGE_LLM_MODEL) {
-    body.llm = {
-      baseUrl: DECERN_JUDGE_LLM_BASE_URL,
-      apiKey: DECERN_JUDGE_LLM_API_KEY,
-      model: DECERN_JUDGE_LLM_MODEL,
-    };
-  }
-  if (isAdrRef(params.decisionRef)) {
-    body.adrRef = params.decisionRef.trim();
-  } else {
-    body.decisionId = params.decisionRef.trim();
-  }
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DECERN_GATE_JUDGE_TIMEOUT_MS);
-
-  try {
-    const res = await fetch(url.toString(), {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${DECERN_CI_TOKEN}`,
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const data = (await res.json().catch(() => ({}))) as {
-      allowed?: boolean;
-      reason?: string;
-      advisory?: boolean;
-      confidence?: number;
-      advisoryMessage?: string;
-    };
-
-    if (res.status !== 200) {
-      const reason = data.reason ?? `HTTP ${res.status}`;
-      return { ok: false, status: res.status, reason };
-    }
-
-    const confidence =
-      typeof data.confidence === "number" && Number.isFinite(data.confidence)
-        ? data.confidence > 1
-          ? data.confidence / 100
-          : data.confidence
-        : undefined;
-
-    if (data.allowed === true) {
-      return {
-        ok: true,
-        allowed: true,
-        reason: data.reason,
-        confidence,
-        advisoryMessage: typeof data.advisoryMessage === "string" ? data.advisoryMessage : undefined,
-      };
-    }
-    return {
-      ok: true,
-      allowed: false,
-      reason: data.reason ?? "Judge did not allow the change.",
-      advisory: data.advisory,
-      confidence,
-    };
-  } catch (e) {
-    clearTimeout(timeoutId);
-    if (e instanceof Error && e.name === "AbortError") {
-      return {
-        ok: false,
-        status: 0,
-        reason: `Judge request timeout after ${DECERN_GATE_JUDGE_TIMEOUT_MS}ms.`,
-      };
+  DECISION_TRAILER.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = DECISION_TRAILER.exec(text)) !== null) {
+    for (const value of m[1].split(/[\s,]+/)) {
+      const id = value.replace(/^decern:/i, "");
+      if (/^[a-zA-Z0-9_-]+$/.test(id)) ids.add(id);
     }
-    const msg = e instanceof Error ? e.message : String(e);
-    return { ok: false, status: 0, reason: `Judge network error: ${msg}.` };
   }
+  return [...ids];
 }
 
 // --- Git: changed files ---
 
-function getChangedFiles(): string[] {
-  const { base, head } = getBaseAndHead(CI_BASE_SHA, CI_HEAD_SHA);
-  const out = execSync(`git diff --name-only ${base}...${head}`, {
+export function getChangedFiles(config: GateConfig): string[] {
+  const { base, head } = getBaseAndHead(config.ci.baseSha, config.ci.headSha);
+  const out = execFileSync("git", ["diff", "--name-only", `${base}...${head}`], {
     encoding: "utf-8",
     maxBuffer: 4 * 1024 * 1024,
   });
@@ -212,284 +190,729 @@ function getChangedFiles(): string[] {
 
 function getCommitMessage(): string {
   try {
-    return execSync("git log -1 --pretty=%B", { encoding: "utf-8" });
+    return execFileSync("git", ["log", "-1", "--pretty=%B"], { encoding: "utf-8" });
   } catch {
     return "";
   }
 }
 
-function getPrOrCommitText(): string {
+function getPrOrCommitText(config: GateConfig): string {
+  const { prTitle, prBody, commitMessage } = config.ci;
   const parts: string[] = [];
-  if (CI_PR_TITLE) parts.push(CI_PR_TITLE);
-  if (CI_PR_BODY) parts.push(CI_PR_BODY);
+  if (prTitle) parts.push(prTitle);
+  if (prBody) parts.push(prBody);
   if (parts.length > 0) return parts.join("\n\n");
-  if (CI_COMMIT_MESSAGE) return CI_COMMIT_MESSAGE;
+  if (commitMessage) return commitMessage;
   return getCommitMessage();
 }
 
-// --- Validate: call API ---
+/** Refs from the enabled sources (refs.sources, in priority order), each with the first source it was found in. */
+function collectRefs(config: GateConfig): SourcedRef[] {
+  const refs = new Map<string, RefSource>();
+  for (const source of config.refs.sources) {
+    let found: string[];
+    switch (source) {
+      case "text":
+        found = extractDecisionIds(getPrOrCommitText(config));
+        break;
+      case "branch": {
+        const branch = config.ci.branch ?? currentGitBranch();
+        found = branch ? extractBranchRefs(branch) : [];
+        break;
+      }
+      case "labels":
+      case "issues":
+        found = parseLabelList(config.ci[source] ?? "").flatMap(extractDecisionIds);
+        break;
+    }
+    for (const ref of found) if (!refs.has(ref)) refs.set(ref, source);
+  }
+  return [...refs].map(([ref, source]) => ({ ref, source }));
+}
+
+// --- Output (deterministic) ---
+
+/** When false (JSON format), human-readable lines are suppressed and only the report is printed. */
+let textOutput = true;
+
+function log(line: string): void {
+  if (textOutput) console.log(line);
+}
+
+const MAX_FILES_LIST = 10;
+
+/** Format a list of paths for output; truncate with "… and N more" if needed. */
+function formatFileList(files: string[], max: number = MAX_FILES_LIST): string {
+  if (files.length === 0) return "(none)";
+  if (files.length <= max) return files.join(", ");
+  return `${files.slice(0, max).join(", ")} … and ${files.length - max} more`;
+}
+
+/** Logs one validate result (status, scope, Free plan warning); returns whether the decision is valid. */
+function logValidateResult(id: string, result: ValidateResult, baseUrl: string | undefined): boolean {
+  if (!result.ok) {
+    log(`Decision ${id}: FAIL — ${result.reason}`);
+    return false;
+  }
+  const statusLabel =
+    result.decisionStatus != null ? formatLabel(result.decisionStatus) : null;
+  if (statusLabel != null) {
+    log(`Decision ${id}: status ${statusLabel}.`);
+  } else {
+    log(`Decision ${id}: valid.`);
+  }
+  if (result.scopes) {
+    log(`Decision ${id}: scope ${result.scopes.join(", ")}`);
+  }
+  if (result.observationsExhausted) {
+    log("");
+    log("Warning: observation limit reached on the Free plan. Consider upgrading to Pro for full decision-gate functionality.");
+    if (baseUrl) {
+      log(`Upgrade: ${baseUrl}`);
+    }
+  }
+  return true;
+}
 
-type ValidateResult =
-  | { ok: true; decisionStatus?: string; observationsExhausted?: boolean }
-  | { ok: false; status: number; reason: string; body?: unknown };
+/** Abbreviates full SHAs; branch refs (e.g. origin/main from CI detection) are shown as is. */
+function shortRef(ref: string): string {
+  return /^[0-9a-f]{40}$/i.test(ref) ? ref.slice(0, 7) : ref;
+}
+
+/** Missing env vars required to validate refs (none with the local ADR provider). */
+function missingApiEnv(config: GateConfig): string[] {
+  if (config.provider === "local") return [];
+  const missing = [];
+  if (!config.baseUrl) missing.push("DECERN_BASE_URL");
+  if (!config.ciToken) missing.push("DECERN_CI_TOKEN");
+  return missing;
+}
 
-async function validateRef(ref: string): Promise<ValidateResult> {
-  if (!DECERN_BASE_URL || !DECERN_CI_TOKEN) {
-    return { ok: false, status: 0, reason: "DECERN_BASE_URL and DECERN_CI_TOKEN are required." };
+/** Outcome of a step that ends the gate: exit code and the final "Gate: ..." message (without the prefix). */
+type GateOutcome = { exitCode: 0 | 1; summary: string };
+
+/**
+ * Validates a ref with the configured provider: local Markdown ADRs (read at the PR base, so ADRs added or
+ * edited in the PR do not count) or the Decern API.
+ */
+async function validateDecision(config: GateConfig, ref: string): Promise<ValidateResult> {
+  if (config.provider === "local") return validateLocalAdr(config, ref, getBaseAndHead(config.ci.baseSha, config.ci.headSha).base);
+  return validateRef(config, ref, { log });
+}
+
+/** Logs the final gate line and returns the outcome. */
+function gate(exitCode: 0 | 1, summary: string): GateOutcome {
+  log(`Gate: ${summary}`);
+  return { exitCode, summary };
+}
+
+/** One judge request (the whole diff, or one chunk of it) to the Decern judge or, standalone, the LLM. */
+async function requestJudge(
+  config: GateConfig,
+  ref: string,
+  diff: JudgeDiffResult,
+  diffText: string,
+  idempotencyKey: string,
+  decision: DecisionText | undefined,
+  chunk?: { index: number; total: number }
+): Promise<JudgeResult> {
+  if (config.judge.mode === "standalone") {
+    return judgeWithLlm(config, { decisionRef: ref, decision: decision!, diff: diffText, truncated: diff.truncated, chunk }, { log });
   }
+  return callJudge(config, {
+    decisionRef: ref,
+    diff: diffText,
+    truncated: diff.truncated,
+    baseSha: diff.base,
+    headSha: diff.head,
+    idempotencyKey,
+    chunk,
+  }, { log });
+}
 
-  const base = DECERN_BASE_URL.replace(/\/$/, "");
-  const url = new URL(VALIDATE_PATH.startsWith("/") ? VALIDATE_PATH : `/${VALIDATE_PATH}`, `${base}/`);
-  if (isAdrRef(ref)) {
-    url.searchParams.set("adrRef", ref.trim());
+/**
+ * Judges the diff against one decision and logs the result. blockReason is set when this decision does
+ * not pass (request failed, not allowed, or confidence below the minimum); advisory rejections pass.
+ */
+async function judgeDecision(
+  config: GateConfig,
+  ref: string,
+  diff: JudgeDiffResult
+): Promise<{ judge: JudgeReport; blockReason?: string }> {
+  const { minConfidence } = config.judge;
+  log("");
+  log(`Judge: checking diff against decision ${ref}...`);
+
+  const model = judgeModelLabel(config);
+  // Loaded once per ref: the standalone judge prompts every chunk with it, and the cache key hashes it so an
+  // edited decision is re-judged. Without it nothing is cached.
+  const text = config.judge.mode === "standalone" || config.cache.dir ? await loadDecisionText(config, ref, { log }) : undefined;
+  let decision = "";
+  if (config.cache.dir && text) {
+    if (text.ok) decision = decisionFingerprint(text);
+    else log(`Warning: judge cache not used for ${ref} — cannot load the decision text: ${text.reason}`);
+  }
+  const cacheKey = judgeCacheKey({ ref, decision, diff: diff.diff, truncated: diff.truncated, model });
+  const cacheDir = decision ? config.cache.dir : undefined;
+  let judgeResult: JudgeResult | undefined = cacheDir && !config.cache.bypass ? readJudgeCache(cacheDir, cacheKey) : undefined;
+  const cached = judgeResult !== undefined;
+  if (judgeResult) {
+    log(`Judge: cache hit (key ${cacheKey.slice(0, 12)}) — reusing the verdict for this diff; --no-cache to re-judge.`);
   } else {
-    url.searchParams.set("decisionId", ref.trim());
+    log("Judge: analyzing diff (this may take a moment)...");
+    const chunks = diff.chunks && diff.chunks.length > 1 ? diff.chunks : undefined;
+    if (!chunks) {
+      judgeResult = await requestJudge(config, ref, diff, diff.diff, cacheKey, text);
+    } else {
+      // Map-reduce: judge each chunk, then merge into one verdict.
+      const results: JudgeResult[] = [];
+      for (const [i, c] of chunks.entries()) {
+        const chunk = { index: i + 1, total: chunks.length };
+        log(`Judge: chunk ${chunk.index}/${chunk.total} (${c.files.length} file${c.files.length === 1 ? "" : "s"})...`);
+        results.push(await requestJudge(config, ref, diff, c.diff, `${cacheKey}-${chunk.index}`, text, chunk));
+      }
+      judgeResult = mergeChunkResults(results);
+    }
+    if (cacheDir) {
+      try {
+        writeJudgeCache(cacheDir, cacheKey, ref, model, judgeResult);
+      } catch (e) {
+        log(`Warning: could not write judge cache: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
   }
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DECERN_GATE_TIMEOUT_MS);
 
-  try {
-    const res = await fetch(url.toString(), {
-      method: "GET",
-      headers: { Authorization: `Bearer ${DECERN_CI_TOKEN}` },
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const body = (await res.json().catch(() => ({}))) as {
-      valid?: boolean;
-      reason?: string;
-      status?: string;
-      observation?: boolean;
-      message?: string;
-    };
-    if (res.status === 200 && body.valid === true) {
-      // Free plan: when observation limit (7) exceeded, status is omitted and message suggests upgrade.
-      const observationsExhausted =
-        body.observation === true && body.status === undefined;
-      return {
-        ok: true,
-        decisionStatus: body.status,
-        observationsExhausted,
-      };
+  const judge: JudgeReport = {
+    ref,
+    ok: judgeResult.ok,
+    passed: false,
+    cached: cached || undefined,
+    excludedFiles: diff.excludedFiles,
+    truncated: diff.truncated,
+    chunks: diff.chunks ? diff.chunks.length : undefined,
+    unjudgedFiles: diff.unjudgedFiles,
+    ignoredFiles: diff.ignoredFiles && diff.ignoredFiles.length > 0 ? diff.ignoredFiles : undefined,
+    summarizedLockfiles: diff.summarizedLockfiles && diff.summarizedLockfiles.length > 0 ? diff.summarizedLockfiles : undefined,
+    redactions: diff.redactions && Object.keys(diff.redactions).length > 0 ? diff.redactions : undefined,
+  };
+
+  if (!judgeResult.ok) {
+    judge.reason = judgeResult.reason;
+    judge.httpStatus = judgeResult.status;
+    return { judge, blockReason: `judge request failed: ${judgeResult.reason}` };
+  }
+  judge.allowed = judgeResult.allowed;
+  judge.confidence = judgeResult.confidence;
+  judge.reason = judgeResult.reason;
+  if (!judgeResult.allowed) {
+    judge.advisory = judgeResult.advisory === true;
+    if (judgeResult.advisory === true) {
+      log(`Warning: judge (advisory) — ${judgeResult.reason}`);
+      judge.passed = true;
+      return { judge };
     }
-    const rawReason = body.reason ?? `HTTP ${res.status}`;
-    const reason = rawReason.startsWith("HTTP ") ? rawReason : formatLabel(rawReason);
-    const statusDetail =
-      body.status != null ? ` (decision status: ${formatLabel(body.status)})` : "";
-    return {
-      ok: false,
-      status: res.status,
-      reason: `${reason}${statusDetail}`,
-      body,
-    };
-  } catch (e) {
-    clearTimeout(timeoutId);
-    if (e instanceof Error && e.name === "AbortError") {
-      return { ok: false, status: 0, reason: `Request timeout after ${DECERN_GATE_TIMEOUT_MS}ms.` };
+    return { judge, blockReason: `judge: ${judgeResult.reason}` };
+  }
+  judge.advisoryMessage = judgeResult.advisoryMessage;
+
+  if (
+    minConfidence != null &&
+    judgeResult.confidence != null &&
+    judgeResult.confidence < minConfidence
+  ) {
+    const pct = Math.round(judgeResult.confidence * 100);
+    const minPct = Math.round(minConfidence * 100);
+    if (judgeResult.advisoryMessage) {
+      log(`Advisory: ${judgeResult.advisoryMessage}`);
     }
-    const msg = e instanceof Error ? e.message : String(e);
-    return { ok: false, status: 0, reason: `Network error: ${msg}.` };
+    return { judge, blockReason: `judge confidence ${pct}% is below DECERN_JUDGE_MIN_CONFIDENCE (${minPct}%).` };
   }
+
+  const confidencePct =
+    judgeResult.confidence != null ? Math.round(judgeResult.confidence * 100) : null;
+  const allowedLine =
+    confidencePct != null
+      ? `Judge: allowed. Passed at ${confidencePct}%${judgeResult.reason ? `. ${judgeResult.reason}` : ""}`
+      : `Judge: allowed. ${judgeResult.reason ? judgeResult.reason : ""}`;
+  log(allowedLine);
+  if (judgeResult.advisoryMessage) {
+    log(`Advisory: ${judgeResult.advisoryMessage}`);
+  }
+  judge.passed = true;
+  return { judge };
 }
 
-// --- Output (deterministic) ---
+/**
+ * Judge step: builds the diff once, judges it against each decision ref and combines the verdicts
+ * (judge.combine: all must pass, or any may pass). Returns the outcome and per-decision details.
+ */
+async function judgeStep(config: GateConfig, refs: string[]): Promise<GateOutcome & { judges: JudgeReport[] }> {
+  const { llm, combine, mode } = config.judge;
+  const isByoLlm = !!(llm.baseUrl && llm.apiKey && llm.model);
+  if (mode === "standalone") {
+    log(`Judge: standalone — calling ${llmProvider(llm) === "anthropic" ? "Anthropic" : "OpenAI-compatible"} LLM ${llm.model ?? "(no model)"} directly.`);
+  } else if (!isByoLlm) {
+    log("Judge: no BYO LLM configured — using Decern fair-use LLM.");
+  }
+
+  log("");
+  log("Judge: building diff...");
+
+  const { base: diffBase, head: diffHead } = getBaseAndHead(config.ci.baseSha, config.ci.headSha);
+  const { chunking } = config.judge;
+  const secretRules = config.redaction.enabled
+    ? [...customSecretRules(config.redaction.patterns), ...BUILTIN_SECRET_RULES]
+    : [];
+  const diffOptions = { secretRules, ignore: config.judge.ignore, lockfileSummaries: config.judge.lockfileSummary };
+  const judgeDiffResult = chunking.enabled
+    ? getChunkedDiffForJudge(diffBase, diffHead, { ...chunking, ...diffOptions })
+    : getDiffForJudge(diffBase, diffHead, diffOptions);
+
+  if (judgeDiffResult.ignoredFiles && judgeDiffResult.ignoredFiles.length > 0) {
+    log(`Judge: ignored by .decernjudgeignore / judge.ignore: ${formatFileList(judgeDiffResult.ignoredFiles)}`);
+  }
+  if (judgeDiffResult.summarizedLockfiles && judgeDiffResult.summarizedLockfiles.length > 0) {
+    log(`Judge: lockfile diffs replaced with package summaries: ${formatFileList(judgeDiffResult.summarizedLockfiles)}`);
+  }
+
+  const redacted = Object.entries(judgeDiffResult.redactions ?? {});
+  if (redacted.length > 0) {
+    const total = redacted.reduce((n, [, count]) => n + count, 0);
+    log(`Judge: redacted ${total} secret(s) before sending: ${redacted.map(([file, count]) => `${file} (${count})`).join(", ")}`);
+  }
+
+  if (judgeDiffResult.excludedFiles.length > 0) {
+    log(`Warning: the following files were not included in the judge (image, binary, or >1MB): ${formatFileList(judgeDiffResult.excludedFiles)}`);
+  }
+  if (judgeDiffResult.truncated) {
+    log("Warning: diff was truncated to 2MB; judge is based on partial diff.");
+  }
+  if (judgeDiffResult.chunks) {
+    log(`Judge: diff split into ${judgeDiffResult.chunks.length} chunk(s) of at most ${Math.round(chunking.maxBytes / 1024)}KB.`);
+  }
+  if (judgeDiffResult.unjudgedFiles && judgeDiffResult.unjudgedFiles.length > 0) {
+    log(`Warning: not judged (hunk larger than a chunk, or beyond ${chunking.maxChunks} chunks): ${formatFileList(judgeDiffResult.unjudgedFiles)}`);
+  }
 
-/** Turns API slugs (e.g. not_approved, proposed) into human-readable labels (Not Approved, Proposed). */
-function formatLabel(s: string): string {
-  return s
-    .split("_")
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
-    .join(" ");
+  const results: { judge: JudgeReport; blockReason?: string }[] = [];
+  for (const ref of refs) {
+    results.push(await judgeDecision(config, ref, judgeDiffResult));
+  }
+  const judges = results.map((r) => r.judge);
+  const failed = results.filter((r) => r.blockReason !== undefined);
+  const passed = combine === "all" ? failed.length === 0 : failed.length < results.length;
+  if (refs.length > 1) {
+    log("");
+    log(`Judge: ${results.length - failed.length}/${results.length} decisions passed (combine: ${combine}).`);
+  }
+
+  log("");
+  if (passed) {
+    return { ...gate(0, "passed."), judges };
+  }
+  const reasons = failed.map((r) => (refs.length > 1 ? `${r.judge.ref}: ${r.blockReason}` : r.blockReason));
+  return { ...gate(1, `blocked — ${reasons.join("; ")}`), judges };
 }
 
-function log(line: string): void {
-  console.log(line);
+/** Runs the judge for one decision ref (CLI `judge <ref>`); returns exit code (0 = pass, 1 = fail). */
+export async function runJudge(config: GateConfig, ref: string): Promise<number> {
+  return (await judgeStep(config, [ref])).exitCode;
 }
 
-const MAX_FILES_LIST = 10;
+/** Validates a single decision ref (CLI `validate <ref>`); returns exit code (0 = valid, 1 = not valid). */
+export async function runValidate(config: GateConfig, ref: string): Promise<number> {
+  const missingEnv = missingApiEnv(config);
+  if (missingEnv.length > 0) {
+    log(`Validate: missing env: ${missingEnv.join(", ")}.`);
+    return 1;
+  }
+  return logValidateResult(ref, await validateDecision(config, ref), config.baseUrl) ? 0 : 1;
+}
 
-/** Format a list of paths for output; truncate with "… and N more" if needed. */
-function formatFileList(files: string[], max: number = MAX_FILES_LIST): string {
-  if (files.length === 0) return "(none)";
-  if (files.length <= max) return files.join(", ");
-  return `${files.slice(0, max).join(", ")} … and ${files.length - max} more`;
+/** The last step once the refs are valid: "passed." or, with the judge enabled, the judge's outcome. */
+async function passOrJudge(config: GateConfig, report: GateReport, refs: string[]): Promise<GateOutcome> {
+  if (!config.judge.enabled) {
+    log("");
+    return gate(0, "passed.");
+  }
+  const { judges, ...outcome } = await judgeStep(config, refs);
+  report.judges = judges;
+  report.judge = judges[0];
+  return outcome;
+}
+
+/**
+ * Break-glass override: when the PR/commit text has a `decern-override: <justification>` marker and the
+ * override is authorized, the override is POSTed as an audit event and the gate passes without a decision.
+ * With override.requireAudit (the default) an override whose audit is not recorded is not honored; with it
+ * off, the failure is only logged, for teams that accept unaudited overrides while Decern is unreachable.
+ * Returns undefined (the gate goes on as usual) without a marker or when not authorized or not audited.
+ */
+async function overrideStep(config: GateConfig, report: GateReport, matched: FileMatch[]): Promise<GateOutcome | undefined> {
+  const justification = findOverride(getPrOrCommitText(config));
+  if (justification === undefined) return undefined;
+  if (!justification) {
+    report.override = { justification, accepted: false, reason: "no justification" };
+    log("Override: ignored — decern-override needs a justification (decern-override: <why>).");
+    log("");
+    return undefined;
+  }
+  const auth = authorizeOverride(config);
+  if (!auth.ok) {
+    report.override = { justification, accepted: false, reason: auth.reason };
+    log(`Override: ignored — ${auth.reason}.`);
+    log("");
+    return undefined;
+  }
+
+  const files = matched.map((m) => m.file);
+  const audit = await postOverrideAudit(config, {
+    justification,
+    authorizedBy: auth.by,
+    author: auth.author,
+    baseSha: config.ci.baseSha,
+    headSha: config.ci.headSha,
+    branch: config.ci.branch,
+    files,
+  }, { log });
+  report.override = {
+    justification,
+    accepted: true,
+    authorizedBy: auth.by,
+    author: auth.author,
+    audit: audit.ok ? { sent: true, httpStatus: audit.status } : { sent: false, httpStatus: audit.status || undefined, reason: audit.reason },
+  };
+  if (!audit.ok && config.override.requireAudit) {
+    report.override.accepted = false;
+    report.override.reason = `audit not recorded: ${audit.reason}`;
+    log(`Override: ignored — audit not recorded (${audit.reason}); an unaudited override is not honored.`);
+    log("Set DECERN_GATE_OVERRIDE_REQUIRE_AUDIT=false to accept overrides whose audit fails.");
+    log("");
+    return undefined;
+  }
+
+  log("!!! BREAK-GLASS OVERRIDE — the decision check is skipped !!!");
+  log(`Override: accepted (${auth.by === "token" ? "override token" : `allowed author ${auth.author}`})`);
+  log(`Justification: ${justification}`);
+  log(audit.ok ? `Audit: recorded (${config.override.auditPath})` : `Warning: override audit not recorded — ${audit.reason}`);
+  log(`A retroactive decision is required for: ${formatFileList(files)}`);
+  log("");
+  return gate(0, `passed with break-glass override — ${justification} (a retroactive decision is required).`);
+}
+
+/**
+ * Per-commit validation (validate.perCommit): every commit of base..head that touches high-impact files
+ * needs a valid ref in its own message, whose scope covers the commit's high-impact files. Returns the
+ * outcome when the gate ends here, else the valid decisions (for the judge).
+ */
+async function perCommitStep(config: GateConfig, report: GateReport): Promise<GateOutcome | { valid: ScopedDecision[] }> {
+  const { base, head } = getBaseAndHead(config.ci.baseSha, config.ci.headSha);
+  let commits: RangeCommit[];
+  try {
+    commits = getRangeCommits(base, head);
+  } catch {
+    log("Commits: could not list base..head (git error)");
+    log("");
+    return gate(1, "blocked — fix git refs or set CI_BASE_SHA / CI_HEAD_SHA.");
+  }
+  const policyOptions = {
+    extraPatterns: config.extraPatterns,
+    categories: config.categories,
+    packages: config.packages,
+    policyPaths: config.policyPaths,
+    waivers: config.waivers,
+  };
+  const checked = commits
+    .map((commit) => ({ commit, policy: isDecisionRequired(commit.files, policyOptions), refs: extractDecisionIds(commit.message) }))
+    .filter((c) => c.policy.required);
+  const ids = [...new Set(checked.flatMap((c) => c.refs))];
+  report.refs = ids;
+
+  log(`Commits: ${commits.length} in ${shortRef(base)}..${shortRef(head)}; ${checked.length} touch high-impact files and need their own decision ref.`);
+  log(`References: found ${ids.length} ref(s) (decision ID or ADR) — ${ids.length > 0 ? ids.join(", ") : "none"}`);
+  if (checked.length === 0) {
+    log("");
+    return gate(1, "blocked — high-impact change detected, but no commit in the range touches the matched files (merge commits are not checked).");
+  }
+  const missingEnv = missingApiEnv(config);
+  if (ids.length > 0 && missingEnv.length > 0) {
+    log("");
+    return gate(1, `blocked — missing env: ${missingEnv.join(", ")}. Set them in CI to validate decisions.`);
+  }
+
+  log("");
+  const results = new Map<string, ValidateResult>();
+  const validated = await mapWithConcurrency(ids, config.validate.concurrency, (id) => validateDecision(config, id));
+  ids.forEach((id, i) => {
+    const result = validated[i]!;
+    results.set(id, result);
+    report.validations.push(toValidationReport(id, result));
+    logValidateResult(id, result, config.baseUrl);
+  });
+
+  log("");
+  report.commits = [];
+  const failed: string[] = [];
+  for (const { commit, policy, refs } of checked) {
+    const valid: ScopedDecision[] = [];
+    const invalid: string[] = [];
+    for (const ref of refs) {
+      const result = results.get(ref)!;
+      if (result.ok) valid.push({ ref, scopes: result.scopes });
+      else invalid.push(ref);
+    }
+    let reason: string | undefined;
+    if (refs.length === 0) {
+      reason = "no decision ref";
+    } else if (valid.length === 0) {
+      reason = `no valid decision (${invalid.join(", ")})`;
+    } else if (config.validate.require === "all" && invalid.length > 0) {
+      reason = `not valid: ${invalid.join(", ")} (validate.require: all)`;
+    } else {
+      const uncovered = findUncovered(policy.matched, valid);
+      if (uncovered.length > 0) reason = `not covered by the scope of ${valid.map((d) => d.ref).join(", ")}: ${formatFileList(uncovered.map((m) => m.file))}`;
+    }
+    const sha = shortRef(commit.sha);
+    log(`Commit ${sha} ${commit.subject}: ${reason ? `FAIL — ${reason}` : `ok (${valid.map((d) => d.ref).join(", ")})`}`);
+    report.commits.push({ sha: commit.sha, subject: commit.subject, matched: policy.matched.map((m) => m.file), refs, passed: !reason, reason });
+    if (reason) failed.push(`${sha} (${reason})`);
+  }
+
+  if (failed.length > 0) {
+    log("");
+    const outcome = gate(1, `blocked — high-impact commit(s) without their own valid decision ref: ${failed.join(", ")}.`);
+    log("");
+    log("Each commit that touches high-impact files needs a decision ref in its message, e.g. a `Decern-Decision: ADR-012` or `Refs: decern:<id>` trailer. Reword or squash the listed commits.");
+    return outcome;
+  }
+  return {
+    valid: ids.flatMap((id) => {
+      const result = results.get(id)!;
+      return result.ok ? [{ ref: id, scopes: result.scopes }] : [];
+    }),
+  };
 }
 
-/** Runs the gate; returns exit code (0 = pass, 1 = fail). */
-export async function run(): Promise<number> {
-  const missingEnv = [];
-  if (!DECERN_BASE_URL) missingEnv.push("DECERN_BASE_URL");
-  if (!DECERN_CI_TOKEN) missingEnv.push("DECERN_CI_TOKEN");
+/**
+ * Runs the gate; returns exit code (0 = pass, 1 = fail).
+ * options.overrides: CLI flag values, applied over the config file and env.
+ * With format "json", text lines are suppressed and one GateReport document is printed at the end.
+ * Under GitHub Actions the report is also published as annotations and a job summary.
+ */
+export async function run(options: { overrides?: ConfigOverrides } = {}): Promise<number> {
+  const report = newReport();
+  const finish = (outcome: GateOutcome): number => {
+    report.exitCode = outcome.exitCode;
+    report.verdict = outcome.exitCode === 0 ? "pass" : "block";
+    report.summary = outcome.summary;
+    if (!textOutput) console.log(formatJsonReport(report));
+    publishToGithubActions(report, { jsonOutput: !textOutput });
+    textOutput = true;
+    return outcome.exitCode;
+  };
+
+  let config: GateConfig;
+  try {
+    config = loadConfig({ overrides: options.overrides });
+  } catch (e) {
+    if (!(e instanceof ConfigError)) throw e;
+    const requested = options.overrides?.format ?? process.env.DECERN_GATE_FORMAT?.trim().toLowerCase();
+    textOutput = requested !== "json";
+    log("decern-gate — high-impact change check");
+    log("");
+    for (const line of formatConfigError(e)) log(line);
+    log("");
+    return finish(gate(1, `blocked — fix the config file. ${[e.message, ...e.issues].join(" ")}`.trimEnd()));
+  }
+  textOutput = config.format === "text";
+  report.configFile = config.configFile;
 
   log("decern-gate — high-impact change check");
   log("");
+  for (const line of formatEffectiveConfig(config)) log(line);
+  log("");
+
+  const { baseUrl } = config;
+  const missingEnv = missingApiEnv(config);
 
   let changedFiles: string[];
   try {
-    changedFiles = getChangedFiles();
+    changedFiles = getChangedFiles(config);
   } catch {
     log("Diff: could not compute (git error)");
     log("Decision required: YES");
     log("Reason: cannot compute diff");
     log("");
-    log("Gate: blocked — fix git refs or set CI_BASE_SHA / CI_HEAD_SHA.");
-    return 1;
+    return finish(gate(1, "blocked — fix git refs or set CI_BASE_SHA / CI_HEAD_SHA."));
   }
 
-  if (CI_BASE_SHA && CI_HEAD_SHA) {
-    log(`Diff: ${CI_BASE_SHA.slice(0, 7)} … ${CI_HEAD_SHA.slice(0, 7)}`);
+  const { baseSha, headSha } = config.ci;
+  report.diff = { base: baseSha, head: headSha };
+  report.changedFiles = changedFiles;
+  if (baseSha && headSha) {
+    log(`Diff: ${shortRef(baseSha)} … ${shortRef(headSha)}`);
+  } else {
+    log("Diff: no base/head from CI — falling back to origin/main (or origin/master, HEAD~1) … HEAD");
   }
   log(`Changed files (${changedFiles.length}): ${formatFileList(changedFiles)}`);
   log("");
 
-  const policy = isDecisionRequired(changedFiles);
-  const matchedFiles = policy.required ? changedFiles.filter((f) => pathMatchesRequired(f, DECERN_GATE_EXTRA_PATTERNS)) : [];
+  const policy = isDecisionRequired(changedFiles, {
+    extraPatterns: config.extraPatterns,
+    categories: config.categories,
+    packages: config.packages,
+    policyPaths: config.policyPaths,
+    waivers: config.waivers,
+  });
+  report.policy = policy;
+  if (config.packages.length > 0) {
+    report.packages = [...groupByPackage([...policy.matched, ...policy.warnings])].map(([pkg, matches]) => ({
+      package: pkg,
+      configFile: config.packages.find((p) => p.dir === pkg)?.configFile,
+      matched: matches.filter((m) => policy.matched.includes(m)).map((m) => m.file),
+      warnings: matches.filter((m) => policy.warnings.includes(m)).map((m) => m.file),
+    }));
+  }
+  const formatMatches = config.packages.length > 0 ? formatMatchesByPackage : formatMatchesByCategory;
+  const expiredWaivers = config.waivers.filter((w) => isExpired(w));
+  const appliedWaivers = config.waivers.filter((w) => policy.waived.some((m) => m.waiver === w.id));
+  if (config.waivers.length > 0) report.waivers = { applied: appliedWaivers, expired: expiredWaivers };
 
   log(`Policy: decision required — ${policy.required ? "YES" : "NO"}`);
   log(`Reason: ${policy.reason}`);
-  if (matchedFiles.length > 0) {
-    log(`Matched (high-impact): ${formatFileList(matchedFiles)}`);
+  if (policy.matched.length > 0) {
+    log(`Matched (high-impact, by ${config.packages.length > 0 ? "package and " : ""}category):`);
+    for (const line of formatMatches(policy.matched)) log(line);
+  }
+  if (policy.warnings.length > 0) {
+    log("Warning: high-impact files in warn-only categories (not blocking):");
+    for (const line of formatMatches(policy.warnings)) log(line);
+  }
+  if (policy.ignored.length > 0) {
+    log(`Ignored by rule: ${formatFileList(policy.ignored.map((m) => `${m.file} (${m.rule})`))}`);
+  }
+  if (policy.waived.length > 0) {
+    log(`Waived: ${formatFileList(policy.waived.map((m) => `${m.file} (${m.waiver})`))}`);
+    for (const w of appliedWaivers) log(`  ${describeWaiver(w)}: ${w.reason}`);
   }
   log("");
 
+  if (expiredWaivers.length > 0) {
+    log("Expired waivers (no longer applied):");
+    for (const w of expiredWaivers) log(`  ${describeWaiver(w)}: ${w.reason}`);
+    log("");
+  }
+  // Waivers are read at the PR base, so the PR that removes or renews them is gated like any policy change.
+  if (expiredWaivers.length > 0 && !changedFiles.includes(WAIVERS_FILE)) {
+    const outcome = gate(1, `blocked — expired waiver(s) in .decern-waivers.yml: ${expiredWaivers.map((w) => describeWaiver(w)).join(", ")}.`);
+    log("");
+    log("Remove the expired waivers, or renew them with a new expiry date.");
+    return finish(outcome);
+  }
+
   if (!policy.required) {
-    log("Gate: passed (no high-impact patterns matched).");
-    return 0;
+    return finish(
+      gate(
+        0,
+        policy.warnings.length > 0
+          ? "passed (high-impact changes in warn-only categories)."
+          : policy.waived.length > 0
+            ? "passed (high-impact changes waived)."
+            : "passed (no high-impact patterns matched)."
+      )
+    );
   }
 
-  const text = getPrOrCommitText();
-  const ids = extractDecisionIds(text);
+  const override = await overrideStep(config, report, policy.matched);
+  if (override) return finish(override);
 
-  log(`References: found ${ids.length} ref(s) (decision ID or ADR) — ${ids.length > 0 ? ids.join(", ") : "none"}`);
+  if (config.validate.perCommit) {
+    const step = await perCommitStep(config, report);
+    if ("exitCode" in step) return finish(step);
+    return finish(await passOrJudge(config, report, step.valid.map((d) => d.ref)));
+  }
+
+  const sourced = collectRefs(config);
+  const ids = sourced.map((r) => r.ref);
+  report.refs = ids;
+  report.refSources = Object.fromEntries(sourced.map((r) => [r.ref, r.source]));
+
+  const withSource = config.refs.sources.length > 1;
+  log(
+    `References: found ${ids.length} ref(s) (decision ID or ADR) — ${
+      ids.length > 0
+        ? sourced.map((r) => (withSource ? `${r.ref} (${REF_SOURCE_LABELS[r.source]})` : r.ref)).join(", ")
+        : "none"
+    }`
+  );
 
   if (ids.length === 0) {
     log("");
-    log("Gate: blocked — high-impact change detected.");
+    const outcome = gate(1, "blocked — high-impact change detected.");
     log("");
     log("Add a Decern reference to the PR description or commit message: decision ID (decern:<uuid>, /decisions/<id>) or ADR ref (e.g. ADR-001). The decision must be approved in Decern before merge.");
-    if (DECERN_BASE_URL) {
-      log(`Dashboard: ${DECERN_BASE_URL}`);
+    if (baseUrl) {
+      log(`Dashboard: ${baseUrl}`);
     }
-    return 1;
+    return finish(outcome);
   }
 
   if (missingEnv.length > 0) {
     log("");
-    log(`Gate: blocked — missing env: ${missingEnv.join(", ")}. Set them in CI to validate decisions.`);
-    return 1;
+    return finish(gate(1, `blocked — missing env: ${missingEnv.join(", ")}. Set them in CI to validate decisions.`));
   }
 
   log("");
-  for (const id of ids) {
-    const result = await validateRef(id);
-    if (result.ok) {
-      const statusLabel =
-        result.decisionStatus != null ? formatLabel(result.decisionStatus) : null;
-      if (statusLabel != null) {
-        log(`Decision ${id}: status ${statusLabel}.`);
-      } else {
-        log(`Decision ${id}: valid.`);
-      }
-      if (result.observationsExhausted) {
-        log("");
-        log("Warning: observation limit reached on the Free plan. Consider upgrading to Pro for full decision-gate functionality.");
-        if (DECERN_BASE_URL) {
-          log(`Upgrade: ${DECERN_BASE_URL}`);
-        }
-      }
-
-      // Validate passed. Optionally run judge (LLM: diff vs decision).
-      if (!DECERN_GATE_JUDGE_ENABLED) {
-        log("");
-        log("Gate: passed.");
-        return 0;
-      }
-
-      const isByoLlm = !!(DECERN_JUDGE_LLM_BASE_URL && DECERN_JUDGE_LLM_API_KEY && DECERN_JUDGE_LLM_MODEL);
-      if (!isByoLlm) {
-        log("Judge: no BYO LLM configured — using Decern fair-use LLM.");
-      }
-
-      const lastRef = ids[ids.length - 1]!;
-      log("");
-      log(`Judge: checking diff against decision ${lastRef}...`);
-      log("Judge: building diff...");
-
-      const { base: diffBase, head: diffHead } = getBaseAndHead(CI_BASE_SHA, CI_HEAD_SHA);
-      const judgeDiffResult = getDiffForJudge(diffBase, diffHead);
-
-      if (judgeDiffResult.excludedFiles.length > 0) {
-        log(`Warning: the following files were not included in the judge (image, binary, or >1MB): ${formatFileList(judgeDiffResult.excludedFiles)}`);
-      }
-      if (judgeDiffResult.truncated) {
-        log("Warning: diff was truncated to 2MB; judge is based on partial diff.");
-      }
+  // Validate every ref concurrently; results are logged in ref order once all calls are done.
+  const results = await mapWithConcurrency(ids, config.validate.concurrency, (id) => validateDecision(config, id));
+  const valid: ScopedDecision[] = [];
+  const invalid: { ref: string; reason: string }[] = [];
+  ids.forEach((id, i) => {
+    const result = results[i]!;
+    report.validations.push(toValidationReport(id, result));
+    logValidateResult(id, result, baseUrl);
+    if (result.ok) valid.push({ ref: id, scopes: result.scopes });
+    else invalid.push({ ref: id, reason: result.reason });
+  });
 
-      log("Judge: analyzing diff (this may take a moment)...");
-      const judgeResult = await callJudge({
-        decisionRef: lastRef,
-        diff: judgeDiffResult.diff,
-        truncated: judgeDiffResult.truncated,
-        baseSha: judgeDiffResult.base,
-        headSha: judgeDiffResult.head,
-      });
-
-      if (!judgeResult.ok) {
-        log("");
-        log(`Gate: blocked — judge request failed: ${judgeResult.reason}`);
-        return 1;
-      }
-      if (!judgeResult.allowed) {
-        if (judgeResult.advisory === true) {
-          log("");
-          log(`Warning: judge (advisory) — ${judgeResult.reason}`);
-          log("Gate: passed.");
-          return 0;
-        }
-        log("");
-        log(`Gate: blocked — judge: ${judgeResult.reason}`);
-        return 1;
-      }
+  if (config.validate.require === "all" && valid.length > 0 && invalid.length > 0) {
+    log("");
+    const outcome = gate(
+      1,
+      `blocked — every referenced decision must be valid (validate.require: all); not valid: ${invalid.map((d) => `${d.ref} (${d.reason})`).join(", ")}.`
+    );
+    log("");
+    log("Remove the references to decisions that are not approved, or get them approved in Decern.");
+    return finish(outcome);
+  }
 
-      if (
-        DECERN_JUDGE_MIN_CONFIDENCE != null &&
-        judgeResult.confidence != null &&
-        judgeResult.confidence < DECERN_JUDGE_MIN_CONFIDENCE
-      ) {
-        const pct = Math.round(judgeResult.confidence * 100);
-        const minPct = Math.round(DECERN_JUDGE_MIN_CONFIDENCE * 100);
-        log("");
-        log(`Gate: blocked — judge confidence ${pct}% is below DECERN_JUDGE_MIN_CONFIDENCE (${minPct}%).`);
-        if (judgeResult.advisoryMessage) {
-          log(`Advisory: ${judgeResult.advisoryMessage}`);
-        }
-        return 1;
-      }
+  // Every matched file must be covered by a valid decision (an unscoped decision covers all).
+  const uncovered = findUncovered(policy.matched, valid);
+  if (valid.length > 0 && uncovered.length > 0) {
+    report.uncovered = uncovered;
+    log("");
+    const outcome = gate(
+      1,
+      `blocked — high-impact files not covered by the scope of any referenced decision: ${formatFileList(uncovered.map((m) => m.file))}`
+    );
+    log("Uncovered (by category):");
+    for (const line of formatMatches(uncovered)) log(line);
+    log("");
+    log("Reference a decision whose scope covers these files, or widen the scope of the referenced decision.");
+    return finish(outcome);
+  }
 
-      const confidencePct =
-        judgeResult.confidence != null ? Math.round(judgeResult.confidence * 100) : null;
-      const allowedLine =
-        confidencePct != null
-          ? `Judge: allowed. Passed at ${confidencePct}%${judgeResult.reason ? `. ${judgeResult.reason}` : ""}`
-          : `Judge: allowed. ${judgeResult.reason ? judgeResult.reason : ""}`;
-      log(allowedLine);
-      if (judgeResult.advisoryMessage) {
-        log(`Advisory: ${judgeResult.advisoryMessage}`);
-      }
-      log("");
-      log("Gate: passed.");
-      return 0;
-    }
-    log(`Decision ${id}: FAIL — ${result.reason}`);
+  if (valid.length > 0) {
+    // Validate passed. Optionally run judge (LLM: diff vs decision).
+    return finish(await passOrJudge(config, report, valid.map((d) => d.ref)));
   }
 
   log("");
-  log("Gate: blocked — no referenced decision is valid.");
+  const outcome = gate(1, "blocked — no referenced decision is valid.");
   log("");
   log("Ensure the decision is approved in Decern, or add a reference to an approved decision (decision ID or ADR-XXX in PR/commit).");
-  if (DECERN_BASE_URL) {
-    log(`Dashboard: ${DECERN_BASE_URL}`);
+  if (baseUrl) {
+    log(`Dashboard: ${baseUrl}`);
   }
-  return 1;
+  return finish(outcome);
 }
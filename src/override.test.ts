@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { overrideIdempotencyKey } from "./decern-api";
+import { authorizeOverride, findOverride } from "./override";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+describe("findOverride", () => {
+  it("returns the justification: the rest of the marker line", () => {
+    expect(findOverride("Hotfix ingress\n\ndecern-override: SEV1 checkout down, INC-4411\nmore text")).toBe(
+      "SEV1 checkout down, INC-4411"
+    );
+    expect(findOverride("Decern-Override:   rollback  ")).toBe("rollback");
+  });
+
+  it("returns an empty justification for a bare marker and undefined without one", () => {
+    expect(findOverride("decern-override:")).toBe("");
+    expect(findOverride("Fix ADR-001 typo")).toBeUndefined();
+    expect(findOverride("no-decern-override: x")).toBeUndefined();
+  });
+});
+
+describe("authorizeOverride", () => {
+  const config = (override: { token?: string; allowedAuthors?: string[] }, author?: string) => ({
+    override: { token: override.token, allowedAuthors: override.allowedAuthors ?? [], auditPath: "/audit", requireAudit: true },
+    ci: { author, sources: {} },
+  });
+
+  it("accepts any author when the override token is set", () => {
+    expect(authorizeOverride(config({ token: "s3cret" }, "mallory"))).toEqual({ ok: true, by: "token", author: "mallory" });
+  });
+
+  it("accepts allowed authors by login or email, case-insensitively", () => {
+    expect(authorizeOverride(config({ allowedAuthors: ["@Alice", "ops@example.com"] }, "alice"))).toEqual({
+      ok: true,
+      by: "author",
+      author: "alice",
+    });
+    expect(authorizeOverride(config({ allowedAuthors: ["ops@example.com"] }, "OPS@example.com")).ok).toBe(true);
+  });
+
+  it("fails closed when overrides are not configured, or the author is unknown or not allowed", () => {
+    expect(authorizeOverride(config({}, "alice"))).toMatchObject({ ok: false, reason: expect.stringMatching(/disabled/) });
+    expect(authorizeOverride(config({ allowedAuthors: ["alice"] }))).toMatchObject({ ok: false, reason: expect.stringMatching(/CI_AUTHOR/) });
+    expect(authorizeOverride(config({ allowedAuthors: ["alice"] }, "bob"))).toEqual({
+      ok: false,
+      reason: "bob is not in DECERN_GATE_OVERRIDE_AUTHORS",
+    });
+  });
+});
+
+describe("run — break-glass override", () => {
+  const g = useGateRepo();
+
+  let head: string;
+  let audits: { url: string; auth: string; key: string; body: Record<string, unknown> }[];
+
+  beforeEach(() => {
+    head = g.commit({ "k8s/ingress.yaml": "kind: Ingress\n" }, "Hotfix ingress\n\ndecern-override: SEV1 checkout down, INC-4411");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("DECERN_BASE_URL", "https://decern.test");
+    vi.stubEnv("DECERN_CI_TOKEN", "token");
+    audits = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string, init: { body: string; headers: Record<string, string> }) => {
+        audits.push({
+          url,
+          auth: init.headers.Authorization!,
+          key: init.headers["Idempotency-Key"]!,
+          body: JSON.parse(init.body) as Record<string, unknown>,
+        });
+        return new Response("{}", { status: 201 });
+      })
+    );
+  });
+
+  it("passes with the override token and records an audit event", async () => {
+    vi.stubEnv("DECERN_GATE_OVERRIDE_TOKEN", "break-glass");
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.summary).toBe("passed with break-glass override — SEV1 checkout down, INC-4411 (a retroactive decision is required).");
+    expect(report.override).toEqual({
+      justification: "SEV1 checkout down, INC-4411",
+      accepted: true,
+      authorizedBy: "token",
+      audit: { sent: true, httpStatus: 201 },
+    });
+    expect(report.validations).toEqual([]);
+    const event = {
+      justification: "SEV1 checkout down, INC-4411",
+      authorizedBy: "token" as const,
+      baseSha: g.base,
+      headSha: head,
+      files: ["k8s/ingress.yaml"],
+    };
+    expect(audits).toEqual([
+      {
+        url: "https://decern.test/api/decision-gate/override",
+        auth: "Bearer token",
+        key: overrideIdempotencyKey(event),
+        body: {
+          event: "override",
+          justification: "SEV1 checkout down, INC-4411",
+          authorizedBy: "token",
+          baseSha: g.base,
+          headSha: head,
+          files: ["k8s/ingress.yaml"],
+        },
+      },
+    ]);
+  });
+
+  it("sends the same Idempotency-Key on retries and reruns so the override is recorded once", async () => {
+    vi.stubEnv("DECERN_GATE_OVERRIDE_TOKEN", "break-glass");
+    const keys: string[] = [];
+    const statuses = [503, 201, 200];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { headers: Record<string, string> }) => {
+        keys.push(init.headers["Idempotency-Key"]!);
+        return new Response("{}", { status: statuses[keys.length - 1]! });
+      })
+    );
+    expect((await g.runJson()).code).toBe(0);
+    expect((await g.runJson()).code).toBe(0);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+    expect(keys[0]).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("does not honor an override whose audit call fails", async () => {
+    vi.stubEnv("DECERN_GATE_OVERRIDE_AUTHORS", "alice, bob");
+    vi.stubEnv("CI_AUTHOR", "bob");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ reason: "audit store down" }), { status: 500 })));
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.summary).toBe("blocked — high-impact change detected.");
+    expect(report.override).toMatchObject({
+      accepted: false,
+      authorizedBy: "author",
+      author: "bob",
+      reason: "audit not recorded: audit store down",
+    });
+    expect(report.override!.audit).toEqual({ sent: false, httpStatus: 500, reason: "audit store down" });
+  });
+
+  it("accepts allowed authors and passes when the audit fails if DECERN_GATE_OVERRIDE_REQUIRE_AUDIT=false", async () => {
+    vi.stubEnv("DECERN_GATE_OVERRIDE_AUTHORS", "alice, bob");
+    vi.stubEnv("CI_AUTHOR", "bob");
+    vi.stubEnv("DECERN_GATE_OVERRIDE_REQUIRE_AUDIT", "false");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ reason: "audit store down" }), { status: 500 })));
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.override).toMatchObject({ accepted: true, authorizedBy: "author", author: "bob" });
+    expect(report.override!.audit).toEqual({ sent: false, httpStatus: 500, reason: "audit store down" });
+  });
+
+  it("ignores the marker when no override token or allowed author is configured", async () => {
+    vi.stubEnv("CI_AUTHOR", "bob");
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.summary).toBe("blocked — high-impact change detected.");
+    expect(report.override).toMatchObject({ accepted: false, reason: expect.stringMatching(/overrides are disabled/) });
+    expect(audits).toEqual([]);
+  });
+});
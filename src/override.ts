@@ -0,0 +1,45 @@
+/**
+ * Break-glass override: a `decern-override: <justification>` line in the PR or commit text lets an
+ * emergency change through without a decision. It is honored only when DECERN_GATE_OVERRIDE_TOKEN is set
+ * in the job (e.g. a secret of a protected environment) or the CI author is in DECERN_GATE_OVERRIDE_AUTHORS.
+ * An accepted override passes with a warning and is reported to Decern as an audit event, so a
+ * retroactive decision can be required.
+ */
+
+import type { GateConfig } from "./config.js";
+
+/** The marker and its justification: the rest of the line. */
+const OVERRIDE_MARKER = /(?:^|[^\w-])decern-override:[ \t]*(.*)$/im;
+
+/** Justification of the first override marker in text; "" when the marker has none, undefined without marker. */
+export function findOverride(text: string): string | undefined {
+  const m = OVERRIDE_MARKER.exec(text ?? "");
+  return m ? m[1]!.trim() : undefined;
+}
+
+export type OverrideAuthorization =
+  | { ok: true; by: "token" | "author"; author?: string }
+  | { ok: false; reason: string };
+
+/** Normalizes a login or email for comparison: trimmed, lowercase, without a leading "@". */
+function normalizeAuthor(author: string): string {
+  return author.trim().replace(/^@/, "").toLowerCase();
+}
+
+/**
+ * Whether an override may be honored: the override token wins; else the CI author (CI_AUTHOR or detected)
+ * must be in the allowed authors. Fails closed when neither is configured or the author is unknown.
+ */
+export function authorizeOverride(config: Pick<GateConfig, "override" | "ci">): OverrideAuthorization {
+  const { token, allowedAuthors } = config.override;
+  const author = config.ci.author?.trim() || undefined;
+  if (token) return { ok: true, by: "token", author };
+  if (allowedAuthors.length === 0) {
+    return { ok: false, reason: "overrides are disabled (set DECERN_GATE_OVERRIDE_TOKEN or DECERN_GATE_OVERRIDE_AUTHORS)" };
+  }
+  if (!author) return { ok: false, reason: "the CI author is unknown (set CI_AUTHOR)" };
+  const allowed = new Set(allowedAuthors.map(normalizeAuthor));
+  return allowed.has(normalizeAuthor(author))
+    ? { ok: true, by: "author", author }
+    : { ok: false, reason: `${author} is not in DECERN_GATE_OVERRIDE_AUTHORS` };
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { findPackageConfigFiles, groupByPackage, matchPolicyPath, packageFor, type PackagePolicy } from "./packages";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const billing: PackagePolicy = {
+  dir: "packages/billing",
+  configFile: "packages/billing/.decern-gate.yml",
+  extraPatterns: ["src/ledger/**"],
+  categories: { DEPS: "block" },
+  mayLoosen: false,
+};
+const tools: PackagePolicy = {
+  dir: "tools/scripts",
+  configFile: "tools/scripts/.decern-gate.yml",
+  extraPatterns: ["!package.json"],
+  categories: {},
+  mayLoosen: false,
+};
+const nested: PackagePolicy = {
+  dir: "packages/billing/legacy",
+  configFile: "packages/billing/legacy/.decern-gate.yml",
+  extraPatterns: [],
+  categories: {},
+  mayLoosen: false,
+};
+
+describe("packageFor", () => {
+  it("resolves the nearest ancestor package", () => {
+    const packages = [billing, nested, tools];
+    expect(packageFor("packages/billing/package.json", packages)).toBe(billing);
+    expect(packageFor("packages/billing/legacy/package.json", packages)).toBe(nested);
+    expect(packageFor("packages/billing-v2/package.json", packages)).toBeUndefined();
+    expect(packageFor("package.json", packages)).toBeUndefined();
+  });
+});
+
+describe("matchPolicyPath", () => {
+  const options = { extraPatterns: [], categories: { DEPS: "warn" as const }, packages: [billing, tools] };
+
+  it("applies package patterns to the package-relative path and package levels over root levels", () => {
+    expect(matchPolicyPath("packages/billing/src/ledger/post.ts", options)).toMatchObject({
+      match: { category: "CUSTOM", rule: "src/ledger/**", source: "extra" },
+      level: "block",
+      package: billing,
+    });
+    expect(matchPolicyPath("packages/billing/package.json", options).level).toBe("block");
+    expect(matchPolicyPath("package.json", options).level).toBe("warn");
+    expect(matchPolicyPath("src/ledger/post.ts", options).match.required).toBe(false);
+  });
+
+  it("lets a package disable a built-in pattern for its files only", () => {
+    const r = matchPolicyPath("tools/scripts/package.json", options);
+    expect(r.match).toMatchObject({ required: false, rule: "!package.json", source: "ignore" });
+    expect(r.match.overridden).toMatchObject({ category: "DEPS", rule: "package.json" });
+    expect(matchPolicyPath("packages/billing/package.json", options).match.required).toBe(true);
+  });
+
+  it("does not let a package loosen a root block level unless the root allows it", () => {
+    const relaxed: PackagePolicy = { ...billing, extraPatterns: ["!k8s/**"], categories: { DEPS: "off", INFRA: "warn" } };
+    const strict = { extraPatterns: [], categories: {}, packages: [relaxed] };
+    for (const file of ["packages/billing/package.json", "packages/billing/k8s/deploy.yaml", "packages/billing/terraform/main.tf"]) {
+      expect(matchPolicyPath(file, strict)).toMatchObject({ match: { required: true }, level: "block", looseningDenied: true });
+    }
+    const allowed = { ...strict, packages: [{ ...relaxed, mayLoosen: true }] };
+    expect(matchPolicyPath("packages/billing/package.json", allowed).level).toBe("off");
+    expect(matchPolicyPath("packages/billing/k8s/deploy.yaml", allowed).match.source).toBe("ignore");
+    expect(matchPolicyPath("packages/billing/terraform/main.tf", allowed).level).toBe("warn");
+  });
+
+  it("treats nested package config files as locked gate policy files", () => {
+    const loose: PackagePolicy = { ...tools, extraPatterns: ["!**"], categories: { SECURITY: "off" }, mayLoosen: true };
+    expect(matchPolicyPath("tools/scripts/.decern-gate.yml", { extraPatterns: [], categories: {}, packages: [loose] })).toMatchObject({
+      match: { required: true, category: "SECURITY", locked: true },
+      level: "block",
+    });
+  });
+});
+
+describe("groupByPackage", () => {
+  it("lists packages first and root files last", () => {
+    const groups = groupByPackage([{ file: "a" }, { file: "b", package: "p" }, { file: "c", package: "p" }]);
+    expect([...groups].map(([k, v]) => [k, v.map((m) => m.file)])).toEqual([
+      ["p", ["b", "c"]],
+      [".", ["a"]],
+    ]);
+  });
+});
+
+describe("findPackageConfigFiles", () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), "decern-gate-packages-"));
+    execSync("git init -q", { cwd: repo });
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("finds nested config files, one per directory, without the root one", () => {
+    for (const path of [".decern-gate.yml", "packages/billing/.decern-gate.yml", "packages/billing/.decern-gate.json", "tools/x/.decern-gate.yaml", "docs/my.decern-gate.yml"]) {
+      mkdirSync(join(repo, path, ".."), { recursive: true });
+      writeFileSync(join(repo, path), "{}\n");
+    }
+    execSync("git add -A", { cwd: repo });
+    expect(findPackageConfigFiles(repo, [".decern-gate.yml", ".decern-gate.yaml", ".decern-gate.json"])).toEqual([
+      "packages/billing/.decern-gate.yml",
+      "tools/x/.decern-gate.yaml",
+    ]);
+  });
+
+  it("skips untracked files and lists the tree at a revision when given one", () => {
+    execSync("git config user.email t@example.com && git config user.name t", { cwd: repo });
+    mkdirSync(join(repo, "packages/billing"), { recursive: true });
+    mkdirSync(join(repo, "tools"), { recursive: true });
+    writeFileSync(join(repo, "packages/billing/.decern-gate.yml"), "{}\n");
+    execSync("git add -A && git commit -q -m base", { cwd: repo });
+    const base = execSync("git rev-parse HEAD", { cwd: repo, encoding: "utf-8" }).trim();
+    writeFileSync(join(repo, "tools/.decern-gate.yml"), "{}\n");
+    const names = [".decern-gate.yml"];
+    expect(findPackageConfigFiles(repo, names)).toEqual(["packages/billing/.decern-gate.yml"]);
+    execSync("git add -A && git commit -q -m head", { cwd: repo });
+    expect(findPackageConfigFiles(repo, names)).toEqual(["packages/billing/.decern-gate.yml", "tools/.decern-gate.yml"]);
+    expect(findPackageConfigFiles(repo, names, base)).toEqual(["packages/billing/.decern-gate.yml"]);
+  });
+});
+
+describe("run — monorepo packages", () => {
+  const g = useGateRepo();
+
+  beforeEach(() => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\ncategories:\n  DEPS: warn\n",
+        "packages/billing/.decern-gate.yml": "categories:\n  DEPS: block\n",
+        "tools/scripts/.decern-gate.yml": "extraPatterns:\n  - \"!package.json\"\n",
+        "docs/adr/0007-billing-deps.md": "---\nstatus: accepted\nscopes: [\"package:packages/billing\"]\n---\n",
+      },
+      "monorepo config"
+    );
+  });
+
+  it("resolves each file's policy from the nearest package config and groups the report by package", async () => {
+    const head = g.commit(
+      { "packages/billing/package.json": "{}\n", "tools/scripts/package.json": "{}\n", "package.json": "{}\n" },
+      "Bump deps (ADR-007)"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.policy!.matched).toEqual([
+      { file: "packages/billing/package.json", rule: "package.json", category: "DEPS", package: "packages/billing" },
+    ]);
+    expect(report.policy!.ignored).toEqual([
+      { file: "tools/scripts/package.json", rule: "!package.json", category: "DEPS", package: "tools/scripts" },
+    ]);
+    expect(report.packages).toEqual([
+      { package: "packages/billing", configFile: "packages/billing/.decern-gate.yml", matched: ["packages/billing/package.json"], warnings: [] },
+      { package: ".", matched: [], warnings: ["package.json"] },
+    ]);
+  });
+
+  it("does not let a decision scoped to one package unlock another", async () => {
+    g.base = g.commit({ "tools/scripts/.decern-gate.yml": "categories:\n  DEPS: block\n" }, "block tooling deps");
+    const head = g.commit({ "packages/billing/package.json": "{}\n", "tools/scripts/package.json": "{}\n" }, "Bump deps (ADR-007)");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.uncovered!.map((m) => m.file)).toEqual(["tools/scripts/package.json"]);
+  });
+
+  it("does not let a package loosen a root block level unless the root allows it", async () => {
+    g.base = g.commit({ ".decern-gate.yml": "provider: local\n" }, "root blocks DEPS");
+    const head = g.commit({ "tools/scripts/package.json": "{}\n" }, "Bump tooling deps");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const strict = await g.runJson();
+    expect(strict.code).toBe(1);
+    expect(strict.report.policy!.matched).toEqual([
+      { file: "tools/scripts/package.json", rule: "package.json", category: "DEPS", package: "tools/scripts" },
+    ]);
+
+    execSync(`git checkout -q ${g.base}`, { cwd: g.dir });
+    g.base = g.commit({ ".decern-gate.yml": "provider: local\npackages:\n  allowLoosening: true\n" }, "packages may loosen");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", g.commit({ "tools/scripts/package.json": "{}\n" }, "Bump tooling deps"));
+    const allowed = await g.runJson();
+    expect(allowed.code).toBe(0);
+    expect(allowed.report.policy!.ignored.map((m) => m.file)).toEqual(["tools/scripts/package.json"]);
+  });
+
+  it("does not apply a package config or allowLoosening the PR adds", async () => {
+    const head = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\ncategories:\n  DEPS: warn\npackages:\n  allowLoosening: true\n",
+        "services/api/.decern-gate.yml": "categories:\n  INFRA: off\n",
+        "services/api/k8s/deploy.yaml": "kind: Deployment\n",
+      },
+      "Deploy api"
+    );
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.policy!.matched.map((m) => [m.file, m.category, m.package])).toEqual([
+      [".decern-gate.yml", "SECURITY", undefined],
+      ["services/api/.decern-gate.yml", "SECURITY", undefined],
+      ["services/api/k8s/deploy.yaml", "INFRA", undefined],
+    ]);
+  });
+});
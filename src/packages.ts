@@ -0,0 +1,115 @@
+/**
+ * Monorepo packages: nested config files (e.g. packages/billing/.decern-gate.yml) set the policy for the
+ * files below them. Each changed file is resolved to the nearest ancestor directory with a config file.
+ * The package's extraPatterns are relative to its directory and checked before the root patterns (a "!"
+ * pattern disables a root or built-in match for the package); its categories override the root levels.
+ * A package may only tighten what the root blocks, unless the root config sets packages.allowLoosening.
+ * Package configs are listed and read at the PR base, like the root config: a PR cannot add or edit the
+ * package policy that judges it.
+ */
+
+import { execFileSync } from "child_process";
+import type { CategoryLevels, EnforcementLevel } from "./config.js";
+import { matchRequiredPath, type PathMatch } from "./required-patterns.js";
+
+/** Policy of one package: its directory (relative to the repo root, no trailing "/") and config file. */
+export type PackagePolicy = {
+  dir: string;
+  configFile: string;
+  extraPatterns: string[];
+  categories: Partial<CategoryLevels>;
+  /** Root packages.allowLoosening: the package may ignore or relax matches the root blocks. */
+  mayLoosen: boolean;
+};
+
+/** Package key for files outside every package (the root config applies). */
+export const ROOT_PACKAGE = ".";
+
+/**
+ * Nested config files below the repo root, one per directory: the first of `names` wins, as at the root.
+ * Lists the tree at rev (the PR base) when set, else the tracked files of the index; untracked files never
+ * count. Returns paths relative to the repo root; [] outside a git repo.
+ */
+export function findPackageConfigFiles(repoRoot: string, names: readonly string[], rev?: string): string[] {
+  const args = rev ? ["ls-tree", "-r", "--name-only", rev] : ["ls-files", "--cached", "--", ...names.map((n) => `*${n}`)];
+  let out: string;
+  try {
+    out = execFileSync("git", args, {
+      cwd: repoRoot,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch {
+    return [];
+  }
+  const byDir = new Map<string, string>();
+  for (const path of out.split("\n").map((s) => s.trim())) {
+    const slash = path.lastIndexOf("/");
+    if (slash < 0 || !names.includes(path.slice(slash + 1))) continue;
+    const dir = path.slice(0, slash);
+    const current = byDir.get(dir);
+    if (!current || names.indexOf(path.slice(slash + 1)) < names.indexOf(current.slice(slash + 1))) byDir.set(dir, path);
+  }
+  return [...byDir.values()].sort();
+}
+
+/** The package of the nearest ancestor directory with a config file; undefined for root files. */
+export function packageFor(file: string, packages: PackagePolicy[]): PackagePolicy | undefined {
+  let best: PackagePolicy | undefined;
+  for (const pkg of packages) {
+    if (file.startsWith(`${pkg.dir}/`) && (!best || pkg.dir.length > best.dir.length)) best = pkg;
+  }
+  return best;
+}
+
+export type PolicyMatch = {
+  match: PathMatch;
+  /** Enforcement level of the matched category (package levels over root levels); undefined without a category. */
+  level?: EnforcementLevel;
+  package?: PackagePolicy;
+  /** The package's rule or level would have loosened a root block match and was not applied. */
+  looseningDenied?: boolean;
+};
+
+/**
+ * Matches one changed file with package resolution: the nearest package's ignore rules and extra patterns
+ * (against the package-relative path) first, then the root extra patterns and built-in lists. Gate policy
+ * files (see matchRequiredPath) always block: no package rule or level applies to them. A root match at
+ * level block stays blocking unless the package may loosen it (packages.allowLoosening).
+ */
+export function matchPolicyPath(
+  file: string,
+  options: { extraPatterns?: string[]; categories?: Partial<CategoryLevels>; packages?: PackagePolicy[]; policyPaths?: string[] }
+): PolicyMatch {
+  const pkg = packageFor(file, options.packages ?? []);
+  const root = matchRequiredPath(file, options.extraPatterns ?? [], options.policyPaths);
+  if (root.locked) return { match: root, level: "block", package: pkg };
+  let match = root;
+  if (pkg) {
+    const local = matchRequiredPath(file.slice(pkg.dir.length + 1), pkg.extraPatterns);
+    if (local.source === "ignore") {
+      // What the package rule disables is the root or built-in match of the full path.
+      match = { ...local, overridden: root.required ? root : undefined };
+    } else if (local.source === "extra") {
+      match = local;
+    }
+  }
+  const levels = { ...options.categories, ...pkg?.categories };
+  const level = match.category ? levels[match.category] ?? "block" : undefined;
+  const rootBlocks = root.required && (options.categories?.[root.category!] ?? "block") === "block";
+  if (pkg && !pkg.mayLoosen && rootBlocks && (!match.required || level !== "block")) {
+    return { match: root, level: "block", package: pkg, looseningDenied: true };
+  }
+  return { match, level, package: pkg };
+}
+
+/** Groups matches by package (packages in first-seen order, root files last). */
+export function groupByPackage<T extends { package?: string }>(matches: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const m of [...matches.filter((m) => m.package), ...matches.filter((m) => !m.package)]) {
+    const key = m.package ?? ROOT_PACKAGE;
+    groups.set(key, [...(groups.get(key) ?? []), m]);
+  }
+  return groups;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { pathMatchesRequired } from "./required-patterns";
+import { matchRequiredPath, pathMatchesRequired } from "./required-patterns";
 
 // Helper: assert required
 function req(path: string, extra?: string[]) {
@@ -450,3 +450,128 @@ describe("pathMatchesRequired — extra patterns", () => {
     expect(req("custom\\infra\\file.ts", ["custom/infra/"])).toBe(true);
   });
 });
+
+describe("pathMatchesRequired — glob extra patterns", () => {
+  it("glob pattern matches by glob semantics", () => {
+    expect(req("services/api/migrations/0001.sql", ["**/migrations/*.sql"])).toBe(true);
+    expect(req("services/api/queries/0001.sql", ["**/migrations/*.sql"])).toBe(false);
+  });
+
+  it("glob basename pattern matches at any depth", () => {
+    expect(req("scripts/release.sh", ["release*.sh"])).toBe(true);
+  });
+});
+
+describe("pathMatchesRequired — ignore (negated) patterns", () => {
+  it("ignore rule overrides a built-in path pattern", () => {
+    expect(req("docs/auth/README.md")).toBe(true);
+    expect(req("docs/auth/README.md", ["!docs/**"])).toBe(false);
+  });
+
+  it("ignore rule overrides a built-in path pattern for a nested UI directory", () => {
+    expect(req("src/ui/charts/Bar.tsx")).toBe(true);
+    expect(req("src/ui/charts/Bar.tsx", ["!src/ui/**"])).toBe(false);
+    expect(req("charts/myapp/Chart.yaml", ["!src/ui/**"])).toBe(true);
+  });
+
+  it("ignore rule by extension", () => {
+    expect(req("security/NOTES.md", ["!**/*.md"])).toBe(false);
+    expect(req("security/config.ts", ["!**/*.md"])).toBe(true);
+  });
+
+  it("ignore rule overrides extra patterns regardless of order", () => {
+    expect(req("custom/infra/README.md", ["custom/infra/", "!*.md"])).toBe(false);
+    expect(req("custom/infra/README.md", ["!*.md", "custom/infra/"])).toBe(false);
+  });
+
+  it("non-glob ignore rule uses basename match", () => {
+    expect(req("package.json", ["!package.json"])).toBe(false);
+  });
+});
+
+describe("matchRequiredPath — deciding rule", () => {
+  it("reports the built-in path pattern", () => {
+    expect(matchRequiredPath("infra/terraform/vpc.tf")).toEqual({
+      required: true,
+      category: "INFRA",
+      rule: "terraform/",
+      source: "builtin",
+      kind: "path",
+    });
+  });
+
+  it("reports the built-in special case", () => {
+    const m = matchRequiredPath("service/Dockerfile.staging");
+    expect(m.source).toBe("builtin");
+    expect(m.kind).toBe("special");
+    expect(m.rule).toContain("Dockerfile variant");
+  });
+
+  it("reports the built-in basename", () => {
+    expect(matchRequiredPath("go.mod")).toMatchObject({ rule: "go.mod", kind: "basename" });
+  });
+
+  it("reports the extra pattern", () => {
+    expect(matchRequiredPath("a/b/deploy.sh", ["deploy.sh"])).toEqual({
+      required: true,
+      category: "CUSTOM",
+      rule: "deploy.sh",
+      source: "extra",
+      kind: "basename",
+    });
+  });
+
+  it("reports glob extra patterns", () => {
+    expect(matchRequiredPath("db/migrations/1.sql", ["**/migrations/*.sql"]).kind).toBe("glob");
+  });
+
+  it("reports the ignore rule", () => {
+    expect(matchRequiredPath("docs/auth/README.md", ["!docs/**"])).toEqual({
+      required: false,
+      category: null,
+      rule: "!docs/**",
+      source: "ignore",
+      kind: "glob",
+      overridden: { required: true, category: "SECURITY", rule: "auth/", source: "builtin", kind: "path" },
+    });
+  });
+
+  it("omits overridden when the ignore rule did not change the outcome", () => {
+    expect(matchRequiredPath("docs/intro.md", ["!docs/**"]).overridden).toBeUndefined();
+  });
+
+  it("reports no rule when nothing matched", () => {
+    expect(matchRequiredPath("src/index.ts")).toEqual({
+      required: false,
+      category: null,
+      rule: null,
+      source: null,
+      kind: null,
+    });
+  });
+});
+
+describe("matchRequiredPath — categories", () => {
+  it.each([
+    ["supabase/migrations/1.sql", "DB"],
+    ["schema.prisma", "DB"],
+    ["k8s/deploy.yaml", "INFRA"],
+    ["Dockerfile", "INFRA"],
+    ["main.tf", "INFRA"],
+    [".github/workflows/ci.yml", "CI"],
+    ["Jenkinsfile", "CI"],
+    ["package-lock.json", "DEPS"],
+    ["gradle/wrapper/gradle-wrapper.properties", "DEPS"],
+    [".github/dependabot.yml", "DEPS"],
+    ["iam/roles.ts", "SECURITY"],
+    ["CODEOWNERS", "SECURITY"],
+    ["openapi.yaml", "API"],
+    ["proto/api.proto", "API"],
+    [".env.production", "CONFIG"],
+    ["tsconfig.json", "CONFIG"],
+    ["grafana/dashboard.json", "OBSERVABILITY"],
+    ["sentry.client.config.ts", "OBSERVABILITY"],
+  ])("%s => %s", (path, category) => {
+    expect(matchRequiredPath(path).category).toBe(category);
+  });
+});
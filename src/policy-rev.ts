@@ -0,0 +1,36 @@
+/**
+ * Gate policy files are read at the PR base, not from the working tree: a PR that edits the config is
+ * judged by the policy it started from, and its edits take effect once merged (as for local ADRs).
+ * Without a resolvable base (no git, or a repo with a single commit) the working tree is read instead.
+ */
+
+import { execFileSync } from "child_process";
+import { getBaseAndHead } from "./judge-diff.js";
+
+function git(repoRoot: string, args: string[]): string {
+  return execFileSync("git", args, { cwd: repoRoot, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], maxBuffer: 16 * 1024 * 1024 });
+}
+
+/** Full sha of the PR base the policy is read at; undefined when it does not resolve to a commit. */
+export function resolvePolicyRev(repoRoot: string, ciBaseSha?: string, ciHeadSha?: string): string | undefined {
+  try {
+    const { base } = getBaseAndHead(ciBaseSha, ciHeadSha, repoRoot);
+    return git(repoRoot, ["rev-parse", "--verify", "--quiet", `${base}^{commit}`]).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Text of a repo-relative file at rev; undefined when the file does not exist there. */
+export function readFileAtRev(repoRoot: string, rev: string, path: string): string | undefined {
+  try {
+    return git(repoRoot, ["show", `${rev}:${path}`]);
+  } catch {
+    return undefined;
+  }
+}
+
+/** " at <short sha>" for messages about files read at rev. */
+export function revLabel(rev: string | undefined): string {
+  return rev ? ` at ${rev.slice(0, 7)}` : "";
+}
@@ -51,3 +51,93 @@ describe("isDecisionRequired", () => {
     expect(isDecisionRequired(["docs/openapi.something"]).required).toBe(false);
   });
 });
+
+describe("isDecisionRequired — rules", () => {
+  it("reports the matching rule for each file", () => {
+    const r = isDecisionRequired(["src/foo.ts", "Dockerfile", "k8s/deploy.yaml"]);
+    expect(r.matched.map((m) => m.file)).toEqual(["Dockerfile", "k8s/deploy.yaml"]);
+    expect(r.matched[1]!.rule).toBe("k8s/");
+  });
+
+  it("reports files excluded by an ignore rule", () => {
+    const r = isDecisionRequired(["docs/auth/README.md", "src/index.ts"], { extraPatterns: ["!docs/**"] });
+    expect(r.required).toBe(false);
+    expect(r.ignored).toEqual([{ file: "docs/auth/README.md", rule: "!docs/**", category: "SECURITY" }]);
+  });
+
+  it("reports the category of each matched file", () => {
+    const r = isDecisionRequired(["supabase/migrations/1.sql", "k8s/deploy.yaml"]);
+    expect(r.matched.map((m) => m.category)).toEqual(["DB", "INFRA"]);
+  });
+});
+
+describe("isDecisionRequired — category enforcement levels", () => {
+  it("warn categories are reported but do not require a decision", () => {
+    const r = isDecisionRequired(["package-lock.json", "src/index.ts"], { categories: { DEPS: "warn" } });
+    expect(r.required).toBe(false);
+    expect(r.warnings).toEqual([{ file: "package-lock.json", rule: "package-lock.json", category: "DEPS" }]);
+    expect(r.reason).toContain("warn-only");
+  });
+
+  it("block categories still require a decision alongside warn categories", () => {
+    const r = isDecisionRequired(["package-lock.json", "iam/policy.json"], { categories: { DEPS: "warn" } });
+    expect(r.required).toBe(true);
+    expect(r.matched.map((m) => m.file)).toEqual(["iam/policy.json"]);
+    expect(r.warnings.map((m) => m.file)).toEqual(["package-lock.json"]);
+  });
+
+  it("off categories are ignored", () => {
+    const r = isDecisionRequired(["grafana/dashboard.json"], { categories: { OBSERVABILITY: "off" } });
+    expect(r.required).toBe(false);
+    expect(r.warnings).toEqual([]);
+    expect(r.ignored).toEqual([{ file: "grafana/dashboard.json", rule: "OBSERVABILITY=off", category: "OBSERVABILITY" }]);
+  });
+
+  it("skips files covered by an unexpired waiver and reports them as waived", () => {
+    const waivers = [
+      { id: ".decern-waivers.yml#1", paths: ["charts/"], categories: [], owner: "ui", reason: "UI charts", expires: "2026-12-31" },
+      { id: ".decern-waivers.yml#2", paths: ["k8s/"], categories: [], owner: "ops", reason: "old", expires: "2026-01-31" },
+    ];
+    const r = isDecisionRequired(["charts/ui/values.yaml", "k8s/app.yaml"], { waivers, today: "2026-06-01" });
+    expect(r.matched.map((m) => m.file)).toEqual(["k8s/app.yaml"]);
+    expect(r.waived).toEqual([{ file: "charts/ui/values.yaml", rule: "charts/", category: "INFRA", waiver: ".decern-waivers.yml#1" }]);
+    const all = isDecisionRequired(["charts/ui/values.yaml"], { waivers, today: "2026-06-01" });
+    expect(all.required).toBe(false);
+    expect(all.reason).toBe("High-impact patterns matched, all waived: charts/ui/values.yaml");
+  });
+
+  it("extra patterns use the CUSTOM category", () => {
+    const r = isDecisionRequired(["scripts/deploy.sh"], { extraPatterns: ["deploy.sh"], categories: { CUSTOM: "warn" } });
+    expect(r.required).toBe(false);
+    expect(r.warnings[0]!.category).toBe("CUSTOM");
+  });
+});
+
+describe("isDecisionRequired — gate policy files", () => {
+  it("requires a decision for the gate's own config file, at any depth", () => {
+    for (const file of [".decern-gate.yml", ".decern-gate.yaml", ".decern-gate.json", ".decernjudgeignore", ".decern-waivers.yml", "packages/api/.decern-gate.yml"]) {
+      const r = isDecisionRequired([file]);
+      expect(r.required).toBe(true);
+      expect(r.matched).toEqual([{ file, rule: file.split("/").pop(), category: "SECURITY" }]);
+    }
+  });
+
+  it("cannot be turned off by ignore rules, category levels or waivers", () => {
+    const waivers = [{ id: ".decern-waivers.yml#1", paths: ["**"], categories: [], owner: "x", reason: "x", expires: "2099-12-31" }];
+    const r = isDecisionRequired([".decern-gate.yml", "src/app.ts"], {
+      extraPatterns: ["!**", "!.decern-gate.yml"],
+      categories: { SECURITY: "off" },
+      waivers,
+      today: "2026-06-01",
+    });
+    expect(r.required).toBe(true);
+    expect(r.matched.map((m) => m.file)).toEqual([".decern-gate.yml"]);
+    expect(r.ignored).toEqual([]);
+    expect(r.waived).toEqual([]);
+  });
+
+  it("locks policy paths loaded from another location", () => {
+    const r = isDecisionRequired(["ci/gate.yaml"], { policyPaths: ["ci/gate.yaml"], extraPatterns: ["!ci/**"] });
+    expect(r.matched).toEqual([{ file: "ci/gate.yaml", rule: "ci/gate.yaml", category: "SECURITY" }]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Secret redaction for the judge payload: common token formats (cloud keys, private key blocks, JWTs,
+ * `password=` / `secret:` assignments, high-entropy strings) and configured patterns are replaced with
+ * stable placeholders, `[REDACTED:<rule>:<hash>]`, before the diff leaves the machine. The same secret
+ * always gets the same placeholder, so the judge can still tell values apart and cache keys stay stable.
+ */
+
+import { createHash } from "crypto";
+
+export type SecretRule = {
+  name: string;
+  /** Global regex; when it has a capture group, only group 1 is redacted. */
+  regex: RegExp;
+};
+
+/** Built-in rules, applied in order (specific formats before the generic assignment and entropy rules). */
+export const BUILTIN_SECRET_RULES: SecretRule[] = [
+  { name: "aws-access-key", regex: /\b((?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[A-Z0-9]{16})\b/g },
+  { name: "github-token", regex: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "slack-token", regex: /\b(xox[abposr]-[A-Za-z0-9-]{10,})\b/g },
+  { name: "stripe-key", regex: /\b((?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,})\b/g },
+  { name: "google-api-key", regex: /\b(AIza[0-9A-Za-z_-]{35})\b/g },
+  { name: "jwt", regex: /\b(eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,})\b/g },
+  { name: "url-credentials", regex: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@"']+:([^\s@/"']+)@/gi },
+  {
+    name: "assignment",
+    regex:
+      /\b[A-Za-z0-9_.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|credentials?)[A-Za-z0-9_.-]*["']?\s*[:=]\s*["']?([^\s"',;]{4,})/gi,
+  },
+];
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+const ENTROPY_CANDIDATE = /(?<![A-Za-z0-9+/_-])[A-Za-z0-9+/_-]{32,}={0,2}(?![A-Za-z0-9+/_=-])/g;
+const MIN_ENTROPY_BITS = 4.5;
+const PLACEHOLDER = /(\[REDACTED:[a-z0-9-]+:[0-9a-f]{8}\])/;
+
+/** Compiles configured patterns (regex sources) into rules named custom-1, custom-2, ... */
+export function customSecretRules(patterns: string[]): SecretRule[] {
+  return patterns.map((source, i) => ({ name: `custom-${i + 1}`, regex: new RegExp(source, "g") }));
+}
+
+export function placeholder(rule: string, secret: string): string {
+  return `[REDACTED:${rule}:${createHash("sha256").update(secret).digest("hex").slice(0, 8)}]`;
+}
+
+/** Shannon entropy in bits per character. */
+export function shannonEntropy(s: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of s) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / s.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Assigned values that reference a secret rather than contain one: ${VAR}, {{ secrets.X }}, <placeholder>,
+ * calls, property chains (process.env.TOKEN) and booleans.
+ */
+function isReference(value: string): boolean {
+  return (
+    /^(?:\$|%|\{\{|<)/.test(value) ||
+    value.includes("(") ||
+    /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+$/.test(value) ||
+    /^(?:true|false|null|none|undefined)$/i.test(value)
+  );
+}
+
+/** Applies fn to the parts of text outside placeholders, so later rules never match inside a redaction. */
+function outsidePlaceholders(text: string, fn: (part: string) => string): string {
+  return text
+    .split(PLACEHOLDER)
+    .map((part, i) => (i % 2 === 1 ? part : fn(part)))
+    .join("");
+}
+
+/** Redacts one line of content (without the diff prefix); returns the new text and the number of redactions. */
+function redactText(text: string, rules: SecretRule[], entropy: boolean): { text: string; count: number } {
+  let count = 0;
+  let out = text;
+  for (const rule of rules) {
+    out = outsidePlaceholders(out, (part) =>
+      part.replace(rule.regex, (match: string, ...groups: unknown[]) => {
+        const secret = typeof groups[0] === "string" ? groups[0] : match;
+        if (!secret || (rule.name === "assignment" && isReference(secret))) return match;
+        count++;
+        return match.replace(secret, placeholder(rule.name, secret));
+      })
+    );
+  }
+  if (entropy) {
+    out = outsidePlaceholders(out, (part) => part.replace(ENTROPY_CANDIDATE, (token: string) => {
+      // Integrity hashes (sha512-...) and hex digests (commit SHAs, checksums) are not secrets.
+      if (/^[0-9a-f]+$/i.test(token) || /^sha\d+-/.test(token)) return token;
+      if (!/[0-9]/.test(token) || !/[a-z]/.test(token) || !/[A-Z]/.test(token)) return token;
+      if (shannonEntropy(token) < MIN_ENTROPY_BITS) return token;
+      count++;
+      return placeholder("high-entropy", token);
+    }));
+  }
+  return { text: out, count };
+}
+
+/**
+ * Redacts secrets in one file's diff segment. File headers ("diff --git", "index", "---", "+++") and hunk
+ * headers are kept; content lines keep their +/-/space prefix. A private key block becomes one placeholder
+ * (hashed over the whole block) on its BEGIN line; the other block lines are emptied so line counts hold.
+ */
+export function redactSegment(segment: string, rules: SecretRule[], options: { entropy?: boolean } = {}): { segment: string; count: number } {
+  const entropy = options.entropy ?? true;
+  const out: string[] = [];
+  let count = 0;
+  let inHunk = false;
+  let key: { index: number; lead: string; block: string[] } | undefined;
+  const closeKey = () => {
+    if (!key) return;
+    out[key.index] = `${key.lead}${placeholder("private-key", key.block.join("\n"))}`;
+    key = undefined;
+  };
+
+  for (const line of segment.split("\n")) {
+    if (!inHunk || line.startsWith("@@")) {
+      inHunk ||= line.startsWith("@@");
+      out.push(line);
+      continue;
+    }
+    const prefix = line.slice(0, 1);
+    const content = line.slice(1);
+    if (key) {
+      key.block.push(content);
+      out.push(prefix);
+      if (PRIVATE_KEY_END.test(content)) closeKey();
+      continue;
+    }
+    const begin = content.search(PRIVATE_KEY_BEGIN);
+    if (begin >= 0) {
+      count++;
+      key = { index: out.length, lead: `${prefix}${content.slice(0, begin)}`, block: [content.slice(begin)] };
+      out.push("");
+      if (PRIVATE_KEY_END.test(content)) closeKey();
+      continue;
+    }
+    const redacted = redactText(content, rules, entropy);
+    count += redacted.count;
+    out.push(`${prefix}${redacted.text}`);
+  }
+  closeKey();
+  return { segment: out.join("\n"), count };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from "vitest";
+import { extractBranchRefs, parseLabelList } from "./ref-sources";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+describe("extractBranchRefs", () => {
+  it("takes the ADR or DECERN number, not the description after it", () => {
+    expect(extractBranchRefs("feature/ADR-042-new-queue")).toEqual(["ADR-042"]);
+    expect(extractBranchRefs("fix/adr-7_hotfix")).toEqual(["ADR-7"]);
+    expect(extractBranchRefs("DECERN-15/ADR-3.1")).toEqual(["15", "ADR-3"]);
+  });
+
+  it("ignores refs embedded in other words", () => {
+    expect(extractBranchRefs("feature/MADR-12")).toEqual([]);
+    expect(extractBranchRefs("main")).toEqual([]);
+  });
+});
+
+describe("parseLabelList", () => {
+  it("accepts comma or newline separated values", () => {
+    expect(parseLabelList("decern:ADR-042, needs-review\nbackend")).toEqual(["decern:ADR-042", "needs-review", "backend"]);
+  });
+
+  it("accepts a JSON array of strings or of { name } objects", () => {
+    expect(parseLabelList('["decern:ADR-1", "infra"]')).toEqual(["decern:ADR-1", "infra"]);
+    expect(parseLabelList('[{ "name": "decern:ADR-2" }, { "color": "red" }]')).toEqual(["decern:ADR-2"]);
+  });
+
+  it("falls back to a separated list when the JSON is invalid", () => {
+    expect(parseLabelList("[wip], ADR-3")).toEqual(["[wip]", "ADR-3"]);
+  });
+});
+
+describe("run — ref sources", () => {
+  const g = useGateRepo();
+
+  it("collects refs from the branch name and labels, with their source", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\nrefs:\n  sources: [labels, branch, text]\n",
+        "docs/adr/0042-queue.md": "---\nstatus: accepted\n---\n",
+        "docs/adr/0043-retry.md": "---\nstatus: accepted\n---\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit({ "k8s/queue.yaml": "kind: Deployment\n" }, "Add queue (ADR-043)");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    vi.stubEnv("CI_BRANCH", "feature/ADR-042-new-queue");
+    vi.stubEnv("CI_PR_LABELS", '["decern:ADR-043", "backend"]');
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.refs).toEqual(["ADR-043", "ADR-042"]);
+    expect(report.refSources).toEqual({ "ADR-043": "labels", "ADR-042": "branch" });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Decision ref sources besides the PR/commit text: the branch name (`feature/ADR-042-new-queue`),
+ * PR/MR labels (`decern:ADR-042`) and linked issue keys. `refs.sources` lists the enabled sources in
+ * priority order; refs are collected in that order and each is attributed to the first source it came from.
+ */
+
+import { execFileSync } from "child_process";
+
+export const REF_SOURCES = ["text", "branch", "labels", "issues"] as const;
+
+export type RefSource = (typeof REF_SOURCES)[number];
+
+/** Human-readable source names for output. */
+export const REF_SOURCE_LABELS: Record<RefSource, string> = {
+  text: "PR/commit text",
+  branch: "branch name",
+  labels: "labels",
+  issues: "linked issues",
+};
+
+/** A ref and the source it was first found in. */
+export type SourcedRef = { ref: string; source: RefSource };
+
+/**
+ * Splits a label (or issue key) list: a JSON array of strings or of { name } objects, else values
+ * separated by commas or newlines.
+ */
+export function parseLabelList(value: string): string[] {
+  const text = value.trim();
+  if (text.startsWith("[")) {
+    try {
+      const list = JSON.parse(text) as unknown;
+      if (Array.isArray(list)) {
+        return list
+          .map((item) => (typeof item === "string" ? item : (item as { name?: unknown } | null)?.name))
+          .filter((name): name is string => typeof name === "string" && !!name.trim())
+          .map((name) => name.trim());
+      }
+    } catch {
+      // Not JSON after all: fall through to the separated list.
+    }
+  }
+  return text
+    .split(/[,\n]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Refs in a branch name: ADR-<number> and DECERN-<number> delimited by "/", "-", "_" or ".", so the
+ * description after the number is not part of the ref (`feature/ADR-042-new-queue` → ADR-042).
+ */
+export function extractBranchRefs(branch: string): string[] {
+  const refs = new Set<string>();
+  for (const m of branch.matchAll(/(?:^|[/_.-])(ADR-\d+|DECERN-\d+)(?=$|[/_.-])/gi)) {
+    const ref = m[1]!;
+    refs.add(/^decern-/i.test(ref) ? ref.slice("DECERN-".length) : ref.toUpperCase());
+  }
+  return [...refs];
+}
+
+/** The checked-out branch from git; undefined on a detached HEAD or git error. */
+export function currentGitBranch(): string | undefined {
+  try {
+    const branch = execFileSync("git", ["rev-parse", "--abbrev-ref", "HEAD"], { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+    return branch && branch !== "HEAD" ? branch : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { REPORT_SCHEMA_VERSION, toValidationReport } from "./report";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+describe("toValidationReport", () => {
+  it("maps a valid result", () => {
+    expect(toValidationReport("ADR-001", { ok: true, decisionStatus: "approved", observationsExhausted: false })).toEqual({
+      ref: "ADR-001",
+      valid: true,
+      decisionStatus: "approved",
+      observationsExhausted: undefined,
+    });
+  });
+
+  it("maps a failed result with HTTP status and decision status", () => {
+    expect(
+      toValidationReport("ADR-002", {
+        ok: false,
+        status: 422,
+        reason: "Not Approved (decision status: Proposed)",
+        body: { valid: false, status: "proposed" },
+      })
+    ).toEqual({
+      ref: "ADR-002",
+      valid: false,
+      decisionStatus: "proposed",
+      reason: "Not Approved (decision status: Proposed)",
+      httpStatus: 422,
+    });
+  });
+});
+
+describe("run — JSON output", () => {
+  const g = useGateRepo();
+
+  it("prints only one JSON document with the pass verdict", async () => {
+    const head = g.commit({ "src/index.ts": "export {};\n" }, "feat: code");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report, printed } = await g.runJson();
+    expect(printed).toHaveLength(1);
+    expect(code).toBe(0);
+    expect(report).toMatchObject({
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      verdict: "pass",
+      exitCode: 0,
+      changedFiles: ["src/index.ts"],
+      policy: { required: false, matched: [] },
+      refs: [],
+      validations: [],
+    });
+  });
+
+  it("reports matched files with categories and the block verdict", async () => {
+    const head = g.commit({ "db/migrations/001.sql": "create table t();\n" }, "add migration ADR-007");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.verdict).toBe("block");
+    expect(report.policy!.matched).toEqual([{ file: "db/migrations/001.sql", rule: "db/migrations/", category: "DB" }]);
+    expect(report.refs).toEqual(["ADR-007"]);
+    expect(report.summary).toContain("missing env: DECERN_BASE_URL, DECERN_CI_TOKEN");
+  });
+
+  it("reports config errors as a block verdict", async () => {
+    writeFileSync(join(g.dir, ".decern-gate.yml"), "nope: 1\n");
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.verdict).toBe("block");
+    expect(report.summary).toContain('Unknown key "nope".');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Machine-readable gate result (`--format json` / DECERN_GATE_FORMAT=json).
+ * The schema is versioned: bump REPORT_SCHEMA_VERSION on breaking changes (removed or renamed fields).
+ */
+
+import type { ValidateResult } from "./decern-api.js";
+import type { FileMatch, WaivedMatch } from "./main.js";
+import type { RefSource } from "./ref-sources.js";
+import type { Waiver } from "./waivers.js";
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export const OUTPUT_FORMATS = ["text", "json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type ValidationReport = {
+  ref: string;
+  valid: boolean;
+  /** Decision status from the API (e.g. "approved"), when returned. */
+  decisionStatus?: string;
+  /** Why the ref is not valid. */
+  reason?: string;
+  /** HTTP status of the validate call; 0 when no response (timeout, network error, missing env). */
+  httpStatus?: number;
+  observationsExhausted?: boolean;
+  /** Scopes declared by the decision (globs or categories); absent = covers every file. */
+  scopes?: string[];
+};
+
+export type JudgeReport = {
+  ref: string;
+  /** False when the judge request itself failed (non-200, timeout, network). */
+  ok: boolean;
+  /** Whether this decision passes: allowed (at or above min confidence) or rejected as advisory only. */
+  passed: boolean;
+  allowed?: boolean;
+  /** 0–1. */
+  confidence?: number;
+  advisory?: boolean;
+  advisoryMessage?: string;
+  reason?: string;
+  httpStatus?: number;
+  /** True when the verdict came from the judge cache (same decision, diff and model) instead of a new request. */
+  cached?: boolean;
+  /** Files left out of the judge payload (image, binary, >1MB, or cut by the 2MB cap). */
+  excludedFiles: string[];
+  truncated: boolean;
+  /** Chunked judging: number of chunks judged (verdict merged). */
+  chunks?: number;
+  /** Chunked judging: files not judged, or only partly (hunk larger than a chunk, or past the chunk limit). */
+  unjudgedFiles?: string[];
+  /** Files left out by .decernjudgeignore / judge.ignore rules. */
+  ignoredFiles?: string[];
+  /** Lockfiles sent as a package-level summary instead of their raw patch. */
+  summarizedLockfiles?: string[];
+  /** Secrets replaced with placeholders before sending, per file. */
+  redactions?: Record<string, number>;
+};
+
+/** validate.perCommit: one high-impact commit of base..head and whether its own refs cover it. */
+export type CommitReport = {
+  sha: string;
+  subject: string;
+  /** High-impact files changed by this commit. */
+  matched: string[];
+  /** Decision refs found in this commit's message. */
+  refs: string[];
+  passed: boolean;
+  /** Why the commit fails: no ref, no valid ref, or files outside the decisions' scopes. */
+  reason?: string;
+};
+
+/** High-impact files of one monorepo package, resolved by the nearest nested config file. */
+export type PackageReport = {
+  /** Package directory, or "." for files outside every package. */
+  package: string;
+  configFile?: string;
+  matched: string[];
+  warnings: string[];
+};
+
+/** Break-glass override marker found in the PR/commit text, and whether it was honored. */
+export type OverrideReport = {
+  justification: string;
+  accepted: boolean;
+  /** How the override was authorized: DECERN_GATE_OVERRIDE_TOKEN or DECERN_GATE_OVERRIDE_AUTHORS. */
+  authorizedBy?: "token" | "author";
+  author?: string;
+  /** Why the override was not honored. */
+  reason?: string;
+  /** Audit event POSTed to override.auditPath (accepted overrides only). */
+  audit?: { sent: boolean; httpStatus?: number; reason?: string };
+};
+
+export type GateReport = {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  verdict: "pass" | "block";
+  exitCode: 0 | 1;
+  /** Final gate message, e.g. "passed." or "blocked — judge: ...". */
+  summary: string;
+  configFile?: string;
+  diff?: { base?: string; head?: string };
+  changedFiles: string[];
+  policy?: {
+    required: boolean;
+    reason: string;
+    matched: FileMatch[];
+    warnings: FileMatch[];
+    ignored: FileMatch[];
+    /** High-impact files skipped by an unexpired waiver, with the waiver's id. */
+    waived?: WaivedMatch[];
+  };
+  /** Monorepo packages (nested config files): high-impact files grouped by package ("." = root config). */
+  packages?: PackageReport[];
+  /** Present when .decern-waivers.yml has waivers: the ones applied to this diff, and the expired ones (they block). */
+  waivers?: { applied: Waiver[]; expired: Waiver[] };
+  refs: string[];
+  /** Source of each ref (text, branch, labels, issues): the first enabled source it was found in. */
+  refSources?: Record<string, RefSource>;
+  validations: ValidationReport[];
+  /** High-impact files not covered by the scopes of any valid referenced decision. */
+  uncovered?: FileMatch[];
+  /** Present when the PR/commit text carries a decern-override marker. */
+  override?: OverrideReport;
+  /** validate.perCommit: the commits that touch high-impact files, each checked against its own refs. */
+  commits?: CommitReport[];
+  /** First entry of `judges`; kept for schema v1 consumers. */
+  judge?: JudgeReport;
+  /** Judge result per validated decision, combined with judge.combine (all / any). */
+  judges?: JudgeReport[];
+};
+
+export function newReport(): GateReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    verdict: "block",
+    exitCode: 1,
+    summary: "",
+    changedFiles: [],
+    refs: [],
+    validations: [],
+  };
+}
+
+export function toValidationReport(ref: string, result: ValidateResult): ValidationReport {
+  if (result.ok) {
+    return {
+      ref,
+      valid: true,
+      decisionStatus: result.decisionStatus,
+      observationsExhausted: result.observationsExhausted || undefined,
+      scopes: result.scopes,
+    };
+  }
+  const body = result.body as { status?: unknown } | undefined;
+  return {
+    ref,
+    valid: false,
+    decisionStatus: typeof body?.status === "string" ? body.status : undefined,
+    reason: result.reason,
+    httpStatus: result.status,
+  };
+}
+
+/** Serializes the report as one JSON document. */
+export function formatJsonReport(report: GateReport): string {
+  return JSON.stringify(report, null, 2);
+}
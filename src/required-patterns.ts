@@ -2,9 +2,13 @@
  * File patterns that require an approved decision (high-impact changes).
  * Path patterns: match via normalized.includes(pattern).
  * Basenames: match via equals or startsWith/endsWith for known variants.
- * Optional extraPatterns from env DECERN_GATE_EXTRA_PATTERNS (comma-separated): path substring or basename.
+ * Special cases: labelled variants (Dockerfile.*, .env.*, tsconfig.*.json, ...).
+ * Optional extraPatterns (config file or DECERN_GATE_EXTRA_PATTERNS): glob, path substring or basename;
+ * "!"-prefixed patterns are ignore rules that override everything else, except the gate's own policy files.
  */
 
+import { hasGlobChars, matchesGlob } from "./glob.js";
+
 // ---------------------------------------------------------------------------
 // 1) DATABASE / SCHEMA
 // ---------------------------------------------------------------------------
@@ -155,6 +159,17 @@ const DEPS_BASENAMES = [
   "MODULE.bazel",
 ];
 
+// ---------------------------------------------------------------------------
+// GATE POLICY (the gate's own config: a PR must not loosen the policy that gates it)
+// ---------------------------------------------------------------------------
+export const GATE_POLICY_BASENAMES: readonly string[] = [
+  ".decern-gate.yml",
+  ".decern-gate.yaml",
+  ".decern-gate.json",
+  ".decernjudgeignore",
+  ".decern-waivers.yml",
+];
+
 // ---------------------------------------------------------------------------
 // 5) AUTH / SECURITY / ACCESS
 // ---------------------------------------------------------------------------
@@ -175,6 +190,7 @@ const SECURITY_PATH_PATTERNS = [
 ];
 
 const SECURITY_BASENAMES = [
+  ...GATE_POLICY_BASENAMES,
   "CODEOWNERS",
   ".snyk",
   ".gitleaks.toml",
@@ -256,6 +272,43 @@ const OBSERVABILITY_BASENAMES = [
 // ---------------------------------------------------------------------------
 const GRADLE_PATH_PATTERNS = ["gradle/wrapper/"];
 
+// ---------------------------------------------------------------------------
+// CATEGORIES
+// ---------------------------------------------------------------------------
+
+/** Built-in pattern categories, plus CUSTOM for user extra patterns. */
+export const PATTERN_CATEGORIES = [
+  "DB",
+  "INFRA",
+  "CI",
+  "DEPS",
+  "SECURITY",
+  "API",
+  "CONFIG",
+  "OBSERVABILITY",
+  "CUSTOM",
+] as const;
+
+export type PatternCategory = (typeof PATTERN_CATEGORIES)[number];
+
+type CategoryPatterns = {
+  category: PatternCategory;
+  pathPatterns: readonly string[];
+  basenames: readonly string[];
+};
+
+/** Built-in lists by category, in matching order. */
+export const CATEGORY_PATTERNS: readonly CategoryPatterns[] = [
+  { category: "DB", pathPatterns: DB_PATH_PATTERNS, basenames: DB_BASENAMES },
+  { category: "INFRA", pathPatterns: INFRA_PATH_PATTERNS, basenames: INFRA_BASENAMES },
+  { category: "CI", pathPatterns: CI_PATH_PATTERNS, basenames: CI_BASENAMES },
+  { category: "DEPS", pathPatterns: GRADLE_PATH_PATTERNS, basenames: DEPS_BASENAMES },
+  { category: "SECURITY", pathPatterns: SECURITY_PATH_PATTERNS, basenames: SECURITY_BASENAMES },
+  { category: "API", pathPatterns: API_PATH_PATTERNS, basenames: API_BASENAMES },
+  { category: "CONFIG", pathPatterns: [], basenames: CONFIG_BASENAMES },
+  { category: "OBSERVABILITY", pathPatterns: OBSERVABILITY_PATH_PATTERNS, basenames: OBSERVABILITY_BASENAMES },
+];
+
 // ---------------------------------------------------------------------------
 // COMBINED EXPORTS (readonly arrays for public API)
 // ---------------------------------------------------------------------------
@@ -281,90 +334,241 @@ export const REQUIRED_BASENAMES: readonly string[] = [
   ...OBSERVABILITY_BASENAMES,
 ];
 
-export function pathMatchesRequired(path: string, extraPatterns?: string[]): boolean {
-  const normalized = path.replace(/\\/g, "/");
-  const basename = normalized.split("/").pop() ?? normalized;
+const PATH_PATTERN_CATEGORY = new Map<string, PatternCategory>();
+const BASENAME_CATEGORY = new Map<string, PatternCategory>();
+for (const { category, pathPatterns, basenames } of CATEGORY_PATTERNS) {
+  for (const p of pathPatterns) if (!PATH_PATTERN_CATEGORY.has(p)) PATH_PATTERN_CATEGORY.set(p, category);
+  for (const b of basenames) if (!BASENAME_CATEGORY.has(b)) BASENAME_CATEGORY.set(b, category);
+}
 
-  if (extraPatterns && extraPatterns.length > 0) {
-    for (const p of extraPatterns) {
-      if (p.includes("/")) {
-        if (normalized.includes(p)) return true;
-      } else if (basename === p) {
-        return true;
-      }
-    }
-  }
+// ---------------------------------------------------------------------------
+// SPECIAL CASES (variants that cannot be expressed as a path substring or exact basename)
+// ---------------------------------------------------------------------------
 
-  for (const p of REQUIRED_PATH_PATTERNS) {
-    if (normalized.includes(p)) return true;
-  }
-  // Dependabot config (exact path or under repo root)
-  if (
-    normalized === ".github/dependabot.yml" ||
-    normalized.endsWith("/.github/dependabot.yml") ||
-    normalized === ".github/dependabot.yaml" ||
-    normalized.endsWith("/.github/dependabot.yaml")
-  )
-    return true;
+type SpecialCase = {
+  /** Human-readable rule label (shown in policy output). */
+  label: string;
+  category: PatternCategory;
+  test: (normalized: string, basename: string) => boolean;
+};
 
-  // Terraform files (any path)
-  if (
-    basename.endsWith(".tf") ||
-    basename.endsWith(".tfvars") ||
-    basename.endsWith(".tf.json") ||
-    basename === ".terraform.lock.hcl" ||
-    basename === ".tflint.hcl"
-  )
-    return true;
+const JS_CONFIG_EXTENSIONS = [".js", ".mjs", ".ts", ".cjs"];
+
+function endsWithAny(s: string, suffixes: string[]): boolean {
+  return suffixes.some((x) => s.endsWith(x));
+}
 
+const SPECIAL_CASES: readonly SpecialCase[] = [
+  // Dependabot config (exact path or under repo root)
+  {
+    label: ".github/dependabot.(yml|yaml)",
+    category: "DEPS",
+    test: (n) =>
+      n === ".github/dependabot.yml" ||
+      n.endsWith("/.github/dependabot.yml") ||
+      n === ".github/dependabot.yaml" ||
+      n.endsWith("/.github/dependabot.yaml"),
+  },
+  // Terraform files (any path)
+  {
+    label: "Terraform file (*.tf, *.tfvars, *.tf.json, .terraform.lock.hcl, .tflint.hcl)",
+    category: "INFRA",
+    test: (_, b) =>
+      b.endsWith(".tf") ||
+      b.endsWith(".tfvars") ||
+      b.endsWith(".tf.json") ||
+      b === ".terraform.lock.hcl" ||
+      b === ".tflint.hcl",
+  },
   // Dockerfile variants: Dockerfile, Dockerfile.prod, etc.
-  if (basename === "Dockerfile" || basename.startsWith("Dockerfile.")) return true;
+  { label: "Dockerfile variant (Dockerfile, Dockerfile.*)", category: "INFRA", test: (_, b) => b === "Dockerfile" || b.startsWith("Dockerfile.") },
   // Jenkinsfile variants: Jenkinsfile, Jenkinsfile.groovy, etc.
-  if (basename === "Jenkinsfile" || basename.startsWith("Jenkinsfile.")) return true;
+  { label: "Jenkinsfile variant (Jenkinsfile, Jenkinsfile.*)", category: "CI", test: (_, b) => b === "Jenkinsfile" || b.startsWith("Jenkinsfile.") },
   // docker-compose variants: docker-compose.yml, docker-compose.yaml, docker-compose.*.(yml|yaml)
-  if (
-    basename === "docker-compose.yml" ||
-    basename === "docker-compose.yaml" ||
-    (basename.startsWith("docker-compose.") && (basename.endsWith(".yml") || basename.endsWith(".yaml")))
-  )
-    return true;
+  {
+    label: "docker-compose variant (docker-compose.*.yml|yaml)",
+    category: "INFRA",
+    test: (_, b) =>
+      b === "docker-compose.yml" ||
+      b === "docker-compose.yaml" ||
+      (b.startsWith("docker-compose.") && (b.endsWith(".yml") || b.endsWith(".yaml"))),
+  },
   // values-*.yaml
-  if (basename.startsWith("values-") && (basename.endsWith(".yaml") || basename.endsWith(".yml"))) return true;
+  { label: "Helm values variant (values-*.yaml|yml)", category: "INFRA", test: (_, b) => b.startsWith("values-") && (b.endsWith(".yaml") || b.endsWith(".yml")) },
   // requirements-*.txt
-  if (basename.startsWith("requirements-") && basename.endsWith(".txt")) return true;
+  { label: "requirements variant (requirements-*.txt)", category: "DEPS", test: (_, b) => b.startsWith("requirements-") && b.endsWith(".txt") },
   // .env, .env.local, .env.production, etc.
-  if (basename === ".env" || basename.startsWith(".env.")) return true;
+  { label: "env file (.env, .env.*)", category: "CONFIG", test: (_, b) => b === ".env" || b.startsWith(".env.") },
   // .NET: *.csproj, *.fsproj, *.sln
-  if (basename.endsWith(".csproj") || basename.endsWith(".fsproj") || basename.endsWith(".sln")) return true;
+  { label: ".NET project (*.csproj, *.fsproj, *.sln)", category: "DEPS", test: (_, b) => b.endsWith(".csproj") || b.endsWith(".fsproj") || b.endsWith(".sln") },
   // conanfile.py, conanfile.txt, etc.
-  if (basename.startsWith("conanfile.")) return true;
+  { label: "conanfile variant (conanfile.*)", category: "DEPS", test: (_, b) => b.startsWith("conanfile.") },
   // Containerfile variants: Containerfile, Containerfile.prod, etc.
-  if (basename === "Containerfile" || basename.startsWith("Containerfile.")) return true;
+  { label: "Containerfile variant (Containerfile, Containerfile.*)", category: "INFRA", test: (_, b) => b === "Containerfile" || b.startsWith("Containerfile.") },
   // appsettings.json, appsettings.Production.json, etc.
-  if (basename.startsWith("appsettings") && basename.endsWith(".json")) return true;
+  { label: "appsettings variant (appsettings*.json)", category: "CONFIG", test: (_, b) => b.startsWith("appsettings") && b.endsWith(".json") },
   // tsconfig.json, tsconfig.app.json, etc.
-  if (basename === "tsconfig.json" || (basename.startsWith("tsconfig.") && basename.endsWith(".json"))) return true;
+  { label: "tsconfig variant (tsconfig.json, tsconfig.*.json)", category: "CONFIG", test: (_, b) => b === "tsconfig.json" || (b.startsWith("tsconfig.") && b.endsWith(".json")) },
   // next.config.(js|mjs|ts|cjs)
-  if (basename.startsWith("next.config.") && (basename.endsWith(".js") || basename.endsWith(".mjs") || basename.endsWith(".ts") || basename.endsWith(".cjs"))) return true;
+  { label: "next.config variant (next.config.*)", category: "CONFIG", test: (_, b) => b.startsWith("next.config.") && endsWithAny(b, JS_CONFIG_EXTENSIONS) },
   // vite.config.(js|mjs|ts|cjs)
-  if (basename.startsWith("vite.config.") && (basename.endsWith(".js") || basename.endsWith(".mjs") || basename.endsWith(".ts") || basename.endsWith(".cjs"))) return true;
+  { label: "vite.config variant (vite.config.*)", category: "CONFIG", test: (_, b) => b.startsWith("vite.config.") && endsWithAny(b, JS_CONFIG_EXTENSIONS) },
   // webpack.config.(js|mjs|ts|cjs)
-  if (basename.startsWith("webpack.config.") && (basename.endsWith(".js") || basename.endsWith(".mjs") || basename.endsWith(".ts") || basename.endsWith(".cjs"))) return true;
+  { label: "webpack.config variant (webpack.config.*)", category: "CONFIG", test: (_, b) => b.startsWith("webpack.config.") && endsWithAny(b, JS_CONFIG_EXTENSIONS) },
   // babel.config.(js|cjs|mjs|json)
-  if (basename.startsWith("babel.config.") && (basename.endsWith(".js") || basename.endsWith(".cjs") || basename.endsWith(".mjs") || basename.endsWith(".json"))) return true;
+  {
+    label: "babel.config variant (babel.config.*)",
+    category: "CONFIG",
+    test: (_, b) => b.startsWith("babel.config.") && endsWithAny(b, [".js", ".cjs", ".mjs", ".json"]),
+  },
   // firebase.*.json (e.g. firebase.console.json)
-  if (basename.startsWith("firebase.") && basename.endsWith(".json")) return true;
+  { label: "firebase variant (firebase.*.json)", category: "CONFIG", test: (_, b) => b.startsWith("firebase.") && b.endsWith(".json") },
   // CloudFormation / SAM templates
-  if (
-    basename.endsWith(".template.yaml") ||
-    basename.endsWith(".template.yml") ||
-    basename.endsWith(".template.json")
-  )
-    return true;
+  {
+    label: "CloudFormation/SAM template (*.template.yaml|yml|json)",
+    category: "INFRA",
+    test: (_, b) => b.endsWith(".template.yaml") || b.endsWith(".template.yml") || b.endsWith(".template.json"),
+  },
   // Sentry config variants
-  if (basename.startsWith("sentry.") && (basename.endsWith(".config.js") || basename.endsWith(".config.ts"))) return true;
+  { label: "Sentry config variant (sentry.*.config.js|ts)", category: "OBSERVABILITY", test: (_, b) => b.startsWith("sentry.") && (b.endsWith(".config.js") || b.endsWith(".config.ts")) },
   // Bazel BUILD (no extension)
-  if (basename === "BUILD" || basename === "BUILD.bazel") return true;
+  { label: "Bazel BUILD file", category: "DEPS", test: (_, b) => b === "BUILD" || b === "BUILD.bazel" },
+];
+
+/** Built-in rules for one category (for `decern-gate patterns list`). */
+export type CategoryRules = {
+  category: PatternCategory;
+  pathPatterns: readonly string[];
+  basenames: readonly string[];
+  specialCases: string[];
+};
+
+/** Built-in rules grouped by category (CUSTOM excluded: it only holds user extra patterns). */
+export function listBuiltinPatterns(): CategoryRules[] {
+  return CATEGORY_PATTERNS.map(({ category, pathPatterns, basenames }) => ({
+    category,
+    pathPatterns,
+    basenames,
+    specialCases: SPECIAL_CASES.filter((c) => c.category === category).map((c) => c.label),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// MATCHING
+// ---------------------------------------------------------------------------
+
+/** How the deciding rule matches: glob, path substring, exact basename, or a labelled special case. */
+export type RuleKind = "glob" | "path" | "basename" | "special";
+
+/** Result of matching one path: whether a decision is required, which rule decided, and its category. */
+export type PathMatch = {
+  required: boolean;
+  /** Category of the deciding rule (CUSTOM for extra patterns); null when nothing matched or an ignore rule decided. */
+  category: PatternCategory | null;
+  /** The deciding rule: a pattern (e.g. "auth/", "!docs/**") or a special-case label; null when nothing matched. */
+  rule: string | null;
+  /** Where the deciding rule comes from: an ignore (negated) pattern, an extra pattern, or the built-in lists. */
+  source: "ignore" | "extra" | "builtin" | null;
+  kind: RuleKind | null;
+  /** When an ignore rule decided: the match it overrode (extra pattern or built-in), if any. */
+  overridden?: PathMatch;
+  /** A gate policy file: matched before ignore rules; category levels and waivers do not apply (always block). */
+  locked?: boolean;
+};
 
-  return REQUIRED_BASENAMES.includes(basename);
+const NO_MATCH: PathMatch = { required: false, category: null, rule: null, source: null, kind: null };
+
+function userPatternKind(pattern: string): RuleKind {
+  if (hasGlobChars(pattern)) return "glob";
+  return pattern.includes("/") ? "path" : "basename";
+}
+
+/**
+ * Matches one user pattern against a path. Glob patterns (`*`, `?`, `[...]`, `{a,b}`) use glob semantics;
+ * otherwise paths (containing "/") match via includes and anything else via exact basename.
+ */
+function userPatternMatches(pattern: string, normalized: string, basename: string): boolean {
+  switch (userPatternKind(pattern)) {
+    case "glob":
+      return matchesGlob(normalized, pattern);
+    case "path":
+      return normalized.includes(pattern);
+    default:
+      return basename === pattern;
+  }
+}
+
+function matchIncludes(normalized: string, basename: string, patterns: string[]): PathMatch {
+  for (const p of patterns) {
+    if (!p.startsWith("!") && userPatternMatches(p, normalized, basename)) {
+      return { required: true, category: "CUSTOM", rule: p, source: "extra", kind: userPatternKind(p) };
+    }
+  }
+
+  for (const p of REQUIRED_PATH_PATTERNS) {
+    if (normalized.includes(p)) {
+      return { required: true, category: PATH_PATTERN_CATEGORY.get(p)!, rule: p, source: "builtin", kind: "path" };
+    }
+  }
+  for (const c of SPECIAL_CASES) {
+    if (c.test(normalized, basename)) {
+      return { required: true, category: c.category, rule: c.label, source: "builtin", kind: "special" };
+    }
+  }
+  const category = BASENAME_CATEGORY.get(basename);
+  if (category) return { required: true, category, rule: basename, source: "builtin", kind: "basename" };
+
+  return NO_MATCH;
+}
+
+/**
+ * Gate policy files: GATE_POLICY_BASENAMES at any depth, plus policyPaths (repo-relative files, or directories
+ * with a trailing "/") such as a config file loaded from another path.
+ */
+function matchPolicyFile(normalized: string, basename: string, policyPaths: readonly string[]): PathMatch | undefined {
+  if (GATE_POLICY_BASENAMES.includes(basename)) {
+    return { required: true, category: "SECURITY", rule: basename, source: "builtin", kind: "basename", locked: true };
+  }
+  for (const p of policyPaths) {
+    if (p.endsWith("/") ? normalized.startsWith(p) : normalized === p) {
+      return { required: true, category: "SECURITY", rule: p, source: "builtin", kind: "path", locked: true };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns whether a decision is required for the path, which rule decided, and how it matched.
+ * extraPatterns: user patterns; a leading "!" makes a pattern an ignore rule. Ignore rules take precedence
+ * over extra patterns and the built-in lists (e.g. "!docs/**" stops "auth/" from matching docs/auth/README.md),
+ * but not over the gate's own policy files (see matchPolicyFile), which are always locked SECURITY matches.
+ */
+export function matchRequiredPath(path: string, extraPatterns?: string[], policyPaths: readonly string[] = []): PathMatch {
+  const normalized = path.replace(/\\/g, "/");
+  const basename = normalized.split("/").pop() ?? normalized;
+  const patterns = extraPatterns ?? [];
+
+  const policyFile = matchPolicyFile(normalized, basename, policyPaths);
+  if (policyFile) return policyFile;
+
+  for (const p of patterns) {
+    const ignored = p.slice(1);
+    if (p.startsWith("!") && userPatternMatches(ignored, normalized, basename)) {
+      const overridden = matchIncludes(normalized, basename, patterns);
+      return {
+        required: false,
+        category: null,
+        rule: p,
+        source: "ignore",
+        kind: userPatternKind(ignored),
+        ...(overridden.required ? { overridden } : {}),
+      };
+    }
+  }
+  return matchIncludes(normalized, basename, patterns);
+}
+
+/** Boolean shorthand for matchRequiredPath(...).required. */
+export function pathMatchesRequired(path: string, extraPatterns?: string[]): boolean {
+  return matchRequiredPath(path, extraPatterns).required;
 }
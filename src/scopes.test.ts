@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import type { FileMatch } from "./main";
+import { findUncovered, parseScopes, scopeCovers } from "./scopes";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const tf: FileMatch = { file: "terraform/main.tf", rule: "terraform/", category: "INFRA" };
+const migration: FileMatch = { file: "db/migrations/001.sql", rule: "db/migrations/", category: "DB" };
+
+describe("parseScopes", () => {
+  it("accepts lists and comma-separated strings", () => {
+    expect(parseScopes(["INFRA", " terraform/** "])).toEqual(["INFRA", "terraform/**"]);
+    expect(parseScopes("DB, migrations/")).toEqual(["DB", "migrations/"]);
+  });
+
+  it("returns undefined when absent or empty", () => {
+    expect(parseScopes(undefined)).toBeUndefined();
+    expect(parseScopes([])).toBeUndefined();
+    expect(parseScopes([1, ""])).toBeUndefined();
+  });
+});
+
+describe("scopeCovers", () => {
+  it.each([
+    ["INFRA", tf, true],
+    ["DB", tf, false],
+    ["terraform/**", tf, true],
+    ["terraform", tf, true],
+    ["*.tf", tf, true],
+    ["k8s/**", tf, false],
+    ["infra", tf, false],
+  ] as const)("%s covers %s: %s", (scope, match, expected) => {
+    expect(scopeCovers(scope, match)).toBe(expected);
+  });
+});
+
+describe("findUncovered", () => {
+  it("an unscoped decision covers every file", () => {
+    expect(findUncovered([tf, migration], [{ ref: "ADR-001" }])).toEqual([]);
+  });
+
+  it("each file must be covered by at least one decision", () => {
+    expect(findUncovered([tf, migration], [{ ref: "ADR-001", scopes: ["INFRA"] }])).toEqual([migration]);
+    expect(
+      findUncovered([tf, migration], [
+        { ref: "ADR-001", scopes: ["INFRA"] },
+        { ref: "ADR-002", scopes: ["db/**"] },
+      ])
+    ).toEqual([]);
+  });
+
+  it("a package scope restricts the decision to that package", () => {
+    const billing: FileMatch = { file: "packages/billing/package.json", rule: "package.json", category: "DEPS", package: "packages/billing" };
+    const tools: FileMatch = { file: "tools/scripts/package.json", rule: "package.json", category: "DEPS", package: "tools/scripts" };
+    expect(findUncovered([billing, tools, tf], [{ ref: "ADR-001", scopes: ["package:packages/billing/"] }])).toEqual([tools, tf]);
+    expect(findUncovered([billing, tools], [{ ref: "ADR-001", scopes: ["package:tools/scripts", "INFRA"] }])).toEqual([billing, tools]);
+    expect(findUncovered([tf, billing], [{ ref: "ADR-001", scopes: ["package:.", "package:./packages/billing"] }])).toEqual([]);
+  });
+
+  it("nothing is covered without decisions", () => {
+    expect(findUncovered([tf], [])).toEqual([tf]);
+  });
+});
+
+describe("run — decision scopes", () => {
+  const g = useGateRepo();
+
+  it("blocks when a valid decision's scope does not cover a matched file", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\n",
+        "docs/adr/0001-logging.md": "---\nstatus: accepted\nscopes: [OBSERVABILITY]\n---\n# Logging\n",
+      },
+      "local ADRs"
+    );
+    const head = g.commit({ "terraform/main.tf": "resource {}\n" }, "infra change citing ADR-001");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.validations).toEqual([{ ref: "ADR-001", valid: true, decisionStatus: "accepted", scopes: ["OBSERVABILITY"] }]);
+    expect(report.uncovered).toEqual([{ file: "terraform/main.tf", rule: "terraform/", category: "INFRA" }]);
+    expect(report.summary).toBe("blocked — high-impact files not covered by the scope of any referenced decision: terraform/main.tf");
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Decision scopes: a decision may declare which high-impact changes it covers, as globs (`terraform/**`)
+ * or pattern categories (`INFRA`). Every file matched by the policy must be covered by at least one valid
+ * referenced decision. Decisions without scopes cover everything (backward compatible).
+ * In a monorepo, `package:<dir>` scopes restrict a decision to those packages (`package:.` = files outside
+ * every package): its other scopes then only cover files in them, so it never unlocks another package.
+ */
+
+import { matchesGlob } from "./glob.js";
+import type { FileMatch } from "./main.js";
+import { PATTERN_CATEGORIES, type PatternCategory } from "./required-patterns.js";
+
+/** A valid referenced decision and its declared scopes (undefined = unscoped). */
+export type ScopedDecision = { ref: string; scopes?: string[] };
+
+/**
+ * Normalizes a scopes value from the validate response or ADR front matter: a list of strings or one
+ * comma-separated string. Returns undefined when absent or empty (unscoped).
+ */
+export function parseScopes(raw: unknown): string[] | undefined {
+  const list = typeof raw === "string" ? raw.split(",") : Array.isArray(raw) ? raw : [];
+  const scopes = list
+    .filter((s): s is string => typeof s === "string")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return scopes.length > 0 ? scopes : undefined;
+}
+
+/** Whether one scope entry covers the match: a category name (case-sensitive, e.g. INFRA) or a glob/path. */
+export function scopeCovers(scope: string, match: FileMatch): boolean {
+  if (PATTERN_CATEGORIES.includes(scope as PatternCategory)) return match.category === scope;
+  return matchesGlob(match.file, scope);
+}
+
+const PACKAGE_SCOPE = /^package:\s*(.+)$/;
+
+/** Package directory of a `package:<dir>` scope (leading "./" and trailing "/" dropped); undefined otherwise. */
+function scopePackage(scope: string): string | undefined {
+  const dir = PACKAGE_SCOPE.exec(scope)?.[1]!.trim();
+  return dir === undefined ? undefined : dir.replace(/^\.\/(?=.)/, "").replace(/\/+$/, "") || ".";
+}
+
+export function decisionCovers(decision: ScopedDecision, match: FileMatch): boolean {
+  if (decision.scopes === undefined) return true;
+  const packages = decision.scopes.map(scopePackage).filter((p): p is string => p !== undefined);
+  if (packages.length > 0 && !packages.includes(match.package ?? ".")) return false;
+  const scopes = decision.scopes.filter((scope) => scopePackage(scope) === undefined);
+  return scopes.length === 0 || scopes.some((scope) => scopeCovers(scope, match));
+}
+
+/** Matched files not covered by any of the decisions. */
+export function findUncovered(matched: FileMatch[], decisions: ScopedDecision[]): FileMatch[] {
+  return matched.filter((m) => !decisions.some((d) => decisionCovers(d, m)));
+}
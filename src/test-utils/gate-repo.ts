@@ -0,0 +1,77 @@
+/**
+ * Test helper for gate integration tests: a temp git repo the gate runs in. `useGateRepo()` registers
+ * beforeEach/afterEach hooks that create the repo with one "init" commit, chdir into it and neutralize the
+ * CI env, then restore the cwd, env and globals and remove the repo.
+ */
+
+import { execSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { afterEach, beforeEach, vi } from "vitest";
+import type { ConfigOverrides } from "../config";
+import { run } from "../main";
+import type { GateReport } from "../report";
+
+export type GateRepo = {
+  /** The repo directory (the process cwd during a test). */
+  dir: string;
+  /** Base commit for CI_BASE_SHA: the "init" commit until a test moves it. */
+  base: string;
+  /** Writes the files, commits everything and returns the new HEAD sha. */
+  commit(files: Record<string, string>, message: string): string;
+  /** Runs the gate with JSON output; the report is the last printed line. */
+  runJson(overrides?: ConfigOverrides): Promise<{ code: number; report: GateReport; printed: string[] }>;
+};
+
+export function useGateRepo(): GateRepo {
+  let cwd: string;
+  const repo: GateRepo = {
+    dir: "",
+    base: "",
+    commit(files, message) {
+      for (const [path, content] of Object.entries(files)) {
+        mkdirSync(dirname(join(repo.dir, path)), { recursive: true });
+        writeFileSync(join(repo.dir, path), content);
+      }
+      execSync(`git add -A && git commit -q -m "${message}"`, { cwd: repo.dir });
+      return execSync("git rev-parse HEAD", { cwd: repo.dir, encoding: "utf-8" }).trim();
+    },
+    async runJson(overrides = {}) {
+      const printed: string[] = [];
+      const spy = vi.spyOn(console, "log").mockImplementation((line: string) => {
+        printed.push(line);
+      });
+      try {
+        const code = await run({ overrides: { ...overrides, format: "json" } });
+        return { code, report: JSON.parse(printed[printed.length - 1]!) as GateReport, printed };
+      } finally {
+        spy.mockRestore();
+      }
+    },
+  };
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    repo.dir = mkdtempSync(join(tmpdir(), "decern-gate-repo-"));
+    execSync("git init -q && git config user.email t@example.com && git config user.name t", { cwd: repo.dir });
+    repo.base = repo.commit({ "README.md": "hello\n" }, "init");
+    process.chdir(repo.dir);
+    vi.stubEnv("DECERN_BASE_URL", "");
+    vi.stubEnv("DECERN_CI_TOKEN", "");
+    vi.stubEnv("CI_PR_TITLE", "");
+    vi.stubEnv("CI_PR_BODY", "");
+    vi.stubEnv("CI_COMMIT_MESSAGE", "");
+    vi.stubEnv("GITHUB_ACTIONS", "");
+    vi.stubEnv("DECERN_GATE_CI_PROVIDER", "none");
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    rmSync(repo.dir, { recursive: true, force: true });
+  });
+
+  return repo;
+}
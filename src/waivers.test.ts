@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+import { addDays, describeWaiver, isExpired, parseWaivers, waiverFor, type Waiver } from "./waivers";
+import { useGateRepo } from "./test-utils/gate-repo";
+
+const waiver = (w: Partial<Waiver>): Waiver => ({
+  id: ".decern-waivers.yml#1",
+  paths: [],
+  categories: [],
+  owner: "platform",
+  reason: "migration",
+  expires: "2026-12-31",
+  ...w,
+});
+
+describe("parseWaivers", () => {
+  it("reads waivers with paths or categories, owner, reason and expiry", () => {
+    const { waivers, issues } = parseWaivers({
+      waivers: [
+        { paths: ["openapi.json"], owner: "api", reason: "Generated", expires: "2026-12-31" },
+        { categories: ["DEPS"], owner: " deps ", reason: "Renovate rollout", expires: "2027-01-15" },
+      ],
+    });
+    expect(issues).toEqual([]);
+    expect(waivers).toEqual([
+      { id: ".decern-waivers.yml#1", paths: ["openapi.json"], categories: [], owner: "api", reason: "Generated", expires: "2026-12-31" },
+      { id: ".decern-waivers.yml#2", paths: [], categories: ["DEPS"], owner: "deps", reason: "Renovate rollout", expires: "2027-01-15" },
+    ]);
+  });
+
+  it("requires owner, reason, a valid expiry date, and paths or categories", () => {
+    const { waivers, issues } = parseWaivers({
+      waivers: [
+        { paths: ["charts/"], owner: "ui" },
+        { categories: ["NOPE"], owner: "x", reason: "y", expires: "2026-02-30" },
+        { owner: "x", reason: "y", expires: "2026-01-01", until: "later" },
+      ],
+      extra: true,
+    });
+    expect(waivers).toEqual([]);
+    expect(issues).toEqual([
+      'Unknown key "extra".',
+      '"waivers[0].reason" is required.',
+      '"waivers[0].expires" is required (YYYY-MM-DD).',
+      expect.stringMatching(/^"waivers\[1\]\.categories" must be a list of: DB, /),
+      '"waivers[1].expires" must be a date (YYYY-MM-DD).',
+      'Unknown key "waivers[2].until".',
+      '"waivers[2]" must list paths or categories.',
+    ]);
+  });
+});
+
+describe("parseWaivers — expiry horizon", () => {
+  it("rejects an expiry more than maxDays ahead", () => {
+    const raw = {
+      waivers: [
+        { paths: ["charts/"], owner: "ui", reason: "UI", expires: "2026-08-30" },
+        { paths: ["**"], owner: "x", reason: "forever", expires: "2099-12-31" },
+      ],
+    };
+    const { waivers, issues } = parseWaivers(raw, ".decern-waivers.yml", { maxDays: 90, on: "2026-06-01" });
+    expect(waivers.map((w) => w.expires)).toEqual(["2026-08-30"]);
+    expect(issues).toEqual(['"waivers[1].expires" is more than 90 days ahead; use 2026-08-30 or earlier (waivers.maxDays).']);
+    expect(parseWaivers(raw).issues).toEqual([]);
+  });
+
+  it("adds days across month and year ends", () => {
+    expect(addDays("2026-12-15", 30)).toBe("2027-01-14");
+    expect(addDays("2028-02-28", 1)).toBe("2028-02-29");
+  });
+});
+
+describe("waiverFor", () => {
+  it("matches paths and categories; with both, a file must match both", () => {
+    const byPath = waiver({ paths: ["charts/"] });
+    const byBoth = waiver({ id: "#2", paths: ["**/openapi.json"], categories: ["INFRA"] });
+    expect(waiverFor("charts/ui/values.yaml", "INFRA", [byPath], "2026-06-01")).toBe(byPath);
+    expect(waiverFor("api/openapi.json", "API", [byBoth], "2026-06-01")).toBeUndefined();
+    expect(waiverFor("package-lock.json", "DEPS", [waiver({ categories: ["DEPS"] })], "2026-06-01")).toBeDefined();
+  });
+
+  it("applies through the expiry date, not after it", () => {
+    const w = waiver({ paths: ["charts/"], expires: "2026-06-01" });
+    expect(waiverFor("charts/a.yaml", "INFRA", [w], "2026-06-01")).toBe(w);
+    expect(waiverFor("charts/a.yaml", "INFRA", [w], "2026-06-02")).toBeUndefined();
+    expect(isExpired(w, "2026-06-02")).toBe(true);
+    expect(describeWaiver(w, "2026-06-02")).toBe(".decern-waivers.yml#1 (platform, expired 2026-06-01)");
+  });
+});
+
+describe("run — waivers", () => {
+  const g = useGateRepo();
+
+  const waiverFile = (expires: string) =>
+    `waivers:\n  - paths: [charts/]\n    owner: ui-team\n    reason: Charts are UI components\n    expires: ${expires}\n`;
+  const inDays = (n: number) => new Date(Date.now() + n * 86_400_000).toISOString().slice(0, 10);
+
+  it("passes when every high-impact file is waived and reports the applied waivers", async () => {
+    g.base = g.commit({ ".decern-waivers.yml": waiverFile(inDays(30)) }, "waive charts");
+    const head = g.commit({ "charts/ui/values.yaml": "a: 1\n" }, "Chart tweak");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.summary).toBe("passed (high-impact changes waived).");
+    expect(report.policy!.waived).toEqual([
+      { file: "charts/ui/values.yaml", rule: "charts/", category: "INFRA", waiver: ".decern-waivers.yml#1" },
+    ]);
+    expect(report.waivers!.applied.map((w) => w.owner)).toEqual(["ui-team"]);
+  });
+
+  it("does not apply a waiver the PR adds, even with a decision scoped to the waivers file", async () => {
+    g.base = g.commit(
+      { ".decern-gate.yml": "provider: local\n", "docs/adr/0005-waivers.md": "---\nstatus: accepted\nscopes: [SECURITY]\n---\n" },
+      "local ADRs"
+    );
+    const head = g.commit({ ".decern-waivers.yml": waiverFile(inDays(30)), "charts/ui/values.yaml": "a: 1\n" }, "Chart tweak (ADR-005)");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.policy!.matched).toEqual([
+      { file: ".decern-waivers.yml", rule: ".decern-waivers.yml", category: "SECURITY" },
+      { file: "charts/ui/values.yaml", rule: "charts/", category: "INFRA" },
+    ]);
+    expect(report.policy!.waived).toEqual([]);
+    expect(report.uncovered).toEqual([{ file: "charts/ui/values.yaml", rule: "charts/", category: "INFRA" }]);
+  });
+
+  it("blocks on an expired waiver, even when nothing else is high-impact", async () => {
+    g.base = g.commit({ ".decern-waivers.yml": waiverFile("2020-01-31") }, "waive charts");
+    const head = g.commit({ "src/app.ts": "export {};\n" }, "Code");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(1);
+    expect(report.summary).toBe("blocked — expired waiver(s) in .decern-waivers.yml: .decern-waivers.yml#1 (ui-team, expired 2020-01-31).");
+    expect(report.waivers).toMatchObject({ applied: [], expired: [{ id: ".decern-waivers.yml#1" }] });
+  });
+
+  it("gates the PR that renews an expired waiver like any policy change", async () => {
+    g.base = g.commit(
+      {
+        ".decern-gate.yml": "provider: local\n",
+        ".decern-waivers.yml": waiverFile("2020-01-31"),
+        "docs/adr/0005-waivers.md": "---\nstatus: accepted\nscopes: [SECURITY]\n---\n",
+      },
+      "waive charts"
+    );
+    const head = g.commit({ ".decern-waivers.yml": waiverFile(inDays(30)) }, "Renew chart waiver (ADR-005)");
+    vi.stubEnv("CI_BASE_SHA", g.base);
+    vi.stubEnv("CI_HEAD_SHA", head);
+    const { code, report } = await g.runJson();
+    expect(code).toBe(0);
+    expect(report.waivers).toMatchObject({ expired: [{ id: ".decern-waivers.yml#1" }] });
+    expect(report.policy!.matched).toEqual([{ file: ".decern-waivers.yml", rule: ".decern-waivers.yml", category: "SECURITY" }]);
+  });
+});
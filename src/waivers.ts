@@ -0,0 +1,163 @@
+/**
+ * Time-boxed waivers: `.decern-waivers.yml` at the repo root lists path globs and/or categories that do not
+ * require a decision until an expiry date, each with an owner and a reason. Waived files are reported, not
+ * gated. An expired waiver no longer applies and blocks the gate until it is removed or renewed, so the
+ * file cannot collect stale exemptions. An expiry more than waivers.maxDays ahead is invalid, so a waiver
+ * cannot be open-ended either. The gate reads the file at the PR base: a waiver added in a PR applies once
+ * it is merged, never to the PR that adds it.
+ *
+ * ```yaml
+ * waivers:
+ *   - paths: [openapi.json, charts/]
+ *     owner: api-platform
+ *     reason: Generated during the v2 migration
+ *     expires: 2026-12-31
+ * ```
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+import { matchesGlob } from "./glob.js";
+import { readFileAtRev } from "./policy-rev.js";
+import { PATTERN_CATEGORIES, type PatternCategory } from "./required-patterns.js";
+
+export const WAIVERS_FILE = ".decern-waivers.yml";
+
+export type Waiver = {
+  /** Position in the file, e.g. ".decern-waivers.yml#2" (1-based). */
+  id: string;
+  /** Path globs (glob.ts syntax); empty = any path in the categories. */
+  paths: string[];
+  /** Pattern categories; empty = any category. With paths too, a file must match both. */
+  categories: PatternCategory[];
+  owner: string;
+  reason: string;
+  /** Last day the waiver applies (YYYY-MM-DD, UTC). */
+  expires: string;
+};
+
+const WAIVER_KEYS = ["paths", "categories", "owner", "reason", "expires"];
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Today as YYYY-MM-DD (UTC), for comparison with `expires`. */
+export function today(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function isDate(s: string): boolean {
+  const m = DATE.exec(s);
+  if (!m) return false;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.toISOString().slice(0, 10) === s;
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/** The date `days` after `on` (both YYYY-MM-DD, UTC). */
+export function addDays(on: string, days: number): string {
+  const [y, m, d] = on.split("-").map(Number);
+  return new Date(Date.UTC(y!, m! - 1, d! + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Validates the parsed file; returns the waivers and a list of issues (empty when valid). With `horizon`,
+ * an expiry more than maxDays after `on` (default today) is an issue.
+ */
+export function parseWaivers(
+  raw: unknown,
+  fileName: string = WAIVERS_FILE,
+  horizon?: { maxDays: number; on?: string }
+): { waivers: Waiver[]; issues: string[] } {
+  const latest = horizon && addDays(horizon.on ?? today(), horizon.maxDays);
+  const waivers: Waiver[] = [];
+  const issues: string[] = [];
+  if (raw === null || raw === undefined) return { waivers, issues };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { waivers, issues: ['The file must be a mapping with a "waivers" list.'] };
+  }
+  for (const key of Object.keys(raw)) if (key !== "waivers") issues.push(`Unknown key "${key}".`);
+  const list = (raw as { waivers?: unknown }).waivers;
+  if (list === undefined || list === null) return { waivers, issues };
+  if (!Array.isArray(list)) return { waivers, issues: [...issues, '"waivers" must be a list.'] };
+
+  list.forEach((entry: unknown, i) => {
+    const at = `waivers[${i}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      issues.push(`"${at}" must be a mapping with owner, reason, expires and paths or categories.`);
+      return;
+    }
+    const e = entry as Record<string, unknown>;
+    const before = issues.length;
+    for (const key of Object.keys(e)) if (!WAIVER_KEYS.includes(key)) issues.push(`Unknown key "${at}.${key}".`);
+    const paths = e.paths ?? [];
+    const categories = e.categories ?? [];
+    if (!Array.isArray(paths) || !paths.every(nonEmptyString)) {
+      issues.push(`"${at}.paths" must be a list of non-empty strings.`);
+    }
+    if (!Array.isArray(categories) || !categories.every((c) => PATTERN_CATEGORIES.includes(c as PatternCategory))) {
+      issues.push(`"${at}.categories" must be a list of: ${PATTERN_CATEGORIES.join(", ")}.`);
+    }
+    if (Array.isArray(paths) && Array.isArray(categories) && paths.length === 0 && categories.length === 0) {
+      issues.push(`"${at}" must list paths or categories.`);
+    }
+    for (const key of ["owner", "reason"]) {
+      if (!nonEmptyString(e[key])) issues.push(`"${at}.${key}" is required.`);
+    }
+    const expires = e.expires;
+    if (expires === undefined) issues.push(`"${at}.expires" is required (YYYY-MM-DD).`);
+    else if (typeof expires !== "string" || !isDate(expires.trim())) issues.push(`"${at}.expires" must be a date (YYYY-MM-DD).`);
+    else if (latest && expires.trim() > latest) {
+      issues.push(`"${at}.expires" is more than ${horizon!.maxDays} days ahead; use ${latest} or earlier (waivers.maxDays).`);
+    }
+    if (issues.length > before) return;
+
+    waivers.push({
+      id: `${fileName}#${i + 1}`,
+      paths: (paths as string[]).map((p) => p.trim()),
+      categories: categories as PatternCategory[],
+      owner: (e.owner as string).trim(),
+      reason: (e.reason as string).trim(),
+      expires: (expires as string).trim(),
+    });
+  });
+  return { waivers, issues };
+}
+
+/**
+ * Reads `.decern-waivers.yml` at the repo root, at rev (the PR base) when set, else from the working tree;
+ * no file = no waivers. YAML errors and expiries more than maxDays ahead are returned as issues.
+ */
+export function readWaiversFile(repoRoot: string, maxDays?: number, rev?: string): { waivers: Waiver[]; issues: string[] } {
+  const path = join(repoRoot, WAIVERS_FILE);
+  const text = rev ? readFileAtRev(repoRoot, rev, WAIVERS_FILE) : existsSync(path) ? readFileSync(path, "utf-8") : undefined;
+  if (text === undefined) return { waivers: [], issues: [] };
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (e) {
+    return { waivers: [], issues: [`Cannot parse: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  return parseWaivers(raw, WAIVERS_FILE, maxDays === undefined ? undefined : { maxDays });
+}
+
+export function isExpired(waiver: Waiver, on: string = today()): boolean {
+  return on > waiver.expires;
+}
+
+/** The first unexpired waiver covering a high-impact file of the given category; undefined = not waived. */
+export function waiverFor(file: string, category: PatternCategory, waivers: Waiver[], on: string = today()): Waiver | undefined {
+  return waivers.find(
+    (w) =>
+      !isExpired(w, on) &&
+      (w.categories.length === 0 || w.categories.includes(category)) &&
+      (w.paths.length === 0 || w.paths.some((p) => matchesGlob(file, p)))
+  );
+}
+
+/** "<id> (<owner>, until|expired <date>)" for output. */
+export function describeWaiver(waiver: Waiver, on: string = today()): string {
+  return `${waiver.id} (${waiver.owner}, ${isExpired(waiver, on) ? "expired" : "until"} ${waiver.expires})`;
+}